@@ -1,15 +1,26 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { StageEditor } from "./ui/StageEditor";
 import { strings, type Lang, getStoredLang, setStoredLang } from "./ui/i18n";
 import { useIsMobile } from "./lib/useIsMobile";
+import { readShareHash, type SharedDesign } from "./ui/shareLink";
+import { DesignLibraryPanel } from "./ui/DesignLibraryPanel";
+import type { DesignState } from "./ui/designFile";
 
 export default function App() {
   const isMobile = useIsMobile();
   const [theme, setTheme] = useState<"dark" | "light">("dark");
   const [lang, setLang] = useState<Lang>(getStoredLang());
-  const [exampleToLoad, setExampleToLoad] = useState<"EX1" | "EX2" | "EX3" | "EX4" | null>(null);
+  const [exampleToLoad, setExampleToLoad] = useState<"EX1" | "EX2" | "EX3" | "EX4" | SharedDesign | null>(null);
+  const [shareWarning, setShareWarning] = useState<{ mensagem: string; mensagem_en: string } | null>(null);
   const [resetSignal, setResetSignal] = useState(0);
+  const [undoSignal, setUndoSignal] = useState(0);
+  const [redoSignal, setRedoSignal] = useState(0);
+  const [history, setHistory] = useState({ canUndo: false, canRedo: false });
   const [lastLoadedExample, setLastLoadedExample] = useState<"EX1" | "EX2" | "EX3" | "EX4" | null>(null);
+  const currentDesignRef = useRef<DesignState | null>(null);
+  const handleDesignChange = useCallback((d: DesignState) => {
+    currentDesignRef.current = d;
+  }, []);
   const logoUrl = `${import.meta.env.BASE_URL}logo-engrenarium.png`;
   const mobileLeftOffset = isMobile ? 32 : 0;
 
@@ -17,6 +28,34 @@ export default function App() {
     document.documentElement.setAttribute("data-theme", theme);
   }, [theme]);
 
+  // Projeto compartilhado no hash da URL: entra pelo mesmo caminho dos exemplos
+  useEffect(() => {
+    let cancelled = false;
+    const loadFromHash = async () => {
+      const res = await readShareHash(window.location.hash);
+      if (cancelled || !res) return;
+      if (!res.valido) {
+        setShareWarning(res);
+        setResetSignal((x) => x + 1);
+        return;
+      }
+      setShareWarning(null);
+      // o idioma do link fica gravado como na troca manual (o recarregamento mantém o que o remetente vê)
+      if (res.shared.lang) {
+        setLang(res.shared.lang);
+        setStoredLang(res.shared.lang);
+      }
+      setExampleToLoad(res.shared);
+    };
+    void loadFromHash();
+    const onHashChange = () => void loadFromHash();
+    window.addEventListener("hashchange", onHashChange);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("hashchange", onHashChange);
+    };
+  }, []);
+
   const switchLang = (l: Lang) => {
     setLang(l);
     setStoredLang(l);
@@ -139,6 +178,34 @@ export default function App() {
           {strings[lang].newPlanetary}
         </button>
 
+        {/* desfazer / refazer */}
+        <div style={{ display: "flex", gap: 4, flex: "0 0 auto" }}>
+          {([
+            { label: "↶", title: strings[lang].undo, enabled: history.canUndo, onClick: () => setUndoSignal((x) => x + 1) },
+            { label: "↷", title: strings[lang].redo, enabled: history.canRedo, onClick: () => setRedoSignal((x) => x + 1) },
+          ]).map((b) => (
+            <button
+              key={b.label}
+              title={b.title}
+              aria-label={b.title}
+              disabled={!b.enabled}
+              onClick={b.onClick}
+              style={{
+                border: "1px solid var(--btn-border)",
+                background: "var(--btn-bg)",
+                color: "var(--text)",
+                borderRadius: 6,
+                padding: isMobile ? "6px 8px" : "6px 10px",
+                cursor: b.enabled ? "pointer" : "default",
+                opacity: b.enabled ? 1 : 0.4,
+                fontSize: isMobile ? 13 : 14,
+              }}
+            >
+              {b.label}
+            </button>
+          ))}
+        </div>
+
           <div
             style={{
               display: "flex",
@@ -185,6 +252,14 @@ export default function App() {
               ))}
             </div>
 
+            {/* Biblioteca local de projetos */}
+            <DesignLibraryPanel
+              lang={lang}
+              isMobile={isMobile}
+              getCurrentDesign={() => currentDesignRef.current}
+              onLoad={(design) => setExampleToLoad({ design })}
+            />
+
             {/* seletor de idioma */}
             <div className="toggle" aria-label={strings[lang].language} title={strings[lang].language}>
               <button className={lang === "pt" ? "active" : ""} onClick={() => switchLang("pt")}>
@@ -223,6 +298,33 @@ export default function App() {
           {strings[lang].appSubtitle}
         </p>
 
+        {shareWarning && (
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 8,
+              marginBottom: 12,
+              padding: "8px 12px",
+              border: "1px solid #f59e0b80",
+              borderRadius: 8,
+              background: "#f59e0b20",
+              fontSize: 14,
+            }}
+          >
+            <span style={{ flex: 1 }}>
+              ⚠ {strings[lang].shareLinkInvalid} ({lang === "en" ? shareWarning.mensagem_en : shareWarning.mensagem})
+            </span>
+            <button
+              style={{ border: "none", background: "transparent", color: "var(--text)", cursor: "pointer", fontSize: 16 }}
+              aria-label={strings[lang].remove}
+              onClick={() => setShareWarning(null)}
+            >
+              ×
+            </button>
+          </div>
+        )}
+
         <StageEditor
           lang={lang}
           exampleToLoad={exampleToLoad}
@@ -231,6 +333,10 @@ export default function App() {
             setLastLoadedExample(id);
           }}
           resetSignal={resetSignal}
+          onDesignChange={handleDesignChange}
+          undoSignal={undoSignal}
+          redoSignal={redoSignal}
+          onHistoryChange={setHistory}
         />
       </div>
     </>
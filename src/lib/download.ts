@@ -0,0 +1,11 @@
+// Dispara o download de um Blob gerado no navegador (arquivos de projeto, STL, etc.)
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
@@ -38,9 +38,130 @@ export function solveGaussian(A: number[][], b: number[]): number[] {
   return M.map((row) => row[n]);
 }
 
-export function leastSquares(A: number[][], b: number[]): number[] {
-  const AT = transpose(A);
-  const ATA = matMul(AT, A);
-  const ATb = matVec(AT, b);
-  return solveGaussian(ATA, ATb);
+export type QRSolution = {
+  x: number[];            // solução básica (variáveis livres = 0)
+  rank: number;
+  nullSpace: number[][];  // base ortonormal do núcleo de A (n − rank vetores)
+  residual: number;       // ‖A·x − b‖₂
+  pivots: number[];       // ordem das colunas escolhida pelo pivoteamento
+};
+
+const norm2 = (v: number[]) => Math.hypot(...v);
+
+/**
+ * Mínimos quadrados por QR de Householder com pivoteamento de colunas: não forma AᵀA
+ * (que eleva ao quadrado o número de condição) e revela o posto. Uma coluna conta
+ * para o posto enquanto |R_kk| > tol; por padrão tol = max(m, n)·1e‑12·|R_00|.
+ * `n` é o número de colunas (explícito: sem linhas, A não o informa).
+ */
+export function qrSolve(A: number[][], b: number[], n: number, tol?: number): QRSolution {
+  const m = A.length;
+  // sem equações: posto 0, todas as variáveis livres (núcleo = base canônica)
+  if (m === 0) {
+    const nullSpace = Array.from({ length: n }, (_, j) => Array.from({ length: n }, (_, i) => (i === j ? 1 : 0)));
+    return { x: new Array(n).fill(0), rank: 0, nullSpace, residual: 0, pivots: Array.from({ length: n }, (_, j) => j) };
+  }
+  const R = A.map((row) => row.slice());
+  const qtb = b.slice();
+  const pivots = Array.from({ length: n }, (_, j) => j);
+  const colNorm = (j: number, k: number) => {
+    let s = 0;
+    for (let i = k; i < m; i++) s += R[i][j] * R[i][j];
+    return Math.sqrt(s);
+  };
+
+  let rank = 0;
+  let threshold = tol ?? 0;
+  for (let k = 0; k < Math.min(m, n); k++) {
+    // coluna restante de maior norma
+    let best = k;
+    let bestNorm = colNorm(k, k);
+    for (let j = k + 1; j < n; j++) {
+      const nj = colNorm(j, k);
+      if (nj > bestNorm) { best = j; bestNorm = nj; }
+    }
+    if (k === 0 && tol == null) threshold = Math.max(m, n) * 1e-12 * bestNorm;
+    if (bestNorm <= threshold || bestNorm === 0) break;
+    if (best !== k) {
+      for (const row of R) [row[k], row[best]] = [row[best], row[k]];
+      [pivots[k], pivots[best]] = [pivots[best], pivots[k]];
+    }
+
+    // refletor de Householder que zera R[k+1..m][k]
+    const alpha = R[k][k] > 0 ? -bestNorm : bestNorm;
+    const v = new Array(m).fill(0);
+    for (let i = k; i < m; i++) v[i] = R[i][k];
+    v[k] -= alpha;
+    const vv = v.reduce((s, x) => s + x * x, 0);
+    if (vv > 0) {
+      for (let j = k; j < n; j++) {
+        let dot = 0;
+        for (let i = k; i < m; i++) dot += v[i] * R[i][j];
+        const f = (2 * dot) / vv;
+        for (let i = k; i < m; i++) R[i][j] -= f * v[i];
+      }
+      let dot = 0;
+      for (let i = k; i < m; i++) dot += v[i] * qtb[i];
+      const f = (2 * dot) / vv;
+      for (let i = k; i < m; i++) qtb[i] -= f * v[i];
+    }
+    for (let i = k + 1; i < m; i++) R[i][k] = 0;
+    rank++;
+  }
+
+  // R11·y = c resolvido por retrossubstituição (com colunas livres à direita dadas)
+  const backSubstitute = (rhs: number[]) => {
+    const y = new Array(rank).fill(0);
+    for (let i = rank - 1; i >= 0; i--) {
+      let s = rhs[i];
+      for (let j = i + 1; j < rank; j++) s -= R[i][j] * y[j];
+      y[i] = s / R[i][i];
+    }
+    return y;
+  };
+
+  const x = new Array(n).fill(0);
+  backSubstitute(qtb).forEach((y, i) => { x[pivots[i]] = y; });
+
+  // núcleo: para cada coluna livre j, R11·w = −R12[:, j] e e_j; depois Gram‑Schmidt
+  const nullSpace: number[][] = [];
+  for (let j = rank; j < n; j++) {
+    const z = new Array(n).fill(0);
+    backSubstitute(R.map((row) => -row[j])).forEach((w, i) => { z[pivots[i]] = w; });
+    z[pivots[j]] = 1;
+    for (const q of nullSpace) {
+      const d = z.reduce((s, zi, i) => s + zi * q[i], 0);
+      for (let i = 0; i < n; i++) z[i] -= d * q[i];
+    }
+    const nz = norm2(z);
+    nullSpace.push(z.map((zi) => zi / nz));
+  }
+
+  const residual = norm2(matVec(A, x).map((ax, i) => ax - b[i]));
+  return { x, rank, nullSpace, residual, pivots };
+}
+
+export function leastSquares(A: number[][], b: number[], n = A[0]?.length ?? 0): number[] {
+  return qrSolve(A, b, n).x;
+}
+
+export function trySolveGaussian(A: number[][], b: number[], eps = 1e-9): number[] | null {
+  const n = A.length;
+  const M = A.map((row, i) => row.concat([b[i]]));
+  const scale = Math.max(1, ...A.map((row) => Math.max(...row.map(Math.abs))));
+  for (let c = 0; c < n; c++) {
+    let piv = c;
+    for (let r = c + 1; r < n; r++)
+      if (Math.abs(M[r][c]) > Math.abs(M[piv][c])) piv = r;
+    if (Math.abs(M[piv][c]) < eps * scale) return null;
+    if (piv !== c) [M[c], M[piv]] = [M[piv], M[c]];
+    const div = M[c][c];
+    for (let j = c; j <= n; j++) M[c][j] /= div;
+    for (let r = 0; r < n; r++)
+      if (r !== c) {
+        const f = M[r][c];
+        if (f !== 0) for (let j = c; j <= n; j++) M[r][j] -= f * M[c][j];
+      }
+  }
+  return M.map((row) => row[n]);
 }
@@ -0,0 +1,209 @@
+// Polinômios de várias variáveis com coeficientes inteiros (BigInt).
+// Monômio = expoentes por símbolo; a chave "a^1*b^2" (símbolos em ordem) identifica o termo.
+
+import { bigGcd } from "./rational";
+
+export type Monomial = Record<string, number>;
+export type Poly = Map<string, { mono: Monomial; c: bigint }>;
+
+const keyOf = (mono: Monomial) =>
+  Object.keys(mono)
+    .filter((s) => mono[s] > 0)
+    .sort()
+    .map((s) => `${s}^${mono[s]}`)
+    .join("*");
+
+function addTerm(p: Poly, mono: Monomial, c: bigint) {
+  if (c === 0n) return;
+  const k = keyOf(mono);
+  const cur = p.get(k);
+  const sum = (cur?.c ?? 0n) + c;
+  if (sum === 0n) p.delete(k);
+  else p.set(k, { mono: cur?.mono ?? mono, c: sum });
+}
+
+export const polyConst = (c: bigint): Poly => {
+  const p: Poly = new Map();
+  addTerm(p, {}, c);
+  return p;
+};
+
+export const polySymbol = (s: string, c = 1n): Poly => {
+  const p: Poly = new Map();
+  addTerm(p, { [s]: 1 }, c);
+  return p;
+};
+
+export const polyIsZero = (p: Poly) => p.size === 0;
+
+export function polyAdd(a: Poly, b: Poly, sign = 1n): Poly {
+  const out: Poly = new Map(a);
+  for (const t of b.values()) addTerm(out, t.mono, sign * t.c);
+  return out;
+}
+
+export const polySub = (a: Poly, b: Poly) => polyAdd(a, b, -1n);
+
+export function polyMul(a: Poly, b: Poly): Poly {
+  const out: Poly = new Map();
+  for (const x of a.values()) {
+    for (const y of b.values()) {
+      const mono: Monomial = { ...x.mono };
+      for (const [s, e] of Object.entries(y.mono)) mono[s] = (mono[s] ?? 0) + e;
+      addTerm(out, mono, x.c * y.c);
+    }
+  }
+  return out;
+}
+
+export const polyScale = (p: Poly, c: bigint) => polyMul(p, polyConst(c));
+
+/** Valor numérico com os símbolos substituídos. */
+export function polyEval(p: Poly, values: Record<string, number>) {
+  let sum = 0;
+  for (const t of p.values()) {
+    let v = Number(t.c);
+    for (const [s, e] of Object.entries(t.mono)) v *= (values[s] ?? NaN) ** e;
+    sum += v;
+  }
+  return sum;
+}
+
+// Ordem lexicográfica dos monômios (para a divisão)
+function compareMono(a: Monomial, b: Monomial) {
+  const syms = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+  for (const s of syms) {
+    const d = (a[s] ?? 0) - (b[s] ?? 0);
+    if (d !== 0) return d;
+  }
+  return 0;
+}
+
+function leading(p: Poly) {
+  let lead: { mono: Monomial; c: bigint } | null = null;
+  for (const t of p.values()) if (!lead || compareMono(t.mono, lead.mono) > 0) lead = t;
+  return lead;
+}
+
+/** Divisão exata a / b; `null` quando não é exata. */
+export function polyDivExact(a: Poly, b: Poly): Poly | null {
+  const lb = leading(b);
+  if (!lb) throw new Error("Divisão por polinômio nulo");
+  let rest: Poly = new Map(a);
+  const q: Poly = new Map();
+  while (rest.size > 0) {
+    const lr = leading(rest)!;
+    if (lr.c % lb.c !== 0n) return null;
+    const mono: Monomial = { ...lr.mono };
+    for (const [s, e] of Object.entries(lb.mono)) {
+      mono[s] = (mono[s] ?? 0) - e;
+      if (mono[s] < 0) return null;
+    }
+    const t: Poly = new Map();
+    addTerm(t, mono, lr.c / lb.c);
+    addTerm(q, mono, lr.c / lb.c);
+    rest = polySub(rest, polyMul(t, b));
+  }
+  return q;
+}
+
+const symbolsOf = (p: Poly) => {
+  const out = new Set<string>();
+  for (const t of p.values()) for (const [s, e] of Object.entries(t.mono)) if (e > 0) out.add(s);
+  return out;
+};
+
+const degreeIn = (p: Poly, x: string) => Math.max(0, ...[...p.values()].map((t) => t.mono[x] ?? 0));
+
+/** Coeficiente de x^k (polinômio nas demais variáveis). */
+function coeffIn(p: Poly, x: string, k: number): Poly {
+  const out: Poly = new Map();
+  for (const t of p.values()) {
+    if ((t.mono[x] ?? 0) !== k) continue;
+    const mono: Monomial = { ...t.mono };
+    delete mono[x];
+    addTerm(out, mono, t.c);
+  }
+  return out;
+}
+
+const xPow = (x: string, k: number): Poly => {
+  const p: Poly = new Map();
+  addTerm(p, k > 0 ? { [x]: k } : {}, 1n);
+  return p;
+};
+
+/** Conteúdo em x: mdc dos coeficientes de p visto como polinômio em x. */
+function contentIn(p: Poly, x: string): Poly {
+  let g: Poly = new Map();
+  for (let k = 0; k <= degreeIn(p, x); k++) g = polyGcd(g, coeffIn(p, x, k));
+  return g;
+}
+
+// Pseudo‑resto de f por g em x: lc(g)·f − lc(f)·x^(df−dg)·g até o grau cair
+function pseudoRemainder(f: Poly, g: Poly, x: string): Poly {
+  const dg = degreeIn(g, x);
+  const lc = coeffIn(g, x, dg);
+  let r = f;
+  while (!polyIsZero(r) && degreeIn(r, x) >= dg) {
+    const dr = degreeIn(r, x);
+    r = polySub(polyMul(lc, r), polyMul(polyMul(coeffIn(r, x, dr), xPow(x, dr - dg)), g));
+  }
+  return r;
+}
+
+/** Sinal: termo dominante positivo. */
+function normalizeSign(p: Poly): Poly {
+  return (leading(p)?.c ?? 1n) < 0n ? polyScale(p, -1n) : p;
+}
+
+/** Máximo divisor comum (sequência de restos primitivos, recursiva nas variáveis). */
+export function polyGcd(a: Poly, b: Poly): Poly {
+  if (polyIsZero(a)) return normalizeSign(b);
+  if (polyIsZero(b)) return normalizeSign(a);
+  const vars = [...new Set([...symbolsOf(a), ...symbolsOf(b)])].sort();
+  if (vars.length === 0) return polyConst(bigGcd(a.get("")?.c ?? 0n, b.get("")?.c ?? 0n));
+  const x = vars[0];
+  const ca = contentIn(a, x);
+  const cb = contentIn(b, x);
+  let f = polyDivExact(a, ca)!;
+  let g = polyDivExact(b, cb)!;
+  if (degreeIn(f, x) < degreeIn(g, x)) [f, g] = [g, f];
+  while (!polyIsZero(g)) {
+    const r = pseudoRemainder(f, g, x);
+    f = g;
+    g = polyIsZero(r) ? r : polyDivExact(r, contentIn(r, x))!;
+  }
+  return normalizeSign(polyMul(polyGcd(ca, cb), polyDivExact(f, contentIn(f, x))!));
+}
+
+/** Simplifica num/den pelo mdc e deixa o termo dominante do denominador positivo. */
+export function polyReduce(num: Poly, den: Poly): { num: Poly; den: Poly } {
+  if (polyIsZero(num)) return { num, den: polyConst(1n) };
+  const g = polyGcd(num, den);
+  num = polyDivExact(num, g)!;
+  den = polyDivExact(den, g)!;
+  if ((leading(den)?.c ?? 1n) < 0n) { num = polyScale(num, -1n); den = polyScale(den, -1n); }
+  return { num, den };
+}
+
+/**
+ * Texto do polinômio; `name` traduz cada símbolo. Termos em ordem estável (maior grau
+ * primeiro); `times`/`minus` permitem a saída em LaTeX ("\\cdot ", "-").
+ */
+export function polyToString(p: Poly, name: (s: string) => string = (s) => s, times = "·", minus = "−") {
+  if (p.size === 0) return "0";
+  const terms = [...p.values()].sort((x, y) => -compareMono(x.mono, y.mono));
+  return terms
+    .map((t, i) => {
+      const syms = Object.keys(t.mono).sort().flatMap((s) => {
+        const e = t.mono[s];
+        return e === 0 ? [] : e === 1 ? [name(s)] : [`${name(s)}^${e}`];
+      });
+      const abs = t.c < 0n ? -t.c : t.c;
+      const body = syms.length === 0 ? abs.toString() : [...(abs !== 1n ? [abs.toString()] : []), ...syms].join(times);
+      const sign = t.c < 0n ? (i === 0 ? minus : ` ${minus} `) : i === 0 ? "" : " + ";
+      return sign + body;
+    })
+    .join("");
+}
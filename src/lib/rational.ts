@@ -0,0 +1,49 @@
+// Frações exatas com BigInt, sempre reduzidas e com denominador positivo.
+
+export type Fraction = { n: bigint; d: bigint };
+
+export function bigGcd(a: bigint, b: bigint): bigint {
+  if (a < 0n) a = -a;
+  if (b < 0n) b = -b;
+  while (b !== 0n) [a, b] = [b, a % b];
+  return a;
+}
+
+export function frac(n: bigint, d: bigint = 1n): Fraction {
+  if (d === 0n) throw new Error("Fração com denominador zero");
+  if (d < 0n) { n = -n; d = -d; }
+  const g = bigGcd(n, d);
+  return g > 1n ? { n: n / g, d: d / g } : { n, d };
+}
+
+export const ZERO: Fraction = { n: 0n, d: 1n };
+export const ONE: Fraction = { n: 1n, d: 1n };
+
+export const isZero = (a: Fraction) => a.n === 0n;
+export const add = (a: Fraction, b: Fraction) => frac(a.n * b.d + b.n * a.d, a.d * b.d);
+export const sub = (a: Fraction, b: Fraction) => frac(a.n * b.d - b.n * a.d, a.d * b.d);
+export const mul = (a: Fraction, b: Fraction) => frac(a.n * b.n, a.d * b.d);
+export const div = (a: Fraction, b: Fraction) => frac(a.n * b.d, a.d * b.n);
+export const neg = (a: Fraction): Fraction => ({ n: -a.n, d: a.d });
+
+export function toNumber(a: Fraction) {
+  return Number(a.n) / Number(a.d);
+}
+
+/** Valor decimal exato do número digitado (2.5 → 5/2, 1e-3 → 1/1000). */
+export function fromNumber(x: number): Fraction {
+  if (!Number.isFinite(x)) throw new Error(`Número não finito: ${x}`);
+  const m = String(x).match(/^(-?)(\d+)(?:\.(\d+))?(?:e([+-]?\d+))?$/i);
+  if (!m) throw new Error(`Número inválido: ${x}`);
+  const [, sign, int, dec = "", exp = "0"] = m;
+  const e = Number(exp) - dec.length;
+  let n = BigInt(int + dec);
+  let d = 1n;
+  if (e >= 0) n *= 10n ** BigInt(e);
+  else d = 10n ** BigInt(-e);
+  return frac(sign ? -n : n, d);
+}
+
+export function fractionToString(a: Fraction) {
+  return a.d === 1n ? a.n.toString() : `${a.n}/${a.d}`;
+}
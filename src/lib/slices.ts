@@ -0,0 +1,31 @@
+// Executa um gerador em fatias de tempo, devolvendo o controle ao navegador entre elas
+// (buscas longas sem travar a interface). Com `signal.cancelled` a execução para na
+// próxima fatia e a promessa resolve com null.
+export type SliceSignal = { cancelled: boolean };
+
+export function runInSlices<R>(steps: Generator<unknown, R, void>, signal: SliceSignal, sliceMs = 16): Promise<R | null> {
+  return new Promise((resolve, reject) => {
+    const slice = () => {
+      if (signal.cancelled) {
+        resolve(null);
+        return;
+      }
+      const end = performance.now() + sliceMs;
+      try {
+        for (;;) {
+          const r = steps.next();
+          if (r.done) {
+            resolve(r.value);
+            return;
+          }
+          if (performance.now() >= end) break;
+        }
+      } catch (e) {
+        reject(e);
+        return;
+      }
+      window.setTimeout(slice, 0);
+    };
+    slice();
+  });
+}
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Histórico de desfazer/refazer por instantâneos de um estado imutável.
+// Cada mudança observada em `value` vira uma entrada; mudanças seguidas que
+// alteram o mesmo campo (ex.: digitar "4", "40", "400" nos dentes) dentro de
+// COALESCE_MS viram uma só entrada. Mudanças logo após um undo/redo (efeitos que
+// ajustam o estado aplicado) são absorvidas sem apagar o "refazer".
+
+const COALESCE_MS = 800;
+const SETTLE_MS = 100;
+const MAX_ENTRIES = 200;
+
+/** Caminhos das folhas que diferem entre a e b (para no 2º: só interessa "um só campo?"). */
+function changedPaths(a: unknown, b: unknown, path = "", out: string[] = []): string[] {
+  if (out.length > 1 || Object.is(a, b)) return out;
+  const bothObjects = typeof a === "object" && typeof b === "object" && a !== null && b !== null;
+  if (!bothObjects || Array.isArray(a) !== Array.isArray(b)) {
+    out.push(path);
+    return out;
+  }
+  const ka = Object.keys(a as object);
+  const kb = Object.keys(b as object);
+  if (Array.isArray(a) && ka.length !== kb.length) {
+    out.push(path);
+    return out;
+  }
+  for (const k of new Set([...ka, ...kb])) {
+    changedPaths((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k], `${path}.${k}`, out);
+    if (out.length > 1) break;
+  }
+  return out;
+}
+
+export function useUndoHistory<T>(value: T, apply: (v: T) => void) {
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  const last = useRef(value);
+  const lastEdit = useRef<{ path: string; at: number } | null>(null);
+  const settleUntil = useRef(0);
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    const prev = last.current;
+    if (Object.is(prev, value)) return;
+    last.current = value;
+    const now = Date.now();
+
+    if (now < settleUntil.current) return;
+
+    const paths = changedPaths(prev, value);
+    if (paths.length === 0) return;
+    const single = paths.length === 1 ? paths[0] : null;
+    const coalesce = single != null && lastEdit.current?.path === single && now - lastEdit.current.at < COALESCE_MS;
+    lastEdit.current = single != null ? { path: single, at: now } : null;
+    if (coalesce) return;
+
+    past.current.push(prev);
+    if (past.current.length > MAX_ENTRIES) past.current.shift();
+    future.current = [];
+    setVersion((v) => v + 1);
+  }, [value]);
+
+  const go = useCallback((from: { current: T[] }, to: { current: T[] }) => {
+    const target = from.current.pop();
+    if (target === undefined) return;
+    to.current.push(last.current);
+    last.current = target;
+    lastEdit.current = null;
+    settleUntil.current = Date.now() + SETTLE_MS;
+    apply(target);
+    setVersion((v) => v + 1);
+  }, [apply]);
+
+  const undo = useCallback(() => go(past, future), [go]);
+  const redo = useCallback(() => go(future, past), [go]);
+
+  return { undo, redo, canUndo: past.current.length > 0, canRedo: future.current.length > 0 };
+}
@@ -0,0 +1,213 @@
+import { externalMesh, hasProfileShift, internalMesh, type StageShift } from './gearGeometry';
+
+// Vizinhança entre cópias de planetas (adjacency): as N cópias do braço giram em torno
+// do centro, e planetas de cópias vizinhas não podem se tocar. Para cada par de planetas
+// (de cópias diferentes, ou da mesma cadeia sem engrenar entre si) a folga é
+//   folga = |c_i − c_j| − (ra_i + ra_j),   ra = z/2 + 1 + x  (em módulos)
+// com os centros c nas posições reais do braço (cadeia reta/curva) girados pelos
+// ângulos das cópias (os mesmos do faseamento da cena).
+
+type Vec2 = [number, number];
+
+export type ChainDistances = {
+  hasSun: boolean;
+  ringUsable: boolean;          // anel comporta o primeiro planeta (senão a cadeia ignora o anel)
+  planetCount: number;
+  firstRadius: number;          // raio do primeiro planeta (posição sem solar/anel)
+  minGap: number;
+  sunPlanet: () => number;      // distância Sol–P1
+  planets: (k: number) => number; // distância P(k−1)–Pk
+  ring: (k: number) => number;  // distância Pk–Anelar
+};
+
+/**
+ * Centros do braço base (P1 … Pn), na unidade das distâncias informadas.
+ * Com Sol: P1 tangente ao Sol; 2 planetas + anel: braço curvo por triângulo;
+ * 3+ planetas + anel: dobra constante ajustada por bisseção; sem anel: cadeia reta.
+ */
+export function planetChainCenters(d: ChainDistances): Vec2[] {
+  const n = d.planetCount;
+  const positions: Vec2[] = [];
+  if (n === 0) return positions;
+
+  // Caso especial: sem solar, com anel e planetas em série → alinhar radialmente rumo ao centro
+  if (!d.hasSun && d.ringUsable && n >= 2) {
+    const posRadial: Vec2[] = new Array(n);
+    posRadial[n - 1] = [Math.max(d.minGap, d.ring(n - 1)), 0];
+    for (let k = n - 2; k >= 0; k--) {
+      posRadial[k] = [Math.max(d.minGap, posRadial[k + 1][0] - d.planets(k + 1)), 0];
+    }
+    return posRadial;
+  }
+
+  // Com Sol → tangencia o Sol; sem Sol mas com Anel → tangencia o Anel;
+  // se o anel for menor que o planeta, mantém um afastamento mínimo para evitar degeneração.
+  const x1 = d.hasSun
+    ? d.sunPlanet()
+    : d.ringUsable
+      ? Math.max(d.minGap, d.ring(0))
+      : Math.max(d.minGap, d.firstRadius);
+  positions.push([x1, 0]);
+
+  if (d.ringUsable && n === 2) {
+    // ---- Braço CURVO para exatamente 2 planetas ----
+    const Rcirc = d.ring(1); // circunferência do centro de P2
+    const d12 = d.planets(1);
+    const numer = x1 * x1 + Rcirc * Rcirc - d12 * d12;
+    const denom = 2 * x1 * Rcirc;
+    const cosTheta = Math.max(-1, Math.min(1, numer / (denom !== 0 ? denom : 1e-9)));
+    const theta = Math.acos(cosTheta);
+    positions.push([Rcirc * Math.cos(theta), Rcirc * Math.sin(theta)]);
+  } else if (d.ringUsable && n >= 3) {
+    // ---- Braço CURVO para 3+ planetas ----
+    const rot = (vx: number, vy: number, ang: number): Vec2 => {
+      const c = Math.cos(ang), s = Math.sin(ang);
+      return [vx * c - vy * s, vx * s + vy * c];
+    };
+    const finalRadiusFor = (alpha: number): { lastR: number; pts: Vec2[] } => {
+      const pts: Vec2[] = [[x1, 0]];
+      let dir: Vec2 = [1, 0]; // direção inicial +x
+      for (let k = 1; k < n; k++) {
+        dir = rot(dir[0], dir[1], alpha);
+        const step = d.planets(k);
+        const prev = pts[k - 1];
+        pts.push([prev[0] + dir[0] * step, prev[1] + dir[1] * step]);
+      }
+      const last = pts[pts.length - 1];
+      return { lastR: Math.hypot(last[0], last[1]), pts };
+    };
+
+    const target = d.ring(n - 1);
+    let lo = 0, hi = Math.PI * 0.9;
+    let best = finalRadiusFor(0);
+    for (let i = 0; i < 32; i++) {
+      const mid = (lo + hi) / 2;
+      const sim = finalRadiusFor(mid);
+      best = sim;
+      if (sim.lastR > target) lo = mid;
+      else hi = mid;
+    }
+    positions.splice(0, positions.length, ...best.pts);
+  } else {
+    // ---- Sem anel ou poucos planetas: braço reto colinear ----
+    for (let k = 1; k < n; k++) {
+      const prev = positions[k - 1];
+      positions.push([prev[0] + d.planets(k), 0]);
+    }
+  }
+  return positions;
+}
+
+type StageTeeth = { solarZ: number | null; planetsZ: number[]; annulusZ: number | null } & StageShift;
+
+/** Distâncias da cadeia em MÓDULOS (distâncias de operação a' quando há deslocamento). */
+export function chainDistancesInModules(st: StageTeeth, alpha: number): ChainDistances {
+  const zp = st.planetsZ;
+  const xp = (k: number) => st.planetsX?.[k] ?? 0;
+  const shifted = hasProfileShift(st);
+  const za = st.annulusZ ?? 0;
+  const op = (a: number, fallback: number) => (shifted && Number.isFinite(a) ? a : fallback);
+  return {
+    hasSun: st.solarZ != null,
+    ringUsable: st.annulusZ != null && zp.length > 0 && za > zp[0] * 1.05,
+    planetCount: zp.length,
+    firstRadius: (zp[0] ?? 0) / 2,
+    minGap: zp.length > 0 ? 0.05 * zp[0] : 0,
+    sunPlanet: () => op(externalMesh(st.solarZ ?? 0, st.solarX ?? 0, zp[0], xp(0), alpha).centerDistance, ((st.solarZ ?? 0) + zp[0]) / 2),
+    planets: (k) => op(externalMesh(zp[k - 1], xp(k - 1), zp[k], xp(k), alpha).centerDistance, (zp[k - 1] + zp[k]) / 2),
+    ring: (k) => op(internalMesh(zp[k], xp(k), za, st.annulusX ?? 0, alpha).centerDistance, (za - zp[k]) / 2),
+  };
+}
+
+export interface VizinhancaInfo {
+  folgaMin: number;             // módulos (Infinity: não há pares a verificar)
+  maxPlanetas: number;          // maior nº de cópias que cabe (até `limite`)
+  limite: number;               // até onde se procurou (no máximo o teto geométrico)
+}
+
+export type VizinhancaStatus = { valido: boolean; info: VizinhancaInfo; mensagem: string; mensagem_en: string };
+
+const TOL_FOLGA = 1e-6; // módulos
+
+/** Menor folga entre planetas para um conjunto de ângulos de cópia. */
+export function folgaMinima(centers: Vec2[], tipRadii: number[], copyAngles: number[]) {
+  const pts: { c: Vec2; r: number; copy: number; k: number }[] = [];
+  copyAngles.forEach((ang, copy) => {
+    const c = Math.cos(ang), s = Math.sin(ang);
+    centers.forEach(([x, y], k) => pts.push({ c: [x * c - y * s, x * s + y * c], r: tipRadii[k], copy, k }));
+  });
+  let min = Infinity;
+  for (let i = 0; i < pts.length; i++) {
+    for (let j = i + 1; j < pts.length; j++) {
+      const a = pts[i], b = pts[j];
+      if (a.copy === b.copy && Math.abs(a.k - b.k) <= 1) continue; // engrenam entre si
+      const gap = Math.hypot(a.c[0] - b.c[0], a.c[1] - b.c[1]) - (a.r + b.r);
+      if (gap < min) min = gap;
+    }
+  }
+  return min;
+}
+
+/**
+ * Teto geométrico de cópias: com N cópias a menor separação angular é no máximo 2π/N,
+ * então a planeta k (raio de cabeça r a distância R do centro) só cabe se
+ * 2R·sen(π/N) ≥ 2r. Acima disso nenhum faseamento evita a sobreposição.
+ */
+export function tetoDeCopias(centers: Vec2[], tipRadii: number[]) {
+  let teto = centers.length > 0 ? Infinity : 1;
+  centers.forEach(([x, y], k) => {
+    const R = Math.hypot(x, y);
+    const s = (tipRadii[k] - TOL_FOLGA / 2) / R;
+    if (!(R > 0) || s >= 1) teto = 1; // no centro ou maior que a própria órbita
+    else if (s > 0) teto = Math.min(teto, Math.floor(Math.PI / Math.asin(s) + 1e-9));
+  });
+  return Math.max(1, teto);
+}
+
+/**
+ * Verifica se as `copies` cópias do braço cabem sem colisão e quantas caberiam.
+ * `anglesFor(n, centros)` devolve os ângulos das n cópias (os do faseamento da cena).
+ * Sem `limite` a busca vai até o teto geométrico (o único limite é a folga entre vizinhos).
+ */
+export function verificarVizinhanca(
+  st: StageTeeth & { planetCopies?: number },
+  perfil: { alphaRad: number; moduleMm?: number },
+  anglesFor: (copies: number, centers: Vec2[]) => number[],
+  limite?: number,
+): VizinhancaStatus {
+  const centers = planetChainCenters(chainDistancesInModules(st, perfil.alphaRad));
+  const tipRadii = st.planetsZ.map((z, k) => z / 2 + 1 + (st.planetsX?.[k] ?? 0));
+  const teto = tetoDeCopias(centers, tipRadii);
+  const ate = Math.min(limite ?? teto, teto);
+  const copies = Math.max(1, Math.round(st.planetCopies ?? 1));
+
+  let maxPlanetas = centers.length > 0 ? 1 : 0;
+  for (let n = 2; n <= ate && centers.length > 0; n++) {
+    if (folgaMinima(centers, tipRadii, anglesFor(n, centers)) >= -TOL_FOLGA) maxPlanetas = n;
+  }
+  // acima do teto a sobreposição é certa; a folga é medida no primeiro N que já não cabe
+  const folgaMin = centers.length > 0 ? folgaMinima(centers, tipRadii, anglesFor(Math.min(copies, teto + 1), centers)) : Infinity;
+  const info: VizinhancaInfo = { folgaMin, maxPlanetas, limite: ate };
+  const m = perfil.moduleMm;
+  const f = (v: number) => (m != null && m > 0 ? `${(v * m).toFixed(2)} mm` : `${v.toFixed(2)}·m`);
+
+  if (folgaMin < -TOL_FOLGA) {
+    const cabem = maxPlanetas > 1 ? `cabem até ${maxPlanetas}` : 'não cabe mais de 1';
+    const fit = maxPlanetas > 1 ? `at most ${maxPlanetas} fit` : 'only 1 fits';
+    return {
+      valido: false,
+      info,
+      mensagem: `Montagem impossível: com ${copies} cópias os planetas vizinhos se sobrepõem (${f(-folgaMin)}); ${cabem}.`,
+      mensagem_en: `Impossible assembly: with ${copies} copies neighbouring planets overlap (${f(-folgaMin)}); ${fit}.`,
+    };
+  }
+  const mais = maxPlanetas >= ate && ate < teto ? '+' : '';
+  const cabem = `cabem até ${maxPlanetas}${mais} planetas.`;
+  const fit = `up to ${maxPlanetas}${mais} planets fit.`;
+  return {
+    valido: true,
+    info,
+    mensagem: Number.isFinite(folgaMin) ? `Folga mínima entre vizinhos ${f(folgaMin)}; ${cabem}` : `Cópias: ${cabem}`,
+    mensagem_en: Number.isFinite(folgaMin) ? `Minimum neighbour clearance ${f(folgaMin)}; ${fit}` : `Copies: ${fit}`,
+  };
+}
@@ -0,0 +1,173 @@
+import type { Model } from './types';
+import { buildSystemRows, type SystemRow } from './solver';
+import { engagementConstraints } from './shift';
+import type { Fraction } from '../lib/rational';
+import { polyConst, polyDivExact, polyEval, polyGcd, polyIsZero, polyMul, polySub, polySymbol, type Poly } from '../lib/polynomial';
+import {
+  formatPoly,
+  MAX_SYMBOLIC_UNKNOWNS,
+  reducedMeshSystem,
+  solveGearSystemExact,
+  TEXT_STYLE,
+  toothSymbol,
+  type FormulaStyle,
+  type LinearRow,
+  type SymbolicFraction,
+} from './exact';
+
+// Derivação didática da cinemática, passo a passo, a partir das MESMAS linhas que o
+// solver monta (buildSystemRows, as debug.rows com as tags mesh/known/equal/lock):
+//   1) equações montadas: malhas na forma de Willis Ni·(ωi − ωc) ± Nj·(ωj − ωc) = 0
+//      e a linha numérica correspondente; restrições como montadas
+//   2) substituições: acoplamentos juntam membros, freios e velocidades nulas zeram,
+//      velocidades conhecidas ficam como símbolos
+//   3) sistema das malhas nas incógnitas que sobram (redundantes descartadas)
+//   4) eliminação sem frações: Eᵢ ← (pivô·Eᵢ − aᵢₖ·Eₖ) / mdc, um passo por incógnita
+//   5) solução de cada velocidade (Cramer, simplificada) e 6) a relação entrada/saída
+
+export type AssembledEquation = {
+  tag: string;
+  kind: SystemRow['kind'];
+  willis: { i: string; j: string; carrier: string; sigma: 1 | -1 } | null;   // só malhas
+  A: number[];                    // linha numérica, nas variáveis do sistema
+  b: number;
+};
+
+export type EliminationStep = {
+  pivot: string;                  // incógnita eliminada
+  pivotRow: LinearRow;            // equação pivô (incógnitas de `pivot` em diante)
+  unknowns: string[];             // incógnitas que sobram
+  system: LinearRow[];            // equações restantes
+};
+
+export type Derivation = {
+  variables: string[];
+  equations: AssembledEquation[];
+  substitutions: { v: string; to: Poly }[];
+  knowns: string[];
+  unknowns: string[];
+  reduced: LinearRow[];
+  dropped: number;                // equações de malha redundantes
+  steps: EliminationStep[];
+  solution: { v: string; value: SymbolicFraction | null; exact: Fraction }[];
+  ratio: { num: string; den: string; value: SymbolicFraction | null; exact: Fraction | null } | null;
+};
+
+/** Derivação completa; `null` sem solução única ou com incógnitas demais para a forma simbólica. */
+export function deriveKinematics(model: Model, engaged: Iterable<string> = []): Derivation | null {
+  const engagedList = [...engaged];
+  const exact = solveGearSystemExact(model, engagedList);
+  if (!('velocities' in exact)) return null;
+
+  const { variables, rows } = buildSystemRows(model, engagedList);
+  const constraints = [...(model.constraints || []), ...engagementConstraints(model, engagedList)];
+  // linhas na mesma ordem de buildSystemRows: malhas e depois restrições
+  const equations: AssembledEquation[] = rows.map((r, k) => {
+    const m = r.kind === 'mesh' ? model.meshes[k] : null;
+    const sigma = m ? ('type' in m ? (m.type === 'external' ? 1 : -1) : m.sigma != null && m.sigma < 0 ? -1 : 1) : 1;
+    return { tag: r.tag, kind: r.kind, willis: m ? { i: m.i, j: m.j, carrier: m.carrier, sigma } : null, A: r.A, b: r.b };
+  });
+
+  const sys = reducedMeshSystem(model, engagedList, variables);
+  if (sys.unknown.length > MAX_SYMBOLIC_UNKNOWNS) return null;
+  const knowns = [...new Set(constraints.filter((c) => c.type === 'known' && c.var && c.value !== 0).map((c) => c.var!))];
+  const substitutions: { v: string; to: Poly }[] = [];
+  for (const v of variables) {
+    if (knowns.includes(v)) continue;
+    const rep = sys.representative(v);
+    const value = sys.value.get(rep);
+    if (value) substitutions.push({ v, to: value });
+    else if (rep !== v) substitutions.push({ v, to: polySymbol(rep) });
+  }
+
+  // eliminação sem frações sobre as linhas independentes (com o lado direito)
+  const u = sys.unknown.length;
+  const M = sys.independent.map((i) => primitiveRow([...sys.rows[i].A, sys.rows[i].b]));
+  const steps: EliminationStep[] = [];
+  for (let k = 0; k < u; k++) {
+    let p = k;
+    while (p < u && Math.abs(polyEval(M[p][k], sys.numeric)) < 0.5) p++;
+    if (p === u) return null;
+    [M[k], M[p]] = [M[p], M[k]];
+    for (let i = k + 1; i < u; i++) {
+      if (polyIsZero(M[i][k])) continue;
+      const g = polyGcd(M[k][k], M[i][k]);
+      const fk = polyDivExact(M[k][k], g)!;
+      const fi = polyDivExact(M[i][k], g)!;
+      M[i] = primitiveRow(M[i].map((x, j) => (j <= k ? new Map() : polySub(polyMul(x, fk), polyMul(M[k][j], fi)))));
+    }
+    steps.push({
+      pivot: sys.unknown[k],
+      pivotRow: { A: M[k].slice(k, u), b: M[k][u] },
+      unknowns: sys.unknown.slice(k + 1),
+      system: M.slice(k + 1).map((row) => ({ A: row.slice(k + 1, u), b: row[u] })),
+    });
+  }
+
+  // solução: incógnitas na ordem da retrossubstituição, depois as substituídas/conhecidas
+  const order = [...sys.unknown].reverse();
+  for (const v of variables) if (!order.includes(v)) order.push(v);
+  const solution = order.map((v) => ({ v, value: exact.expressions?.[v] ?? null, exact: exact.velocities[v] }));
+
+  const r = model.ratios?.[0];
+  const ratio = r
+    ? { num: r.num, den: r.den, value: exact.ratioExpressions[0]?.value ?? null, exact: exact.ratios[0]?.value ?? null }
+    : null;
+
+  return {
+    variables,
+    equations,
+    substitutions,
+    knowns,
+    unknowns: sys.unknown,
+    reduced: sys.independent.map((i) => sys.rows[i]),
+    dropped: sys.rows.length - sys.independent.length,
+    steps,
+    solution,
+    ratio,
+  };
+}
+
+// Linha dividida pelo mdc dos seus termos (a equação fica com coeficientes mínimos)
+function primitiveRow(row: Poly[]): Poly[] {
+  const g = row.reduce((acc, p) => polyGcd(acc, p), new Map() as Poly);
+  if (polyIsZero(g) || (g.size === 1 && g.get('')?.c === 1n)) return row;
+  return row.map((p) => polyDivExact(p, g)!);
+}
+
+/** Σ aⱼ·ωⱼ = b; coeficientes com vários termos entre parênteses. */
+export function formatLinear(vars: string[], row: LinearRow, style: FormulaStyle = TEXT_STYLE, rhs = formatPoly(row.b, style)) {
+  const parts: string[] = [];
+  row.A.forEach((coef, j) => {
+    if (polyIsZero(coef)) return;
+    const omega = style.name(vars[j]);
+    let sign = '+';
+    let body: string;
+    if (coef.size === 1) {
+      const [t] = coef.values();
+      if (t.c < 0n) sign = '-';
+      const abs = formatPoly(t.c < 0n ? polyMul(coef, polyConst(-1n)) : coef, style);
+      body = abs === '1' ? omega : `${abs}${style.times}${omega}`;
+    } else {
+      body = `(${formatPoly(coef, style)})${style.times}${omega}`;
+    }
+    if (parts.length === 0) parts.push(sign === '-' ? `${style.minus}${body}` : body);
+    else parts.push(sign === '-' ? ` ${style.minus} ${body}` : ` + ${body}`);
+  });
+  return `${parts.join('') || '0'} = ${rhs}`;
+}
+
+/** Linha numérica como montada pelo solver (coeficientes inteiros, lado direito decimal). */
+export function formatAssembled(vars: string[], e: AssembledEquation, style: FormulaStyle = TEXT_STYLE) {
+  const A = e.A.map((x) => polyConst(BigInt(Math.round(x))));
+  const b = e.b < 0 ? `${style.minus}${-e.b}` : String(e.b);
+  return formatLinear(vars, { A, b: polyConst(0n) }, style, b);
+}
+
+/** Forma de Willis da malha: Zi·(ωi − ωc) ± Zj·(ωj − ωc) = 0. */
+export function formatWillis(w: NonNullable<AssembledEquation['willis']>, style: FormulaStyle = TEXT_STYLE) {
+  const n = style.name;
+  const diff = (x: string) => `(${n(x)} ${style.minus} ${n(w.carrier)})`;
+  const sign = w.sigma > 0 ? '+' : style.minus;
+  return `${n(toothSymbol(w.i))}${style.times}${diff(w.i)} ${sign} ${n(toothSymbol(w.j))}${style.times}${diff(w.j)} = 0`;
+}
@@ -0,0 +1,137 @@
+import type { Mesh, Model } from './types';
+import { solveTorques, RPM_TO_RAD, type TorqueOptions, type TorqueResult } from './torque';
+
+// Modelo de perdas por malha (rendimento constante por engrenamento).
+//
+// A perda acontece na potência de rolamento, isto é, na potência vista a partir
+// do braço da malha: P_rol = -T_i·(ω_i - ω_b). O sentido dessa potência define
+// quem é motora: se i entrega potência à malha, o lado j recebe η·P_rol e o torque
+// em j é escalado por η; caso contrário o fator é 1/η. Como o sentido depende dos
+// próprios torques, itera-se a partir da solução sem perdas até estabilizar.
+
+export const DEFAULT_MESH_EFFICIENCY = { external: 0.98, internal: 0.99 };
+// Menor rendimento aceito na edição (padrões e valores por malha)
+export const MIN_MESH_EFFICIENCY = 0.5;
+
+const MAX_ITER = 20;
+const POWER_EPS = 1e-9;
+
+export interface MeshLoss {
+  tag: string;
+  efficiency: number;
+  rollingPower: number;        // W — potência de rolamento entregue pela motora
+  loss: number;                // W
+  driver: 'i' | 'j' | null;    // null: malha sem rolamento (conjunto travado)
+}
+
+export type EfficiencyResult =
+  | {
+      valido: true;
+      efficiency: number;      // P_out / P_in
+      powerIn: number;         // W
+      powerOut: number;        // W
+      loss: number;            // W
+      meshes: MeshLoss[];
+      recirculating: boolean;
+      circulatingPower: number; // W — excesso sobre a potência de entrada
+      recirculationPaths: string[]; // membros/acoplamentos que carregam mais que a entrada
+      torques: TorqueResult;   // solução com perdas
+    }
+  | { valido: false; mensagem: string; mensagem_en: string };
+
+export interface EfficiencyOptions extends Omit<TorqueOptions, 'meshFactors'> {
+  defaults?: { external: number; internal: number };
+}
+
+export function meshEfficiency(m: Mesh, defaults = DEFAULT_MESH_EFFICIENCY) {
+  if (typeof m.efficiency === 'number' && m.efficiency > 0 && m.efficiency <= 1) return m.efficiency;
+  const internal = 'type' in m ? m.type === 'internal' : (m.sigma ?? 1) < 0;
+  return internal ? defaults.internal : defaults.external;
+}
+
+/**
+ * Rendimento global entre entrada e saída e detecção de potência recirculante.
+ * A recirculação é sinalizada quando algum membro ou eixo de acoplamento carrega,
+ * na solução sem perdas, mais potência do que a fornecida pela entrada.
+ */
+export function solveEfficiency(
+  model: Model,
+  velocities: Record<string, number>,
+  opts: EfficiencyOptions,
+): EfficiencyResult {
+  const { defaults, ...torqueOpts } = opts;
+  const etas = model.meshes.map((m) => meshEfficiency(m, defaults));
+
+  const lossless = solveTorques(model, velocities, torqueOpts);
+  if (!lossless.valido) return lossless;
+  if (!(lossless.powerIn > POWER_EPS)) {
+    return {
+      valido: false,
+      mensagem: 'A entrada não fornece potência (velocidade ou torque nulos ou de sinais opostos); rendimento indefinido.',
+      mensagem_en: 'The input does not supply power (zero speed or torque, or opposite signs); efficiency is undefined.',
+    };
+  }
+
+  const rel = (omega: string, carrier: string) => ((velocities[omega] ?? 0) - (velocities[carrier] ?? 0)) * RPM_TO_RAD;
+  const driversOf = (res: Extract<TorqueResult, { valido: true }>) =>
+    res.meshes.map((mt): 'i' | 'j' | null => {
+      const p = -mt.torqueI * rel(mt.i, mt.carrier);
+      return p > POWER_EPS ? 'i' : p < -POWER_EPS ? 'j' : null;
+    });
+
+  let current = lossless;
+  let drivers = driversOf(current);
+  let settled = false;
+  for (let it = 0; it < MAX_ITER && !settled; it++) {
+    const meshFactors = drivers.map((d, k) => (d === 'i' ? etas[k] : d === 'j' ? 1 / etas[k] : 1));
+    const next = solveTorques(model, velocities, { ...torqueOpts, meshFactors });
+    if (!next.valido) return next;
+    current = next;
+    const nextDrivers = driversOf(current);
+    settled = nextDrivers.every((d, k) => d === drivers[k]);
+    drivers = nextDrivers;
+  }
+  // Sem estabilizar, os torques vêm de um sentido de potência diferente do atual: não há resultado coerente
+  if (!settled) {
+    return {
+      valido: false,
+      mensagem: `O sentido da potência nas malhas não estabilizou em ${MAX_ITER} iterações; rendimento indefinido.`,
+      mensagem_en: `The power flow direction in the meshes did not settle within ${MAX_ITER} iterations; efficiency is undefined.`,
+    };
+  }
+
+  const meshes: MeshLoss[] = current.meshes.map((mt, k) => {
+    const pi = -mt.torqueI * rel(mt.i, mt.carrier);
+    const pj = -mt.torqueJ * rel(mt.j, mt.carrier);
+    return {
+      tag: mt.tag,
+      efficiency: etas[k],
+      rollingPower: Math.max(pi, pj, 0),
+      loss: pi + pj,
+      driver: drivers[k],
+    };
+  });
+  const loss = meshes.reduce((s, m) => s + m.loss, 0);
+
+  // Recirculação: avaliada na solução sem perdas (fluxo "ideal" entre estágios)
+  const limit = lossless.powerIn * (1 + 1e-6);
+  const carriers = [
+    ...lossless.members.filter((m) => m.role !== 'planet').map((m) => ({ id: m.omega, power: Math.abs(m.power) })),
+    ...lossless.couplings.map((c) => ({ id: `${c.a}=${c.b}`, power: Math.abs(c.power) })),
+  ];
+  const over = carriers.filter((c) => c.power > limit);
+  const peak = over.reduce((s, c) => Math.max(s, c.power), 0);
+
+  return {
+    valido: true,
+    efficiency: current.powerOut / current.powerIn,
+    powerIn: current.powerIn,
+    powerOut: current.powerOut,
+    loss,
+    meshes,
+    recirculating: over.length > 0,
+    circulatingPower: over.length > 0 ? peak - lossless.powerIn : 0,
+    recirculationPaths: over.map((c) => c.id),
+    torques: current,
+  };
+}
@@ -0,0 +1,307 @@
+import type { Model } from './types';
+import { buildSystemRows } from './solver';
+import { engagementConstraints } from './shift';
+import { bigGcd, div, fromNumber, isZero, mul, sub, type Fraction } from '../lib/rational';
+import {
+  polyAdd,
+  polyConst,
+  polyDivExact,
+  polyEval,
+  polyIsZero,
+  polyMul,
+  polyReduce,
+  polyScale,
+  polySub,
+  polySymbol,
+  polyToString,
+  type Poly,
+} from '../lib/polynomial';
+
+// Solver cinemático EXATO: as equações de Willis têm coeficientes inteiros (dentes), então
+// o mesmo sistema de buildSystemRows é resolvido em frações (BigInt), sem arredondamento.
+//
+// Expressões simbólicas: cada velocidade em função dos dentes (Zs1, Zp1_1, Za1…) e das
+// velocidades conhecidas (ω_s1…):
+//   - acoplamentos (equal) juntam variáveis numa classe; freios/locks (e velocidades
+//     conhecidas nulas) fixam a classe em 0; as demais velocidades conhecidas viram símbolos
+//   - sobram só as malhas; linhas independentes escolhidas com os valores numéricos
+//   - regra de Cramer com determinantes de Bareiss (sem frações): ω = D_j / D, simplificado
+
+export type SymbolicFraction = { num: Poly; den: Poly };
+
+export type ExactSolution = {
+  velocities: Record<string, Fraction>;
+  ratios: { id: string; value: Fraction | null }[];
+  expressions: Record<string, SymbolicFraction> | null;   // null: sem forma simbólica
+  ratioExpressions: { id: string; value: SymbolicFraction | null }[];
+};
+
+export type ExactResult =
+  | ExactSolution
+  | { isUnderdetermined: true; missingConstraints: number }
+  | { isOverdetermined: true };
+
+/** Símbolo do número de dentes da engrenagem de velocidade `omega`. */
+export const toothSymbol = (omega: string) => `Z:${omega}`;
+
+/** Nome legível: Z:omega_s1 → Zs1, omega_p1_2 → ω_p1_2. */
+export function symbolName(s: string) {
+  if (s.startsWith('Z:omega_')) return `Z${s.slice('Z:omega_'.length)}`;
+  if (s.startsWith('omega_')) return `ω_${s.slice('omega_'.length)}`;
+  return s;
+}
+
+/** Nome em LaTeX: Z:omega_s1 → Z_{s1}, omega_p1_2 → \omega_{p1,2}. */
+export function latexSymbolName(s: string) {
+  const sub = (x: string) => x.replace(/_/g, ',');
+  if (s.startsWith('Z:omega_')) return `Z_{${sub(s.slice('Z:omega_'.length))}}`;
+  if (s.startsWith('omega_')) return `\\omega_{${sub(s.slice('omega_'.length))}}`;
+  return s;
+}
+
+// Saída em texto (interface) ou LaTeX (exportação)
+export type FormulaStyle = {
+  name: (s: string) => string;
+  times: string;
+  minus: string;
+  frac: (num: string, den: string, numTerms: number, denTerms: number) => string;
+};
+
+export const TEXT_STYLE: FormulaStyle = {
+  name: symbolName,
+  times: '·',
+  minus: '−',
+  frac: (num, den, numTerms, denTerms) =>
+    `${numTerms > 1 ? `(${num})` : num}/${denTerms > 1 || den.includes('·') ? `(${den})` : den}`,
+};
+
+export const LATEX_STYLE: FormulaStyle = {
+  name: latexSymbolName,
+  times: '\\,',
+  minus: '-',
+  frac: (num, den) => `\\frac{${num}}{${den}}`,
+};
+
+export const formatPoly = (p: Poly, style: FormulaStyle = TEXT_STYLE) => polyToString(p, style.name, style.times, style.minus);
+
+/** Eliminação de Gauss‑Jordan exata; devolve posto, linhas/colunas pivô e a matriz reduzida. */
+function reduceExact(M: Fraction[][], cols: number) {
+  const R = M.map((row) => row.slice());
+  const rowOrigin = R.map((_, i) => i);
+  const pivotRows: number[] = [];
+  const pivotCols: number[] = [];
+  let r = 0;
+  for (let c = 0; c < cols && r < R.length; c++) {
+    let p = r;
+    while (p < R.length && isZero(R[p][c])) p++;
+    if (p === R.length) continue;
+    [R[r], R[p]] = [R[p], R[r]];
+    [rowOrigin[r], rowOrigin[p]] = [rowOrigin[p], rowOrigin[r]];
+    const piv = R[r][c];
+    R[r] = R[r].map((x) => div(x, piv));
+    for (let i = 0; i < R.length; i++) {
+      if (i === r || isZero(R[i][c])) continue;
+      const f = R[i][c];
+      R[i] = R[i].map((x, j) => sub(x, mul(f, R[r][j])));
+    }
+    pivotRows.push(rowOrigin[r]);
+    pivotCols.push(c);
+    r++;
+  }
+  return { rank: r, pivotRows, pivotCols, R };
+}
+
+/** Determinante por Bareiss (divisões exatas); pivô escolhido pelo valor numérico. */
+export function determinant(M: Poly[][], values: Record<string, number>): Poly {
+  const n = M.length;
+  if (n === 0) return polyConst(1n);
+  const A = M.map((row) => row.slice());
+  let sign = 1n;
+  let prev = polyConst(1n);
+  for (let k = 0; k < n; k++) {
+    let p = k;
+    while (p < n && Math.abs(polyEval(A[p][k], values)) < 0.5) p++;
+    if (p === n) {
+      p = k;
+      while (p < n && polyIsZero(A[p][k])) p++;
+      if (p === n) return new Map();
+    }
+    if (p !== k) { [A[k], A[p]] = [A[p], A[k]]; sign = -sign; }
+    for (let i = k + 1; i < n; i++) {
+      for (let j = k + 1; j < n; j++) {
+        A[i][j] = polyDivExact(polySub(polyMul(A[i][j], A[k][k]), polyMul(A[i][k], A[k][j])), prev)!;
+      }
+    }
+    prev = A[k][k];
+  }
+  return sign < 0n ? polyScale(A[n - 1][n - 1], -1n) : A[n - 1][n - 1];
+}
+
+export type LinearRow = { A: Poly[]; b: Poly };       // Σ A[j]·ω(unknown[j]) = b
+
+export type ReducedSystem = {
+  representative: (v: string) => string;             // variável que representa a classe
+  value: Map<string, Poly>;                           // classe → 0 ou símbolo de velocidade
+  unknown: string[];                                  // representantes das classes livres
+  rows: LinearRow[];                                  // uma por malha
+  independent: number[];                              // linhas usadas (sem as redundantes)
+  numeric: Record<string, number>;                    // dentes reais (escolha de pivô)
+};
+
+/**
+ * Sistema das malhas depois de aplicar acoplamentos, freios e velocidades conhecidas.
+ * `independent` tem `unknown.length` linhas quando o sistema é determinado.
+ */
+export function reducedMeshSystem(model: Model, engaged: Iterable<string>, variables: string[]): ReducedSystem {
+  const constraints = [...(model.constraints || []), ...engagementConstraints(model, engaged)];
+
+  // classes de variáveis unidas por acoplamentos; representante = primeira na ordem do sistema
+  const parent = new Map(variables.map((v) => [v, v]));
+  const find = (v: string): string => (parent.get(v) === v ? v : find(parent.get(v)!));
+  for (const c of constraints) if (c.type === 'equal' && c.a && c.b) parent.set(find(c.a), find(c.b));
+  const repOf = new Map<string, string>();
+  for (const v of variables) if (!repOf.has(find(v))) repOf.set(find(v), v);
+  const representative = (v: string) => repOf.get(find(v)) ?? v;
+
+  const value = new Map<string, Poly>();
+  for (const c of constraints) {
+    if (!c.var || (c.type !== 'known' && c.type !== 'lock')) continue;
+    const k = representative(c.var);
+    if (value.has(k)) continue;
+    // velocidade conhecida nula age como freio
+    value.set(k, c.type === 'lock' || c.value === 0 ? new Map() : polySymbol(c.var));
+  }
+  const unknown = [...new Set(variables.map(representative))].filter((k) => !value.has(k));
+  const col = new Map(unknown.map((k, i) => [k, i]));
+
+  const numeric: Record<string, number> = {};
+  for (const el of model.elements) if (typeof el.N === 'number') numeric[toothSymbol(el.omega)] = el.N;
+
+  const rows: LinearRow[] = [];
+  for (const m of model.meshes) {
+    const sigma = 'type' in m ? (m.type === 'external' ? 1n : -1n) : BigInt(Math.sign(m.sigma ?? 1));
+    const Zi = polySymbol(toothSymbol(m.i));
+    const Zj = polySymbol(toothSymbol(m.j), sigma);
+    // Ni·(ωi − ωc) + σ·Nj·(ωj − ωc) = 0
+    const terms: [string, Poly][] = [[m.i, Zi], [m.j, Zj], [m.carrier, polySub(polyScale(Zi, -1n), Zj)]];
+    const A: Poly[] = unknown.map(() => new Map());
+    let b: Poly = new Map();
+    for (const [v, coef] of terms) {
+      const k = representative(v);
+      const i = col.get(k);
+      if (i != null) A[i] = polyAdd(A[i], coef);
+      else b = polySub(b, polyMul(coef, value.get(k)!));
+    }
+    rows.push({ A, b });
+  }
+
+  // linhas independentes (posto calculado com os dentes reais)
+  const { pivotRows } = reduceExact(
+    rows.map((r) => r.A.map((p) => fromNumber(polyEval(p, numeric)))),
+    unknown.length,
+  );
+  return { representative, value, unknown, rows, independent: pivotRows.sort((a, b) => a - b), numeric };
+}
+
+// Acima disto as expressões crescem combinatorialmente (segundos de CPU, fórmulas ilegíveis)
+export const MAX_SYMBOLIC_UNKNOWNS = 8;
+
+/** Expressões simbólicas das velocidades (null quando não há forma fechada útil). */
+function symbolicVelocities(model: Model, engaged: Iterable<string>, variables: string[]) {
+  const sys = reducedMeshSystem(model, engaged, variables);
+  if (sys.unknown.length > MAX_SYMBOLIC_UNKNOWNS) return null;
+  if (sys.independent.length < sys.unknown.length) return null;
+  const square = sys.independent.map((i) => sys.rows[i]);
+  const A = square.map((r) => r.A);
+  const D = determinant(A, sys.numeric);
+  if (polyIsZero(D)) return null;
+
+  const out: Record<string, SymbolicFraction> = {};
+  for (const v of variables) {
+    const k = sys.representative(v);
+    const i = sys.unknown.indexOf(k);
+    if (i < 0) {
+      out[v] = { num: sys.value.get(k)!, den: polyConst(1n) };
+      continue;
+    }
+    const Aj = A.map((row, r) => row.map((p, j) => (j === i ? square[r].b : p)));
+    out[v] = polyReduce(determinant(Aj, sys.numeric), D);
+  }
+  return out;
+}
+
+/**
+ * Na relação, cada velocidade conhecida vira múltiplo de uma só (a do denominador, se for
+ * conhecida): com símbolos independentes a razão nunca simplifica — duas entradas iguais
+ * dariam "(Za1·ω_s1 + Zs1·ω_s1)/(Za1·ω_a1 + Zs1·ω_s1)" em vez de 1. Os numeradores são
+ * lineares nas velocidades; todos são multiplicados pelo mesmo mmc dos denominadores.
+ */
+function inTermsOfOneSpeed(polys: Poly[], preferred: string, velocities: Record<string, Fraction>): Poly[] {
+  const speeds = new Set<string>();
+  for (const p of polys) for (const t of p.values()) for (const s of Object.keys(t.mono)) if (s.startsWith('omega_')) speeds.add(s);
+  if (speeds.size < 2) return polys;
+  const base = speeds.has(preferred) ? preferred : [...speeds].sort()[0];
+  const scale = new Map([...speeds].map((s) => [s, div(velocities[s], velocities[base])]));
+  let L = 1n;
+  for (const f of scale.values()) L = (L * f.d) / bigGcd(L, f.d);
+  return polys.map((p) => {
+    let out: Poly = new Map();
+    for (const t of p.values()) {
+      let term = polyConst(t.c);
+      for (const [s, e] of Object.entries(t.mono)) {
+        const f = scale.get(s);
+        const sym = f ? polySymbol(base, f.n * (L / f.d)) : polySymbol(s);
+        for (let k = 0; k < e; k++) term = polyMul(term, sym);
+      }
+      out = polyAdd(out, term);
+    }
+    return out;
+  });
+}
+
+/**
+ * Resolve o modelo em frações exatas. Mesmo diagnóstico do solver numérico
+ * (sub/superdeterminado), mas com posto exato.
+ */
+export function solveGearSystemExact(model: Model, engaged: Iterable<string> = []): ExactResult {
+  const engagedList = [...engaged];
+  const { variables, rows } = buildSystemRows(model, engagedList);
+  const n = variables.length;
+  const M = rows.map((r) => [...r.A.map(fromNumber), fromNumber(r.b)]);
+
+  const coef = reduceExact(M, n);
+  const aug = reduceExact(M, n + 1);
+  if (aug.rank > coef.rank) return { isOverdetermined: true };
+  if (coef.rank < n) return { isUnderdetermined: true, missingConstraints: n - coef.rank };
+
+  const velocities: Record<string, Fraction> = {};
+  coef.pivotCols.forEach((c, r) => { velocities[variables[c]] = coef.R[r][n]; });
+
+  const ratios = (model.ratios || []).map((r) => {
+    const den = velocities[r.den];
+    return { id: r.id, value: den && !isZero(den) ? div(velocities[r.num], den) : null };
+  });
+
+  let expressions: Record<string, SymbolicFraction> | null = null;
+  try {
+    expressions = symbolicVelocities(model, engagedList, variables);
+  } catch {
+    expressions = null;
+  }
+  const ratioExpressions = (model.ratios || []).map((r) => {
+    const a = expressions?.[r.num];
+    const b = expressions?.[r.den];
+    if (!a || !b || polyIsZero(b.num)) return { id: r.id, value: null };
+    const [aNum, bNum] = inTermsOfOneSpeed([a.num, b.num], r.den, velocities);
+    return { id: r.id, value: polyReduce(polyMul(aNum, b.den), polyMul(a.den, bNum)) };
+  });
+
+  return { velocities, ratios, expressions, ratioExpressions };
+}
+
+/** "(Zs1·ω_s1 + Za1·ω_a1)/(Zs1 + Za1)" — parênteses quando o termo não é um fator simples. */
+export function symbolicToString(e: SymbolicFraction, style: FormulaStyle = TEXT_STYLE) {
+  const num = formatPoly(e.num, style);
+  if (e.den.size === 1 && e.den.get('')?.c === 1n) return num;
+  return style.frac(num, formatPoly(e.den, style), e.num.size, e.den.size);
+}
@@ -0,0 +1,101 @@
+// Geometria de engrenamento com deslocamento de perfil (x).
+// Distâncias em MÓDULOS (multiplique pelo módulo para obter mm); ângulos em radianos.
+// O módulo e o ângulo de pressão são os transversais (os mesmos da geração do perfil).
+//
+//   externo:  inv α' = inv α + 2·tan α·(x1 + x2)/(z1 + z2),   a' = (z1 + z2)/2 · cos α / cos α'
+//   interno:  inv α' = inv α + 2·tan α·(x2 − x1)/(z2 − z1),   a' = (z2 − z1)/2 · cos α / cos α'
+//             (1 = planeta, 2 = anelar; x > 0 na anelar afasta o perfil do centro)
+
+/** Função involuta: inv α = tan α − α. */
+export function involute(alpha: number) {
+  return Math.tan(alpha) - alpha;
+}
+
+/** Inversa da involuta (Newton), para 0 ≤ y < ~1.5. */
+export function inverseInvolute(y: number) {
+  if (!Number.isFinite(y) || y < 0) return NaN;
+  if (y === 0) return 0;
+  let a = Math.cbrt(3 * y);                  // inv α ≈ α³/3 para α pequeno
+  for (let i = 0; i < 40; i++) {
+    const t = Math.tan(a);
+    const f = t - a - y;
+    const df = t * t;                        // d(inv α)/dα = tan² α
+    if (df === 0) break;
+    const next = a - f / df;
+    if (!Number.isFinite(next) || next <= 0) return NaN;
+    if (Math.abs(next - a) < 1e-14) return next;
+    a = Math.min(next, Math.PI / 2 - 1e-9);
+  }
+  return a;
+}
+
+export type MeshGeometry = {
+  operatingPressureAngle: number;          // α' (rad)
+  centerDistance: number;                  // a' (módulos)
+  referenceCenterDistance: number;         // a = (z1 ± z2)/2 (módulos)
+};
+
+/** Engrenamento externo (sol–planeta, planeta–planeta). */
+export function externalMesh(z1: number, x1: number, z2: number, x2: number, alpha: number): MeshGeometry {
+  const sum = z1 + z2;
+  const a0 = sum / 2;
+  if (!(sum > 0)) return { operatingPressureAngle: NaN, centerDistance: NaN, referenceCenterDistance: a0 };
+  const aw = inverseInvolute(involute(alpha) + (2 * Math.tan(alpha) * (x1 + x2)) / sum);
+  return { operatingPressureAngle: aw, centerDistance: (a0 * Math.cos(alpha)) / Math.cos(aw), referenceCenterDistance: a0 };
+}
+
+/** Engrenamento interno planeta (zp, xp) – anelar (za, xa). */
+export function internalMesh(zp: number, xp: number, za: number, xa: number, alpha: number): MeshGeometry {
+  const diff = za - zp;
+  const a0 = diff / 2;
+  if (!(diff > 0)) return { operatingPressureAngle: NaN, centerDistance: NaN, referenceCenterDistance: a0 };
+  const aw = inverseInvolute(involute(alpha) + (2 * Math.tan(alpha) * (xa - xp)) / diff);
+  return { operatingPressureAngle: aw, centerDistance: (a0 * Math.cos(alpha)) / Math.cos(aw), referenceCenterDistance: a0 };
+}
+
+/** Deslocamento da anelar que leva o engrenamento interno à distância `a` (módulos). */
+export function ringShiftForCenterDistance(zp: number, xp: number, za: number, alpha: number, a: number) {
+  const diff = za - zp;
+  if (!(diff > 0) || !(a > 0)) return NaN;
+  const cosAw = ((diff / 2) * Math.cos(alpha)) / a;
+  if (!(cosAw > 0 && cosAw <= 1)) return NaN;
+  const aw = Math.acos(cosAw);
+  return xp + ((involute(aw) - involute(alpha)) * diff) / (2 * Math.tan(alpha));
+}
+
+export type StageShift = {
+  solarX?: number;
+  planetsX?: number[];
+  annulusX?: number;
+};
+
+export type StageMesh = {
+  from: "sun" | number;                    // número = índice do planeta (0 = P1)
+  to: "ring" | number;
+  internal: boolean;
+} & MeshGeometry;
+
+/** Todos os engrenamentos da cadeia Sol → P1 → … → Pn → Anelar de um estágio. */
+export function stageMeshes(
+  st: { solarZ: number | null; planetsZ: number[]; annulusZ: number | null } & StageShift,
+  alpha: number,
+): StageMesh[] {
+  const xp = (k: number) => st.planetsX?.[k] ?? 0;
+  const out: StageMesh[] = [];
+  const n = st.planetsZ.length;
+  if (n === 0) return out;
+  if (st.solarZ != null) {
+    out.push({ from: "sun", to: 0, internal: false, ...externalMesh(st.solarZ, st.solarX ?? 0, st.planetsZ[0], xp(0), alpha) });
+  }
+  for (let k = 1; k < n; k++) {
+    out.push({ from: k - 1, to: k, internal: false, ...externalMesh(st.planetsZ[k - 1], xp(k - 1), st.planetsZ[k], xp(k), alpha) });
+  }
+  if (st.annulusZ != null) {
+    out.push({ from: n - 1, to: "ring", internal: true, ...internalMesh(st.planetsZ[n - 1], xp(n - 1), st.annulusZ, st.annulusX ?? 0, alpha) });
+  }
+  return out;
+}
+
+export function hasProfileShift(st: StageShift) {
+  return (st.solarX ?? 0) !== 0 || (st.annulusX ?? 0) !== 0 || (st.planetsX ?? []).some((x) => (x ?? 0) !== 0);
+}
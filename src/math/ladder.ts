@@ -0,0 +1,326 @@
+import type { Model, ShiftElement } from './types';
+import { buildSystemRows, solveGearSystem } from './solver';
+import { trySolveGaussian } from '../lib/numeric';
+import { compareErrors, toothClasses, type StageClass, type SynthesisStage, type ToothHooks, type ToothSearchOptions } from './synthesis';
+
+// Síntese de uma escada de relações (transmissão de várias marchas).
+// Topologia fixa (estágios, acoplamentos permanentes, membro de entrada e de saída);
+// procuram‑se os dentes e, para cada marcha, quais elementos de troca acionar.
+//
+//   eixos        membros ligados por acoplamentos permanentes (solar, braço, anelar)
+//   candidatos   freio em cada eixo que não é entrada nem saída e embreagem da entrada
+//                para cada outro eixo
+//   marcha       combinação de k candidatos, k = graus de liberdade que sobram com a
+//                velocidade de entrada conhecida (sistema quadrado e não singular)
+//   encaixe      cada alvo recebe uma combinação distinta minimizando o maior erro
+//                relativo (emparelhamento de gargalo)
+//
+// Busca nos dentes: as classes de cada estágio (synthesis.ts) são ordenadas por Za/Zs;
+// uma grade grossa escolhe as melhores sementes e uma subida de encosta por estágio
+// (passo ±s, s cai pela metade) refina cada uma. Só no fim os planetas são resolvidos
+// (montagem e folga entre vizinhos).
+
+export type LadderState = { engaged: string[]; ratio: number };
+
+export type LadderAssignment = { states: LadderState[]; error: number };
+
+/** Eixos: grupos de membros unidos pelos acoplamentos permanentes. */
+export function shaftsOf(members: string[], couplings: { a?: string; b?: string }[]): string[][] {
+  const parent = new Map(members.map((m) => [m, m]));
+  const find = (m: string): string => {
+    const p = parent.get(m) ?? m;
+    return p === m ? m : find(p);
+  };
+  for (const c of couplings) {
+    if (!c.a || !c.b || !parent.has(c.a) || !parent.has(c.b)) continue;
+    parent.set(find(c.a), find(c.b));
+  }
+  const groups = new Map<string, string[]>();
+  for (const m of members) {
+    const root = find(m);
+    groups.set(root, [...(groups.get(root) ?? []), m]);
+  }
+  return [...groups.values()];
+}
+
+/** Candidatos a elemento de troca: embreagens C1… (entrada → eixo) e freios B1…. */
+export function candidateShiftElements(shafts: string[][], input: string, output: string): ShiftElement[] {
+  const inShaft = shafts.find((s) => s.includes(input));
+  const clutches: ShiftElement[] = [];
+  const brakes: ShiftElement[] = [];
+  for (const s of shafts) {
+    if (s === inShaft) continue;
+    clutches.push({ id: `C${clutches.length + 1}`, type: 'clutch', a: input, b: s[0] });
+    if (!s.includes(output)) brakes.push({ id: `B${brakes.length + 1}`, type: 'brake', a: s[0] });
+  }
+  return [...clutches, ...brakes];
+}
+
+/** Graus de liberdade que sobram no modelo (nº de elementos a acionar por marcha). */
+export function remainingDof(model: Model) {
+  const r = solveGearSystem(model);
+  return 'isUnderdetermined' in r && r.isUnderdetermined ? r.missingConstraints : 0;
+}
+
+export const MAX_LADDER_STATES = 2000;
+
+const binomial = (n: number, k: number) => {
+  let c = 1;
+  for (let i = 0; i < k; i++) c = (c * (n - i)) / (i + 1);
+  return Math.round(c);
+};
+
+/**
+ * Topologia da escada a partir do modelo base (sem elementos de troca): eixos, candidatos
+ * e k. `null` quando a entrada/saída não é um membro principal, quando não sobra grau de
+ * liberdade ou quando as combinações passam de MAX_LADDER_STATES.
+ */
+export function ladderTopology(model: Model, couplings: { a?: string; b?: string }[], input: string, output: string) {
+  const members = model.elements.filter((e) => e.type !== 'planet').map((e) => e.omega);
+  if (!members.includes(input) || !members.includes(output)) return null;
+  const shafts = shaftsOf(members, couplings);
+  if (shafts.some((s) => s.includes(input) && s.includes(output))) return null;
+  const elements = candidateShiftElements(shafts, input, output);
+  const k = remainingDof(model);
+  if (k < 1 || k > elements.length || binomial(elements.length, k) > MAX_LADDER_STATES) return null;
+  return { shafts, elements, k };
+}
+
+function combinations(n: number, k: number): number[][] {
+  const out: number[][] = [];
+  const cur: number[] = [];
+  const rec = (start: number) => {
+    if (cur.length === k) { out.push(cur.slice()); return; }
+    for (let i = start; i < n; i++) { cur.push(i); rec(i + 1); cur.pop(); }
+  };
+  rec(0);
+  return out;
+}
+
+/**
+ * Relação entrada/saída de cada combinação de `k` elementos. O modelo traz as malhas,
+ * os acoplamentos permanentes e a velocidade de entrada (known); combinações singulares
+ * ou com saída parada são descartadas. Com sistema quadrado a eliminação é direta;
+ * senão (linhas redundantes) cada combinação passa pelo solver completo.
+ */
+export function ladderStates(model: Model, input: string, output: string, elements: ShiftElement[], k: number): LadderState[] {
+  const { index, rows, variables } = buildSystemRows(model);
+  const n = variables.length;
+  if (index[input] == null || index[output] == null) return [];
+  const speedIn = (model.constraints ?? []).find((c) => c.type === 'known' && c.var === input)?.value ?? 1;
+  const rowOf = (el: ShiftElement) => {
+    const row = new Array(n).fill(0);
+    row[index[el.a]] += 1;
+    if (el.type === 'clutch' && el.b) row[index[el.b]] -= 1;
+    return row;
+  };
+  const extra = elements.map(rowOf);
+  const A = rows.map((r) => r.A);
+  const b = rows.map((r) => r.b);
+  const square = rows.length + k === n;
+  const withElements: Model = { ...model, shiftElements: elements };
+
+  const out: LadderState[] = [];
+  for (const combo of combinations(elements.length, k)) {
+    let wOut: number | undefined;
+    if (square) {
+      const sol = trySolveGaussian([...A, ...combo.map((i) => extra[i])], [...b, ...combo.map(() => 0)]);
+      wOut = sol?.[index[output]];
+    } else {
+      const r = solveGearSystem(withElements, combo.map((i) => elements[i].id));
+      wOut = 'isUnderdetermined' in r || 'isOverdetermined' in r ? undefined : r.velocities[output];
+    }
+    if (wOut == null || !Number.isFinite(wOut) || Math.abs(wOut) < 1e-9 * Math.max(1, Math.abs(speedIn))) continue;
+    out.push({ engaged: combo.map((i) => elements[i].id), ratio: speedIn / wOut });
+  }
+  return out;
+}
+
+const relError = (value: number, target: number) =>
+  Math.abs(target) > 1e-12 ? Math.abs(value - target) / Math.abs(target) : Math.abs(value);
+
+/** Emparelha cada alvo com um estado distinto minimizando o maior erro relativo. */
+export function assignLadder(targets: number[], states: LadderState[]): LadderAssignment | null {
+  if (targets.length === 0 || states.length < targets.length) return null;
+  const err = targets.map((t) => states.map((s) => relError(s.ratio, t)));
+  const thresholds = [...new Set(err.flat())].sort((a, b) => a - b);
+
+  // emparelhamento bipartido (Kuhn) usando só arestas com erro ≤ limite
+  const match = (limit: number) => {
+    const owner = new Array(states.length).fill(-1);
+    const tryTarget = (t: number, seen: boolean[]): boolean => {
+      for (let s = 0; s < states.length; s++) {
+        if (seen[s] || err[t][s] > limit) continue;
+        seen[s] = true;
+        if (owner[s] < 0 || tryTarget(owner[s], seen)) { owner[s] = t; return true; }
+      }
+      return false;
+    };
+    for (let t = 0; t < targets.length; t++) if (!tryTarget(t, new Array(states.length).fill(false))) return null;
+    const picks = new Array(targets.length).fill(-1);
+    owner.forEach((t, s) => { if (t >= 0) picks[t] = s; });
+    return picks as number[];
+  };
+
+  let lo = 0, hi = thresholds.length - 1;
+  if (hi < 0 || !match(thresholds[hi])) return null;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (match(thresholds[mid])) hi = mid;
+    else lo = mid + 1;
+  }
+  const picks = match(thresholds[lo])!;
+  return { states: picks.map((s) => states[s]), error: thresholds[lo] };
+}
+
+export interface LadderOptions extends ToothSearchOptions {
+  targets: number[];             // relações desejadas (ré = negativa), na ordem das marchas
+  tolerance: number;             // erro relativo máximo
+  maxVectors?: number;           // teto de combinações de dentes avaliadas
+  maxDesigns?: number;
+}
+
+export interface LadderHooks<T extends SynthesisStage> extends ToothHooks<T> {
+  states: (stages: T[]) => LadderState[];
+}
+
+export type LadderDesign<T extends SynthesisStage> = {
+  stages: T[];
+  assignment: LadderState[];     // uma combinação por alvo
+  error: number;
+  elements: ShiftElement[];      // elementos usados, renumerados (C1…, B1…)
+  sizeMm: number;
+};
+
+export type LadderResult<T extends SynthesisStage> = {
+  designs: LadderDesign<T>[];
+  evaluated: number;
+  truncated: boolean;
+};
+
+const DEFAULT_MAX_VECTORS = 3000;
+const DEFAULT_MAX_DESIGNS = 20;
+const SEEDS = 6;
+
+// Chave de ordenação das classes: relação básica Za/Zs (senão o tamanho)
+const basicRatio = <T extends SynthesisStage>(c: StageClass<T>) =>
+  c.proto.solarZ != null && c.proto.annulusZ != null ? c.proto.annulusZ / c.proto.solarZ : c.size;
+
+/** Só os elementos usados, renumerados na ordem dos candidatos; `assignment` acompanha. */
+function compact(states: LadderState[], candidates: ShiftElement[]) {
+  const used = new Set(states.flatMap((s) => s.engaged));
+  const rename = new Map<string, string>();
+  const elements: ShiftElement[] = [];
+  let c = 0, b = 0;
+  for (const el of candidates) {
+    if (!used.has(el.id)) continue;
+    const id = el.type === 'clutch' ? `C${++c}` : `B${++b}`;
+    rename.set(el.id, id);
+    elements.push({ ...el, id });
+  }
+  return { elements, assignment: states.map((s) => ({ ...s, engaged: s.engaged.map((id) => rename.get(id) ?? id) })) };
+}
+
+export function synthesizeLadder<T extends SynthesisStage>(
+  stages: T[],
+  candidates: ShiftElement[],
+  o: LadderOptions,
+  hooks: LadderHooks<T>,
+): LadderResult<T> {
+  const steps = ladderSteps(stages, candidates, o, hooks);
+  for (;;) {
+    const r = steps.next();
+    if (r.done) return r.value;
+  }
+}
+
+/** Mesma busca de synthesizeLadder, como gerador (cede a cada vetor avaliado). */
+export function* ladderSteps<T extends SynthesisStage>(
+  stages: T[],
+  candidates: ShiftElement[],
+  o: LadderOptions,
+  hooks: LadderHooks<T>,
+): Generator<void, LadderResult<T>, void> {
+  const maxVectors = o.maxVectors ?? DEFAULT_MAX_VECTORS;
+  const maxDesigns = o.maxDesigns ?? DEFAULT_MAX_DESIGNS;
+  const { classesOf, sizeMm, status } = toothClasses(o, hooks);
+  const lists: StageClass<T>[][] = [];
+  for (const tpl of stages) lists.push((yield* classesOf(tpl)).sort((a, b) => basicRatio(a) - basicRatio(b)));
+  if (lists.length === 0 || lists.some((l) => l.length === 0)) {
+    return { designs: [], evaluated: 0, truncated: status.truncated };
+  }
+
+  const memo = new Map<string, LadderAssignment | null>();
+  const score = (idx: number[]) => {
+    const key = idx.join(',');
+    if (memo.has(key)) return memo.get(key)!;
+    const states = hooks.states(idx.map((i, k) => lists[k][i].proto));
+    const a = assignLadder(o.targets, states);
+    memo.set(key, a);
+    return a;
+  };
+  const errOf = (idx: number[]) => score(idx)?.error ?? Infinity;
+
+  // grade grossa: S posições igualmente espaçadas por estágio
+  const S = Math.max(2, Math.floor((maxVectors / 3) ** (1 / lists.length)));
+  const grid = lists.map((l) => [...new Set(Array.from({ length: S }, (_, i) => Math.round((i * (l.length - 1)) / (S - 1))))]);
+  const coarse: number[][] = [];
+  const pos = new Array(lists.length).fill(0);
+  for (;;) {
+    coarse.push(pos.map((p, k) => grid[k][p]));
+    let k = lists.length - 1;
+    while (k >= 0 && ++pos[k] >= grid[k].length) pos[k--] = 0;
+    if (k < 0) break;
+  }
+  for (const idx of coarse) { errOf(idx); yield; }
+  const seeds = coarse
+    .map((idx) => ({ idx, error: errOf(idx) }))
+    .filter((c) => Number.isFinite(c.error))
+    .sort((a, b) => a.error - b.error)
+    .slice(0, SEEDS)
+    .map((c) => c.idx);
+
+  // subida de encosta a partir de cada semente
+  for (const seed of seeds) {
+    const cur = seed.slice();
+    let step = Math.max(1, Math.ceil(Math.max(...lists.map((l) => l.length)) / S));
+    while (step >= 1 && memo.size < maxVectors) {
+      let improved = false;
+      for (let k = 0; k < lists.length; k++) {
+        for (const d of [-step, step]) {
+          const i = cur[k] + d;
+          if (i < 0 || i >= lists[k].length) continue;
+          const trial = cur.slice();
+          trial[k] = i;
+          if (errOf(trial) < errOf(cur)) { cur[k] = i; improved = true; }
+          yield;
+        }
+      }
+      if (!improved) step = step === 1 ? 0 : Math.floor(step / 2);
+    }
+  }
+
+  // dentro da tolerância: resolve os planetas e monta os projetos
+  const designs: LadderDesign<T>[] = [];
+  const seen = new Set<string>();
+  const ranked = [...memo.entries()]
+    .filter(([, a]) => a != null && a.error <= o.tolerance)
+    .sort((x, y) => compareErrors(x[1]!.error, y[1]!.error));
+  for (const [key, a] of ranked) {
+    if (designs.length >= maxDesigns) break;
+    yield;
+    const members = key.split(',').map((i, k) => lists[k][Number(i)].member());
+    if (members.some((m) => m == null)) continue;
+    const teethKey = JSON.stringify(members.map((m) => [m!.solarZ, m!.planetsZ, m!.annulusZ]));
+    if (seen.has(teethKey)) continue;
+    seen.add(teethKey);
+    designs.push({
+      stages: members as T[],
+      ...compact(a!.states, candidates),
+      error: a!.error,
+      sizeMm: Math.max(...members.map((m) => sizeMm(m!))),
+    });
+  }
+  designs.sort((x, y) => compareErrors(x.error, y.error) || x.elements.length - y.elements.length || x.sizeMm - y.sizeMm);
+  return { designs, evaluated: memo.size, truncated: status.truncated || memo.size >= maxVectors };
+}
@@ -0,0 +1,257 @@
+import type { Mesh, Model } from './types';
+import { externalMesh, internalMesh, involute } from './gearGeometry';
+
+// Diagnóstico geométrico de cada engrenamento do Model (sol–planeta, planeta–planeta,
+// planeta–anelar). Perfil ISO 53 (hₐ* = 1), grandezas transversais, como na geração da malha 3D.
+//
+//   razão de contato transversal   εα = [√(ra1² − rb1²) ± √(ra2² − rb2²) ∓ a'·sen α'] / (π·m·cos α)
+//                                      (sinais de baixo = interno; ra2 = cabeça da anelar, voltada para dentro)
+//   razão de recobrimento          εβ = b·tan|β| / (π·m)
+//   interferência de involuta      a cabeça de uma engrenagem passa do ponto de tangência T
+//                                  da outra (toca o flanco abaixo do círculo de base)
+//   adelgaçamento (undercut)       x < 1 − z·sen²α / 2 (geração por cremalheira)
+//   espessura na cabeça            sₐ = dₐ·(s/d + inv α − inv αₐ)  (anelar: sinais trocados)
+
+export type DiagnosticLevel = 'warning' | 'error';
+
+export type DiagnosticKind = 'contactRatio' | 'interference' | 'tipInterference' | 'undercut' | 'tipThickness';
+
+export interface MeshIssue {
+  kind: DiagnosticKind;
+  level: DiagnosticLevel;
+  gear: string;                // omega da engrenagem afetada
+  mensagem: string;
+  mensagem_en: string;
+}
+
+/** Perfil de corte do estágio (braço) ao qual o engrenamento pertence. */
+export interface CutProfile {
+  moduleMm: number;
+  alphaRad: number;            // ângulo de pressão transversal
+  widthMm: number;
+  helixRad: number;
+}
+
+export interface MeshDiagnosticsOptions {
+  profile: (carrier: string) => CutProfile;
+  shift?: Record<string, number>;      // x por omega (ausente = 0)
+}
+
+export interface MeshDiagnostic {
+  i: string;
+  j: string;
+  carrier: string;
+  internal: boolean;
+  operatingPressureAngle: number;      // α' (rad)
+  centerDistance: number;              // a' (mm)
+  transverseContactRatio: number;      // εα
+  overlapContactRatio: number;         // εβ
+  totalContactRatio: number;           // εγ = εα + εβ
+  issues: MeshIssue[];
+}
+
+export interface GearDiagnostic {
+  gear: string;
+  carrier: string;
+  teeth: number;
+  internal: boolean;
+  tipThickness: number;                // mm, sem folga (NaN: cabeça abaixo do círculo de base)
+  minShift: number | null;             // x mínimo sem adelgaçamento (null: anelar)
+  issues: MeshIssue[];
+}
+
+export interface MeshDiagnosticsResult {
+  meshes: MeshDiagnostic[];
+  gears: GearDiagnostic[];
+  flagged: Record<string, DiagnosticLevel>;    // omega → pior nível
+}
+
+const MIN_CONTACT_RATIO = 1.2;         // abaixo disso o engrenamento fica sensível a erros e folgas
+const MIN_TIP_THICKNESS = 0.25;        // × m
+const TOL = 1e-9;
+
+// Diferença mínima Za − Zp contra interferência de ponta em engrenamento interno
+// (regra prática para dente normal, x = 0): 14,5° → 15, 20° → 12, 25° → 10
+const TIP_RULE: [number, number][] = [[14.5, 15], [20, 12], [25, 10]];
+
+function minInternalDifference(alphaDeg: number) {
+  if (alphaDeg <= TIP_RULE[0][0]) return TIP_RULE[0][1];
+  for (let k = 1; k < TIP_RULE.length; k++) {
+    const [a0, d0] = TIP_RULE[k - 1];
+    const [a1, d1] = TIP_RULE[k];
+    if (alphaDeg <= a1) return Math.ceil(d0 + ((alphaDeg - a0) / (a1 - a0)) * (d1 - d0));
+  }
+  return TIP_RULE[TIP_RULE.length - 1][1];
+}
+
+const fmt = (v: number, d = 2) => (Number.isFinite(v) ? v.toFixed(d) : '—');
+
+// Raios em módulos (x > 0 afasta o perfil do centro, inclusive na anelar)
+const tipRadius = (z: number, x: number, internal: boolean) => (internal ? z / 2 - 1 + x : z / 2 + 1 + x);
+const roll = (r: number, rb: number) => Math.sqrt(Math.max(0, r * r - rb * rb));
+
+/** Espessura na cabeça (em módulos). */
+export function tipThickness(z: number, x: number, alpha: number, internal = false) {
+  const r = z / 2;
+  const rb = r * Math.cos(alpha);
+  const ra = tipRadius(z, x, internal);
+  if (!(ra >= rb)) return NaN;
+  const alphaA = Math.acos(rb / ra);
+  // espessura no primitivo: externa π/2 + 2x·tan α; anelar π/2 − 2x·tan α (o vão é o da externa)
+  const s = Math.PI / 2 + (internal ? -1 : 1) * 2 * x * Math.tan(alpha);
+  const half = s / (2 * r) + (internal ? -1 : 1) * (involute(alpha) - involute(alphaA));
+  return 2 * ra * half;
+}
+
+/** Deslocamento mínimo sem adelgaçamento na geração por cremalheira. */
+export function minShiftForUndercut(z: number, alpha: number) {
+  return 1 - (z * Math.sin(alpha) ** 2) / 2;
+}
+
+export function diagnoseMeshes(model: Model, opts: MeshDiagnosticsOptions): MeshDiagnosticsResult {
+  const teeth = new Map<string, number>();
+  const ringOmegas = new Set<string>();
+  for (const el of model.elements) {
+    if (el.type === 'arm' || el.N == null) continue;
+    teeth.set(el.omega, Math.abs(el.N));
+    if (el.type === 'annulus') ringOmegas.add(el.omega);
+  }
+  const xOf = (omega: string) => opts.shift?.[omega] ?? 0;
+
+  const meshes: MeshDiagnostic[] = [];
+  const gearCarrier = new Map<string, string>();
+
+  for (const m of model.meshes) {
+    const internal = isInternal(m);
+    // no interno, j é a anelar (convenção do buildModelFromUI); se vier trocado, corrige
+    const [pi, ring] = internal && ringOmegas.has(m.i) ? [m.j, m.i] : [m.i, m.j];
+    const z1 = teeth.get(pi);
+    const z2 = teeth.get(ring);
+    if (z1 == null || z2 == null || z1 <= 0 || z2 <= 0) continue;
+    const p = opts.profile(m.carrier);
+    const alpha = p.alphaRad;
+    const x1 = xOf(pi), x2 = xOf(ring);
+    if (!gearCarrier.has(pi)) gearCarrier.set(pi, m.carrier);
+    if (!gearCarrier.has(ring)) gearCarrier.set(ring, m.carrier);
+
+    const g = internal ? internalMesh(z1, x1, z2, x2, alpha) : externalMesh(z1, x1, z2, x2, alpha);
+    const aw = g.operatingPressureAngle;
+    const a = g.centerDistance;
+    const rb1 = (z1 / 2) * Math.cos(alpha), rb2 = (z2 / 2) * Math.cos(alpha);
+    const ra1 = tipRadius(z1, x1, false), ra2 = tipRadius(z2, x2, internal);
+    const g1 = roll(ra1, rb1), g2 = roll(ra2, rb2);
+    const lineOfAction = a * Math.sin(aw);              // T1T2
+    const pb = Math.PI * Math.cos(alpha);
+    const epsAlpha = internal ? (g1 - g2 + lineOfAction) / pb : (g1 + g2 - lineOfAction) / pb;
+    const epsBeta = (p.widthMm * Math.abs(Math.tan(p.helixRad))) / (Math.PI * p.moduleMm);
+    const epsGamma = epsAlpha + epsBeta;
+    const issues: MeshIssue[] = [];
+
+    if (!Number.isFinite(aw) || !Number.isFinite(a)) {
+      issues.push({
+        kind: 'contactRatio', level: 'error', gear: ring,
+        mensagem: 'Engrenamento sem solução: os deslocamentos de perfil não deixam distância entre centros válida.',
+        mensagem_en: 'Mesh has no solution: the profile shifts leave no valid centre distance.',
+      });
+    } else {
+      if (!(epsGamma >= 1 - TOL)) {
+        issues.push({
+          kind: 'contactRatio', level: 'error', gear: ring,
+          mensagem: `Razão de contato ${fmt(epsGamma)} < 1: o contato é interrompido entre um par de dentes e o próximo.`,
+          mensagem_en: `Contact ratio ${fmt(epsGamma)} < 1: contact is lost between one tooth pair and the next.`,
+        });
+      } else if (epsGamma < MIN_CONTACT_RATIO) {
+        issues.push({
+          kind: 'contactRatio', level: 'warning', gear: ring,
+          mensagem: `Razão de contato baixa (${fmt(epsGamma)} < ${MIN_CONTACT_RATIO}).`,
+          mensagem_en: `Low contact ratio (${fmt(epsGamma)} < ${MIN_CONTACT_RATIO}).`,
+        });
+      }
+
+      if (internal) {
+        // cabeça da anelar abaixo do círculo de base, ou tocando o planeta antes de T1
+        if (ra2 < rb2 - TOL || g2 < lineOfAction - TOL) {
+          issues.push({
+            kind: 'interference', level: 'error', gear: ring,
+            mensagem: 'Interferência de involuta: a cabeça da anelar toca o flanco do planeta abaixo do círculo de base.',
+            mensagem_en: 'Involute interference: the ring tip touches the planet flank below its base circle.',
+          });
+        }
+        const minDiff = minInternalDifference((alpha * 180) / Math.PI);
+        if (z2 - z1 < minDiff) {
+          issues.push({
+            kind: 'tipInterference', level: x2 - x1 > 0 ? 'warning' : 'error', gear: ring,
+            mensagem: `Interferência de ponta: Za − Zp = ${z2 - z1} (regra prática: ≥ ${minDiff} para este ângulo de pressão).`,
+            mensagem_en: `Tip interference: Zr − Zp = ${z2 - z1} (rule of thumb: ≥ ${minDiff} at this pressure angle).`,
+          });
+        }
+      } else {
+        // a cabeça de uma passa do ponto de tangência da outra → a outra (o flanco atingido) é a afetada
+        for (const [gTip, victim] of [[g2, pi], [g1, ring]] as const) {
+          if (gTip > lineOfAction + TOL) {
+            issues.push({
+              kind: 'interference', level: 'error', gear: victim,
+              mensagem: 'Interferência de involuta: a cabeça da conjugada toca o flanco abaixo do círculo de base.',
+              mensagem_en: 'Involute interference: the mating tip touches the flank below its base circle.',
+            });
+          }
+        }
+      }
+    }
+
+    meshes.push({
+      i: pi, j: ring, carrier: m.carrier, internal,
+      operatingPressureAngle: aw,
+      centerDistance: a * p.moduleMm,
+      transverseContactRatio: epsAlpha,
+      overlapContactRatio: epsBeta,
+      totalContactRatio: epsGamma,
+      issues,
+    });
+  }
+
+  const gears: GearDiagnostic[] = [];
+  for (const [gear, carrier] of gearCarrier) {
+    const z = teeth.get(gear)!;
+    const internal = ringOmegas.has(gear);
+    const p = opts.profile(carrier);
+    const x = xOf(gear);
+    const sa = tipThickness(z, x, p.alphaRad, internal);
+    const minShift = internal ? null : minShiftForUndercut(z, p.alphaRad);
+    const issues: MeshIssue[] = [];
+
+    if (minShift != null && x < minShift - 1e-6) {
+      issues.push({
+        kind: 'undercut', level: 'warning', gear,
+        mensagem: `Adelgaçamento: Z=${z} com x=${fmt(x)} fica abaixo do mínimo x ≥ ${fmt(minShift)} para este ângulo de pressão.`,
+        mensagem_en: `Undercut: Z=${z} with x=${fmt(x)} is below the minimum x ≥ ${fmt(minShift)} at this pressure angle.`,
+      });
+    }
+    if (Number.isNaN(sa)) {
+      // anelar com cabeça abaixo do círculo de base: já acusada como interferência no engrenamento
+    } else if (!(sa > TOL)) {
+      issues.push({
+        kind: 'tipThickness', level: 'error', gear,
+        mensagem: 'Dente pontudo: a espessura na cabeça se anula antes do diâmetro de cabeça.',
+        mensagem_en: 'Pointed tooth: the tip thickness vanishes before the tip diameter.',
+      });
+    } else if (sa < MIN_TIP_THICKNESS) {
+      issues.push({
+        kind: 'tipThickness', level: 'warning', gear,
+        mensagem: `Cabeça fina: sₐ = ${fmt(sa * p.moduleMm)} mm (< ${MIN_TIP_THICKNESS}·m).`,
+        mensagem_en: `Thin tip: sₐ = ${fmt(sa * p.moduleMm)} mm (< ${MIN_TIP_THICKNESS}·m).`,
+      });
+    }
+    gears.push({ gear, carrier, teeth: z, internal, tipThickness: sa * p.moduleMm, minShift, issues });
+  }
+
+  const flagged: Record<string, DiagnosticLevel> = {};
+  for (const iss of [...meshes.flatMap((m) => m.issues), ...gears.flatMap((g) => g.issues)]) {
+    if (flagged[iss.gear] !== 'error') flagged[iss.gear] = iss.level;
+  }
+  return { meshes, gears, flagged };
+}
+
+function isInternal(m: Mesh) {
+  return 'type' in m && m.type ? m.type === 'internal' : (m.sigma ?? 1) < 0;
+}
@@ -0,0 +1,21 @@
+import type { Constraint, Model } from './types';
+
+/**
+ * Converte o estado de acionamento (ids dos elementos acionados) nas restrições
+ * equivalentes: embreagem → equal(a=b), freio → lock(a).
+ */
+export function engagementConstraints(model: Model, engaged: Iterable<string>): Constraint[] {
+  const byId = new Map((model.shiftElements || []).map((el) => [el.id, el]));
+  const out: Constraint[] = [];
+  for (const id of new Set(engaged)) {
+    const el = byId.get(id);
+    if (!el) throw new Error(`Elemento de troca não encontrado: ${id}`);
+    if (el.type === 'brake') {
+      out.push({ type: 'lock', var: el.a, source: el.id });
+    } else {
+      if (!el.b) throw new Error(`Embreagem ${el.id} sem segundo membro`);
+      out.push({ type: 'equal', a: el.a, b: el.b, source: el.id });
+    }
+  }
+  return out;
+}
@@ -1,20 +1,44 @@
-import type { Model } from './types';
-import { leastSquares } from '../lib/numeric';
+import type { Constraint, Model } from './types';
+import { qrSolve, type QRSolution } from '../lib/numeric';
+import { engagementConstraints } from './shift';
 
-export function solveGearSystem(model: Model) {
+export type SystemRow = {
+  A: number[];
+  b: number;
+  tag: string;
+  kind: 'mesh' | 'known' | 'equal' | 'lock';
+  constraint?: Constraint;   // restrição de origem (linhas que não são malhas)
+};
+
+// Sugestão que tira um grau de liberdade: fixar uma velocidade ou acoplar dois membros
+export type ConstraintSuggestion =
+  | { type: 'known'; var: string }
+  | { type: 'equal'; a: string; b: string };
+
+const NULL_TOL = 1e-9;                 // componente desprezível de um vetor do núcleo
+const MAX_COUPLING_SUGGESTIONS = 6;
+
+/**
+ * Monta as equações de Willis (malhas) e as restrições do modelo como linhas
+ * de A·ω = b. Reaproveitado pelo solver de torques, que usa a transposta do
+ * mesmo sistema para o balanço de potência virtual.
+ * `engaged` lista os elementos de troca acionados (ver shift.ts).
+ */
+export function buildSystemRows(model: Model, engaged: Iterable<string> = []) {
+  const constraints = [...(model.constraints || []), ...engagementConstraints(model, engaged)];
   const vars = new Set<string>();
   for (const el of model.elements) vars.add(el.omega);
   for (const c of model.carriers || []) vars.add(c.omega);
-  for (const cx of model.constraints || []) {
+  for (const cx of constraints) {
     if (cx.var) vars.add(cx.var);
     if (cx.a) vars.add(cx.a);
     if (cx.b) vars.add(cx.b);
   }
 
   const vlist = Array.from(vars);
-  const vidx = Object.fromEntries(vlist.map((v, i) => [v, i]));
+  const vidx: Record<string, number> = Object.fromEntries(vlist.map((v, i) => [v, i]));
   const n = vlist.length;
-  const rows: { A: number[]; b: number; tag: string }[] = [];
+  const rows: SystemRow[] = [];
 
   // malhas
   for (const m of model.meshes) {
@@ -28,102 +52,160 @@ export function solveGearSystem(model: Model) {
     row[vidx[carrier]] += -Ni;
     row[vidx[j]] += sigma * Nj;
     row[vidx[carrier]] += -sigma * Nj;
-    rows.push({ A: row, b: 0, tag: `mesh(${i},${j}|b=${carrier})` });
+    rows.push({ A: row, b: 0, tag: `mesh(${i},${j}|b=${carrier})`, kind: 'mesh' });
   }
 
   // restrições
-  for (const c of model.constraints || []) {
+  for (const c of constraints) {
+    const src = c.source ? `[${c.source}]` : '';
     if (c.type === 'known') {
       const row = new Array(n).fill(0);
       row[vidx[c.var!]] = 1;
-      rows.push({ A: row, b: c.value ?? 0, tag: `known(${c.var})` });
+      rows.push({ A: row, b: c.value ?? 0, tag: `known(${c.var})${src}`, kind: 'known', constraint: c });
     } else if (c.type === 'equal') {
       const row = new Array(n).fill(0);
       row[vidx[c.a!]] = 1;
       row[vidx[c.b!]] -= 1;
-      rows.push({ A: row, b: 0, tag: `equal(${c.a}=${c.b})` });
+      rows.push({ A: row, b: 0, tag: `equal(${c.a}=${c.b})${src}`, kind: 'equal', constraint: c });
     } else if (c.type === 'lock') {
       const row = new Array(n).fill(0);
       row[vidx[c.var!]] = 1;
-      rows.push({ A: row, b: 0, tag: `lock(${c.var})` });
+      rows.push({ A: row, b: 0, tag: `lock(${c.var})${src}`, kind: 'lock', constraint: c });
     }
   }
 
-  const { A, b } = stack(rows);
-  // --- DETECÇÃO DE SUBDETERMINAÇÃO ---
-function rankOf(M: number[][]): number {
-  const eps = 1e-9;
-  const A = M.map(r => [...r]);
-  let r = 0, c = 0;
-  const n = A.length, m = A[0]?.length ?? 0;
-  while (r < n && c < m) {
-    // encontra pivô
-    let pivot = r;
-    for (let i = r + 1; i < n; i++) {
-      if (Math.abs(A[i][c]) > Math.abs(A[pivot][c])) pivot = i;
-    }
-    if (Math.abs(A[pivot][c]) < eps) { c++; continue; }
-    [A[r], A[pivot]] = [A[pivot], A[r]];
-    const div = A[r][c];
-    for (let j = c; j < m; j++) A[r][j] /= div;
-    for (let i = 0; i < n; i++) {
-      if (i !== r) {
-        const f = A[i][c];
-        for (let j = c; j < m; j++) A[i][j] -= f * A[r][j];
-      }
-    }
-    r++; c++;
-  }
-  return r;
+  return { variables: vlist, index: vidx, rows };
 }
 
-const rank = rankOf(A);
-const nVars = A[0].length;
-const missingConstraints = Math.max(0, nVars - rank);
-
-// rank da matriz aumentada [A|b] para detectar inconsistência (superdeterminação)
-const Ab = A.map((row, i) => [...row, b[i]]);
-const rankAug = rankOf(Ab);
-
-if (rankAug > rank) {
-  // Sistema SUPERDETERMINADO (inconsistente)
-  // Quantidade mínima de restrições a remover para restabelecer consistência:
-  // - diferença de postos (rankAug - rank) garante voltar a ter solução
-  // - rows.length - nVars é um teto prático de “excesso” de equações
-  const extraEq = rows.length - nVars;
-  const conflictingConstraints = Math.max(1, rankAug - rank, extraEq);
-  return {
-    velocities: {},
-    ratios: [],
-    isOverdetermined: true,
-    conflictingConstraints,
-    missingConstraints: 0,
-  };
-}
+export function solveGearSystem(model: Model, engaged: Iterable<string> = []) {
+  const { variables: vlist, rows } = buildSystemRows(model, engaged);
 
-if (rank < nVars) {
-  // Sistema SUBDETERMINADO
-  return {
-    velocities: {},
-    undetermined: vlist.slice(),
-    ratios: [],
-    isUnderdetermined: true,
-    missingConstraints,
-  };
-}
+  const { A, b } = stack(rows);
+  // QR com pivoteamento de colunas: posto, solução e resíduo numa só fatoração
+  const nVars = vlist.length;
+  const qr = qrSolve(A, b, nVars);
+  const missingConstraints = Math.max(0, nVars - qr.rank);
+
+  if (!isConsistent(A, b, qr)) {
+    // Conjuntos mínimos de restrições em conflito; retirar uma de cada conjunto
+    // restabelece a consistência
+    const groups = conflictGroups(rows, nVars);
+    return {
+      velocities: {},
+      ratios: [],
+      isOverdetermined: true,
+      conflictingConstraints: Math.max(1, groups.length),
+      conflictGroups: groups.map((g) => g.map((k) => rows[k])),
+      missingConstraints: 0,
+    };
+  }
+
+  if (qr.rank < nVars) {
+    // Sistema SUBDETERMINADO: membros com componente no núcleo ainda giram livres;
+    // os demais têm o mesmo valor em qualquer solução (solução parcial)
+    const undetermined = vlist.filter((_, i) => qr.nullSpace.some((z) => Math.abs(z[i]) > NULL_TOL));
+    const free = new Set(undetermined);
+    const velocities: Record<string, number> = Object.fromEntries(
+      vlist.flatMap((v, i) => (free.has(v) ? [] : [[v, qr.x[i]]])),
+    );
+    return {
+      velocities,
+      undetermined,
+      suggestions: closingSuggestions(model, vlist, qr.nullSpace, undetermined),
+      // com mais de uma restrição faltando, cada sugestão é só um passo parcial
+      suggestionsClose: missingConstraints === 1,
+      ratios: ratiosOf(model, velocities),
+      isUnderdetermined: true,
+      missingConstraints,
+    };
+  }
 
-  const sol = leastSquares(A, b);
+  const sol = qr.x;
   const velocities = Object.fromEntries(vlist.map((v, i) => [v, sol[i]]));
+  const ratios = ratiosOf(model, velocities);
+
+  return { variables: vlist, velocities, ratios, debug: { rows } };
+}
 
-  
+// Relações entre velocidades conhecidas (numa solução parcial, só as que têm os dois membros)
+function ratiosOf(model: Model, velocities: Record<string, number>) {
   const ratios = [];
   for (const r of model.ratios || []) {
     const num = velocities[r.num];
     const den = velocities[r.den];
+    if (num == null || den == null) continue;
     ratios.push({ id: r.id, value: Math.abs(den) < 1e-12 ? NaN : num / den });
   }
+  return ratios;
+}
 
-  return { variables: vlist, velocities, ratios, debug: { rows } };
+// Resíduo acima do ruído de arredondamento, relativo à escala de A, x e b
+function isConsistent(A: number[][], b: number[], qr: QRSolution) {
+  const scaleA = Math.hypot(...A.flat());
+  return qr.residual <= 1e-10 * (scaleA * Math.hypot(...qr.x) + Math.hypot(...b)) + 1e-12;
+}
+
+/**
+ * Filtro de eliminação sobre as linhas de restrição (as malhas sozinhas são sempre
+ * consistentes): descarta cada linha cuja retirada mantém o conflito; o que sobra é um
+ * conjunto mínimo. Repete sem a última linha do conjunto até o sistema fechar.
+ */
+function conflictGroups(rows: SystemRow[], nVars: number): number[][] {
+  const meshes = rows.flatMap((r, k) => (r.kind === 'mesh' ? [k] : []));
+  const consistent = (subset: number[]) => {
+    const { A, b } = stack([...meshes, ...subset].map((k) => rows[k]));
+    return isConsistent(A, b, qrSolve(A, b, nVars));
+  };
+  let active = rows.flatMap((r, k) => (r.kind === 'mesh' ? [] : [k]));
+  const groups: number[][] = [];
+  while (active.length > 0 && !consistent(active)) {
+    let core = active;
+    for (const k of active) {
+      const trial = core.filter((x) => x !== k);
+      if (!consistent(trial)) core = trial;
+    }
+    groups.push(core);
+    const drop = core[core.length - 1];
+    active = active.filter((x) => x !== drop);
+  }
+  return groups;
+}
+
+/**
+ * Restrições avulsas que tiram um grau de liberdade: velocidade conhecida num membro
+ * livre, ou acoplamento entre membros de estágios diferentes que o núcleo move com
+ * velocidades distintas. Planetas só entram quando nenhum outro membro está livre.
+ * Só fecham o sistema quando falta uma restrição (`suggestionsClose` no resultado).
+ */
+function closingSuggestions(model: Model, vlist: string[], nullSpace: number[][], free: string[]): ConstraintSuggestion[] {
+  const idx = new Map(vlist.map((v, i) => [v, i]));
+  const planets = new Set(model.elements.filter((e) => e.type === 'planet').map((e) => e.omega));
+  const stageOf = new Map<string, string>();
+  for (const c of model.carriers || []) stageOf.set(c.omega, c.omega);
+  for (const m of model.meshes) {
+    stageOf.set(m.i, m.carrier);
+    stageOf.set(m.j, m.carrier);
+    stageOf.set(m.carrier, m.carrier);
+  }
+
+  const shafts = vlist.filter((v) => !planets.has(v));
+  const freeShafts = free.filter((v) => !planets.has(v));
+  const out: ConstraintSuggestion[] = (freeShafts.length > 0 ? freeShafts : free).map((v) => ({ type: 'known', var: v }));
+
+  let couplings = 0;
+  for (let x = 0; x < shafts.length && couplings < MAX_COUPLING_SUGGESTIONS; x++) {
+    for (let y = x + 1; y < shafts.length && couplings < MAX_COUPLING_SUGGESTIONS; y++) {
+      const a = shafts[x];
+      const b = shafts[y];
+      if (stageOf.get(a) === stageOf.get(b)) continue;
+      const i = idx.get(a)!;
+      const j = idx.get(b)!;
+      if (!nullSpace.some((z) => Math.abs(z[i] - z[j]) > NULL_TOL)) continue;
+      out.push({ type: 'equal', a, b });
+      couplings++;
+    }
+  }
+  return out;
 }
 
 function lookupN(model: Model, omegaId: string) {
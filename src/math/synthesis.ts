@@ -0,0 +1,379 @@
+import { chainDistancesInModules, planetChainCenters } from './adjacency';
+
+// Síntese de números de dentes: procura combinações (Zs, Zp…, Za) dos estágios escolhidos
+// cujas relações ficam dentro da tolerância das relações‑alvo e que podem ser montadas.
+// A estrutura de cada estágio (com/sem solar, nº de planetas da cadeia, com/sem anelar) é
+// a do projeto; só os dentes mudam, sem deslocamento de perfil (x = 0).
+//
+// Numa cadeia Sol–P1…Pn–Anelar os planetas intermediários se cancelam na fórmula de Willis:
+// se nenhum planeta aparece nas velocidades/acoplamentos/relações (`planetsAffectRatio` falso),
+// a relação só depende de (Zs, Za). Então cada estágio é enumerado em CLASSES:
+//   - sem influência dos planetas: uma classe por par (Zs, Za) (1 planeta com solar e anelar:
+//     Za = Zs + 2·Zp); os planetas só são escolhidos depois, o menor conjunto que monta
+//   - com influência: uma classe por conjunto completo de dentes
+// e o espaçamento igual (que só depende de Zs, Za e da paridade da cadeia) filtra as classes.
+//
+//   1) classes por estágio, agrupadas pela relação Za/Zs quando só ela pesa nas relações
+//      (classes do grupo dão as mesmas relações: uma avaliação por grupo)
+//   2) combinações de grupos entre os estágios; erro = maior erro relativo entre os alvos.
+//      Todas, se couberem em `maxEvaluations`; senão grade grossa sobre os grupos em ordem
+//      de relação e subida de encosta a partir das melhores sementes (como na escada)
+//   3) só nas combinações dentro da tolerância: as menores classes de cada grupo cujos
+//      planetas passam em `assembles`, cabem dentro da anelar e passam em `clears`
+//
+// `budget` limita as verificações e `maxEvaluations` as relações calculadas; ao estourar
+// qualquer um deles, `truncated` = true (estreitar as faixas cobre o resto).
+
+export type ToothRange = { min: number; max: number };
+
+export type SynthesisStage = {
+  id: number;
+  solarZ: number | null;
+  planetsZ: number[];
+  annulusZ: number | null;
+  planetCopies?: number;
+};
+
+export interface SynthesisOptions {
+  stageIds: number[];            // estágios cujos dentes podem mudar
+  targets: number[];             // relações‑alvo (uma por relação devolvida em `ratios`)
+  tolerance: number;             // erro relativo máximo (0.01 = 1 %)
+  sun: ToothRange;
+  planet: ToothRange;
+  ring: ToothRange;
+  minPinion: number;             // mínimo de dentes do solar e dos planetas
+  copies: number;                // cópias de planeta em órbita
+  planetsAffectRatio?: boolean;
+  budget?: number;
+  maxEvaluations?: number;
+  maxCandidates?: number;
+}
+
+export interface ToothHooks<T extends SynthesisStage> {
+  spaced: (st: T) => boolean;          // espaçamento igual das cópias
+  assembles: (st: T) => boolean;       // regras de engrenamento (validarMontagem)
+  clears: (st: T) => boolean;          // folga entre vizinhos
+  profile: (st: T) => { alphaRad: number; moduleMm: number };
+}
+
+export interface SynthesisHooks<T extends SynthesisStage> extends ToothHooks<T> {
+  ratios: (stages: T[]) => (number | null)[];
+}
+
+export type SynthesisCandidate<T extends SynthesisStage> = {
+  stages: T[];                   // projeto completo com os estágios trocados
+  ratios: number[];
+  error: number;                 // maior erro relativo
+  sizeMm: number;                // maior diâmetro envolvente entre os estágios trocados
+  teeth: number;                 // soma dos dentes dos estágios trocados (desempate)
+};
+
+export type SynthesisResult<T extends SynthesisStage> = {
+  candidates: SynthesisCandidate<T>[];
+  evaluated: number;             // relações calculadas
+  truncated: boolean;
+};
+
+const DEFAULT_BUDGET = 200000;
+const DEFAULT_MAX_EVALUATIONS = 20000;
+const DEFAULT_MAX_CANDIDATES = 500;
+const SEEDS = 6;
+
+/** Diâmetro envolvente do estágio em MÓDULOS (pé da anelar ou cabeça do planeta mais afastado). */
+export function stageEnvelope(st: SynthesisStage, alphaRad: number) {
+  if (st.annulusZ != null) return st.annulusZ + 2.5;
+  let r = st.solarZ != null ? st.solarZ / 2 + 1 : 0;
+  const centers = planetChainCenters(chainDistancesInModules(st, alphaRad));
+  centers.forEach(([x, y], k) => { r = Math.max(r, Math.hypot(x, y) + st.planetsZ[k] / 2 + 1); });
+  return 2 * r;
+}
+
+/** Planetas que não engrenam com a anelar precisam caber dentro dela (cabeça até a cabeça da anelar). */
+export function planetsInsideRing(st: SynthesisStage, alphaRad: number) {
+  if (st.annulusZ == null) return true;
+  const rTip = st.annulusZ / 2 - 1;
+  const last = st.planetsZ.length - 1;
+  const centers = planetChainCenters(chainDistancesInModules(st, alphaRad));
+  return centers.every(([x, y], k) => k === last || Math.hypot(x, y) + st.planetsZ[k] / 2 + 1 <= rTip + 1e-9);
+}
+
+const relError = (value: number, target: number) =>
+  Math.abs(target) > 1e-12 ? Math.abs(value - target) / Math.abs(target) : Math.abs(value);
+
+// Erros relativos que diferem só por arredondamento (36/18/72 × 38/19/76) empatam;
+// arredondar a 1e‑12 mantém a comparação transitiva e deixa o desempate por tamanho/dentes
+const ERROR_QUANTUM = 1e-12;
+export const compareErrors = (a: number, b: number) => Math.round(a / ERROR_QUANTUM) - Math.round(b / ERROR_QUANTUM);
+
+const stageTeeth = (st: SynthesisStage) =>
+  (st.solarZ ?? 0) + st.planetsZ.reduce((a, b) => a + b, 0) + (st.annulusZ ?? 0);
+
+function range(lo: number, hi: number) {
+  const out: number[] = [];
+  for (let z = Math.ceil(lo); z <= Math.floor(hi); z++) out.push(z);
+  return out;
+}
+
+/** Vetores de planetas em ordem crescente (quem consome pode parar a qualquer momento). */
+function* planetSets(n: number, zs: number[]): Generator<number[], void, void> {
+  if (n === 0) { yield []; return; }
+  for (const z of zs) for (const rest of planetSets(n - 1, zs)) yield [z, ...rest];
+}
+
+// Candidatos de dentes examinados entre duas cessões de toothClasses().classesOf
+const CLASS_YIELD_EVERY = 64;
+
+// `ratioKey`: Za/Zs quando as relações do estágio só dependem dela (planetas fora das
+// relações, ou 1 planeta determinado por Zs e Za); classes com a mesma chave dão as mesmas relações
+export type StageClass<T> = { proto: T; size: number; ratioKey?: number; member: () => T | null };
+
+export type ToothSearchOptions = Pick<
+  SynthesisOptions,
+  'sun' | 'planet' | 'ring' | 'minPinion' | 'copies' | 'planetsAffectRatio' | 'budget'
+>;
+
+/**
+ * Gerador das classes de dentes de cada estágio (passo 1), com o orçamento de verificações
+ * compartilhado entre os estágios; `status.truncated` marca o estouro. `classesOf` também
+ * é gerador: cede a cada CLASS_YIELD_EVERY candidatos (use com `yield*`).
+ */
+export function toothClasses<T extends SynthesisStage>(o: ToothSearchOptions, hooks: ToothHooks<T>) {
+  const budget = o.budget ?? DEFAULT_BUDGET;
+  const planetZs = range(Math.max(o.planet.min, o.minPinion), o.planet.max);
+  const status = { checks: 0, truncated: false };
+  const spend = () => {
+    if (status.checks >= budget) { status.truncated = true; return false; }
+    status.checks++;
+    return true;
+  };
+  const sizeMm = (st: T) => {
+    const p = hooks.profile(st);
+    return stageEnvelope(st, p.alphaRad) * p.moduleMm;
+  };
+  const make = (tpl: T, solarZ: number | null, planetsZ: number[], annulusZ: number | null) =>
+    ({ ...tpl, solarZ, planetsZ, annulusZ, planetCopies: o.copies }) as T;
+
+  function* classesOf(tpl: T): Generator<void, StageClass<T>[], void> {
+    const n = tpl.planetsZ.length;
+    const suns = tpl.solarZ != null ? range(Math.max(o.sun.min, o.minPinion), o.sun.max) : [null];
+    const rings = tpl.annulusZ != null ? range(o.ring.min, o.ring.max) : [null];
+    const out: StageClass<T>[] = [];
+    const push = (proto: T, member: () => T | null, ratioKey?: number) => out.push({ proto, size: sizeMm(proto), ratioKey, member });
+    const fits = (st: T) =>
+      spend() && hooks.assembles(st) && planetsInsideRing(st, hooks.profile(st).alphaRad) && spend() && hooks.clears(st);
+    let seen = 0;
+    const due = () => ++seen % CLASS_YIELD_EVERY === 0;
+
+    // 1 planeta entre solar e anelar: o planeta é determinado por (Zs, Za)
+    const derived = tpl.solarZ != null && tpl.annulusZ != null && n === 1;
+
+    if (o.planetsAffectRatio && !derived) {
+      for (const zs of suns) for (const za of rings) {
+        for (const planets of planetSets(n, planetZs)) {
+          if (!spend()) return out;
+          const st = make(tpl, zs, planets, za);
+          if (hooks.spaced(st) && hooks.assembles(st) && planetsInsideRing(st, hooks.profile(st).alphaRad)) {
+            push(st, () => (spend() && hooks.clears(st) ? st : null));
+          }
+          if (due()) yield;
+        }
+      }
+      return out;
+    }
+
+    for (const zs of suns) for (const za of rings) {
+      if (due()) yield;
+      const ratioKey = zs != null && za != null ? za / zs : undefined;
+      if (derived) {
+        const zp = (za! - zs!) / 2;
+        if (!Number.isInteger(zp) || !planetZs.includes(zp)) continue;
+        const st = make(tpl, zs, [zp], za);
+        if (hooks.spaced(st)) push(st, () => (fits(st) ? st : null), ratioKey);
+        continue;
+      }
+      if (za != null && n > 0 && za <= planetZs[0]) continue;
+      const proto = make(tpl, zs, new Array(n).fill(planetZs[0] ?? 0), za);
+      if (!hooks.spaced(proto)) continue;
+      let memo: T | null | undefined;
+      push(proto, () => {
+        if (memo !== undefined) return memo;
+        memo = null;
+        for (const planets of planetSets(n, planetZs)) {
+          const st = make(tpl, zs, planets, za);
+          if (fits(st)) return (memo = st);
+          if (status.checks >= budget) break;
+        }
+        return memo;
+      }, ratioKey);
+    }
+    return out;
+  }
+
+  return { classesOf, sizeMm, status };
+}
+
+/**
+ * Classes de um estágio agrupadas por `ratioKey` (menores primeiro), grupos em ordem de
+ * relação; sem chave, a ordem segue Zs/Zp1 (ou Za/Zp1), para vizinhos terem relações próximas.
+ */
+function ratioGroups<T extends SynthesisStage>(classes: StageClass<T>[]): StageClass<T>[][] {
+  const byKey = new Map<number, StageClass<T>[]>();
+  const out: StageClass<T>[][] = [];
+  for (const c of [...classes].sort((a, b) => a.size - b.size)) {
+    if (c.ratioKey == null) { out.push([c]); continue; }
+    const g = byKey.get(c.ratioKey);
+    if (g) g.push(c);
+    else { const fresh = [c]; byKey.set(c.ratioKey, fresh); out.push(fresh); }
+  }
+  const order = (g: StageClass<T>[]) => {
+    const { ratioKey, proto } = g[0];
+    return ratioKey ?? (proto.solarZ ?? proto.annulusZ ?? 1) / (proto.planetsZ[0] ?? 1);
+  };
+  return out.sort((a, b) => order(a) - order(b));
+}
+
+export function synthesizeTeeth<T extends SynthesisStage>(
+  stages: T[],
+  o: SynthesisOptions,
+  hooks: SynthesisHooks<T>,
+): SynthesisResult<T> {
+  const steps = synthesisSteps(stages, o, hooks);
+  for (;;) {
+    const r = steps.next();
+    if (r.done) return r.value;
+  }
+}
+
+/**
+ * Mesma busca de synthesizeTeeth, como gerador: cede a cada relação calculada para
+ * quem chama poder repartir a busca em fatias (sem travar a interface).
+ */
+export function* synthesisSteps<T extends SynthesisStage>(
+  stages: T[],
+  o: SynthesisOptions,
+  hooks: SynthesisHooks<T>,
+): Generator<void, SynthesisResult<T>, void> {
+  const maxEvaluations = o.maxEvaluations ?? DEFAULT_MAX_EVALUATIONS;
+  const maxCandidates = o.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
+  const varied = stages.filter((st) => o.stageIds.includes(st.id));
+  const { classesOf, sizeMm, status } = toothClasses(o, hooks);
+  let truncated = false;
+
+  // 1) classes de cada estágio, agrupadas por relação (um cálculo de relações por grupo)
+  const groups: StageClass<T>[][][] = [];
+  for (const tpl of varied) groups.push(ratioGroups(yield* classesOf(tpl)));
+  if (groups.length === 0 || groups.some((l) => l.length === 0)) {
+    return { candidates: [], evaluated: 0, truncated: status.truncated };
+  }
+
+  const memo = new Map<string, { ratios: number[]; error: number } | null>();
+  const score = (idx: number[]) => {
+    const key = idx.join(',');
+    if (memo.has(key)) return memo.get(key)!;
+    const protoById = new Map(idx.map((i, k) => [varied[k].id, groups[k][i][0].proto]));
+    const ratios = hooks.ratios(stages.map((st) => protoById.get(st.id) ?? st));
+    const ok = ratios.length === o.targets.length && ratios.every((r) => r != null && Number.isFinite(r));
+    const s = ok ? { ratios: ratios as number[], error: Math.max(...(ratios as number[]).map((r, k) => relError(r, o.targets[k]))) } : null;
+    memo.set(key, s);
+    return s;
+  };
+  const errOf = (idx: number[]) => score(idx)?.error ?? Infinity;
+
+  // 2) combinações de grupos: todas, se couberem em `maxEvaluations`; senão grade grossa
+  //    e subida de encosta por estágio (passo ±s, s cai pela metade), como em synthesizeLadder
+  const total = groups.reduce((acc, l) => acc * l.length, 1);
+  const walk = (lists: number[][], visit: (idx: number[]) => void) => {
+    const pos = new Array(lists.length).fill(0);
+    for (;;) {
+      visit(pos.map((p, k) => lists[k][p]));
+      let k = lists.length - 1;
+      while (k >= 0 && ++pos[k] >= lists[k].length) pos[k--] = 0;
+      if (k < 0) break;
+    }
+  };
+  if (total <= maxEvaluations) {
+    const all: number[][] = [];
+    walk(groups.map((l) => l.map((_, i) => i)), (idx) => all.push(idx));
+    for (const idx of all) { errOf(idx); yield; }
+  } else {
+    const S = Math.max(2, Math.floor((maxEvaluations / 3) ** (1 / groups.length)));
+    const grid = groups.map((l) => [...new Set(Array.from({ length: S }, (_, i) => Math.round((i * (l.length - 1)) / (S - 1))))]);
+    const coarse: number[][] = [];
+    walk(grid, (idx) => coarse.push(idx));
+    for (const idx of coarse) { errOf(idx); yield; }
+    const seeds = coarse
+      .map((idx) => ({ idx, error: errOf(idx) }))
+      .filter((c) => Number.isFinite(c.error))
+      .sort((a, b) => a.error - b.error)
+      .slice(0, SEEDS)
+      .map((c) => c.idx);
+    for (const seed of seeds) {
+      const cur = seed.slice();
+      let step = Math.max(1, Math.ceil(Math.max(...groups.map((l) => l.length)) / S));
+      while (step >= 1 && memo.size < maxEvaluations) {
+        let improved = false;
+        for (let k = 0; k < groups.length; k++) {
+          for (const d of [-step, step]) {
+            const i = cur[k] + d;
+            if (i < 0 || i >= groups[k].length) continue;
+            const trial = cur.slice();
+            trial[k] = i;
+            if (errOf(trial) < errOf(cur)) { cur[k] = i; improved = true; }
+            yield;
+          }
+        }
+        if (!improved) step = step === 1 ? 0 : Math.floor(step / 2);
+      }
+    }
+    truncated = true;            // nem todas as combinações foram vistas
+  }
+
+  // 3) dentro da tolerância: as menores classes de cada grupo que montam (planetas,
+  //    folga entre vizinhos); o produto por combinação cabe em `maxCandidates`
+  const perGroup = Math.max(1, Math.floor(maxCandidates ** (1 / groups.length)));
+  const resolved = new Map<string, T[]>();
+  function* membersOf(k: number, i: number): Generator<void, T[], void> {
+    const key = `${k}:${i}`;
+    let list = resolved.get(key);
+    if (!list) {
+      list = [];
+      for (const c of groups[k][i]) {
+        if (list.length >= perGroup) break;
+        const m = c.member();
+        if (m) list.push(m);
+        yield;
+      }
+      resolved.set(key, list);
+    }
+    return list;
+  }
+  const candidates: SynthesisCandidate<T>[] = [];
+  const within = [...memo.entries()]
+    .filter(([, s]) => s != null && s.error <= o.tolerance)
+    .sort((x, y) => compareErrors(x[1]!.error, y[1]!.error));
+  for (const [key, s] of within) {
+    const idx = key.split(',').map(Number);
+    const lists: T[][] = [];
+    for (let k = 0; k < idx.length; k++) lists.push(yield* membersOf(k, idx[k]));
+    yield;
+    if (lists.some((l) => l.length === 0)) continue;
+    walk(lists.map((l) => l.map((_, i) => i)), (pick) => {
+      const members = pick.map((i, k) => lists[k][i]);
+      const byId = new Map(members.map((m) => [m.id, m]));
+      candidates.push({
+        stages: stages.map((st) => byId.get(st.id) ?? st),
+        ratios: s!.ratios,
+        error: s!.error,
+        sizeMm: Math.max(...members.map((m) => sizeMm(m))),
+        teeth: members.reduce((acc, m) => acc + stageTeeth(m), 0),
+      });
+    });
+  }
+
+  candidates.sort((a, b) => compareErrors(a.error, b.error) || a.sizeMm - b.sizeMm || a.teeth - b.teeth);
+  if (candidates.length > maxCandidates) {
+    truncated = true;
+    candidates.length = maxCandidates;
+  }
+  return { candidates, evaluated: memo.size, truncated: truncated || status.truncated };
+}
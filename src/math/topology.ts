@@ -1,4 +1,6 @@
 import type { Model } from './types';
+import { hasProfileShift, ringShiftForCenterDistance, stageMeshes, type StageShift } from './gearGeometry';
+import type { VizinhancaInfo } from './adjacency';
 
 // Convenções:
 // - Conta o menor caminho (por carrier) entre qualquer SOLAR e qualquer ANNULUS.
@@ -27,6 +29,7 @@ export interface TopologyResult {
 // --- Tipos simples para retorno
 export type MontagemTipo = "reto" | "curvo" | "aberta" | "impossivel";
 export type MontagemStatus = { tipo: MontagemTipo; valido: boolean; mensagem: string; mensagem_en?: string;
+  vizinhanca?: VizinhancaInfo; // folga entre cópias vizinhas (preenchida por verificarVizinhanca)
 };
 
 /**
@@ -38,12 +41,19 @@ export type MontagemStatus = { tipo: MontagemTipo; valido: boolean; mensagem: st
  *      • Na <  limite → braço CURVO
  *  - Sem anelar: retorna "aberta" (válida)
  *  - 3+ planetas: generalização Na <= Ns + 2*∑Np  (<= → curvo, == → reto)
+ *  - Com deslocamento de perfil (x ≠ 0): as mesmas regras valem para as distâncias
+ *    entre centros de operação a' (involuta), e não mais para a contagem de dentes:
+ *      • 1 planeta: a'(S–P) = a'(P–A)
+ *      • 2+ planetas: a'(Pn–A) <= a'(S–P1) + ∑ a'(Pk–Pk+1)
+ *  - O ângulo de pressão e o módulo são os do próprio estágio (`perfil`); sem
+ *    deslocamento, o módulo se cancela e valem as regras por contagem de dentes.
  */
 export function validarMontagem(
   Ns: number | null | undefined,          // dentes do solar
   Np: number[],        // dentes dos planetas (na ordem da cadeia)
   Na?: number | null,   // dentes do anelar (se houver)
   planetCopies: number = 1, // nº de planetas em órbita (cópias visuais)
+  perfil?: StageShift & { alphaRad?: number; moduleMm?: number }, // x por engrenagem + perfil do estágio
 ): MontagemStatus {
 
   if ((Ns != null) && (Na != null) && Np.length === 0) {
@@ -94,6 +104,10 @@ export function validarMontagem(
     return { tipo: "aberta", valido: true, mensagem: "Sem solar (estágio aberto para acoplamentos).", mensagem_en: "No sun gear (stage open for couplings)." };
   }
 
+  if (perfil && hasProfileShift(perfil)) {
+    return validarComDeslocamento(Ns, Np, Na, perfil, perfil.alphaRad ?? (20 * Math.PI) / 180, perfil.moduleMm);
+  }
+
   // 1 planeta → igualdade estrita
   if (Np.length === 1) {
     const esperado = Ns + 2 * Np[0];
@@ -158,6 +172,58 @@ if (Np.length === 2) {
   };
 }
 
+const TOL_DISTANCIA = 1e-3; // módulos
+
+function validarComDeslocamento(Ns: number, Np: number[], Na: number, x: StageShift, alpha: number, moduleMm?: number): MontagemStatus {
+  const malhas = stageMeshes({ solarZ: Ns, planetsZ: Np, annulusZ: Na, ...x }, alpha);
+  if (malhas.some((m) => !Number.isFinite(m.centerDistance))) {
+    return {
+      tipo: "impossivel",
+      valido: false,
+      mensagem: "Montagem impossível: deslocamentos de perfil sem ângulo de pressão de operação válido (ou anelar menor que o planeta).",
+      mensagem_en: "Impossible assembly: profile shifts give no valid operating pressure angle (or the ring is smaller than the planet).",
+    };
+  }
+  const anel = malhas[malhas.length - 1].centerDistance;
+  const cadeia = malhas.slice(0, -1).reduce((acc, m) => acc + m.centerDistance, 0);
+  const f = (v: number) => (moduleMm != null && moduleMm > 0 ? `${(v * moduleMm).toFixed(3)} mm` : `${v.toFixed(3)}·m`);
+
+  if (Np.length === 1) {
+    if (Math.abs(anel - cadeia) > TOL_DISTANCIA) {
+      const xa = ringShiftForCenterDistance(Np[0], x.planetsX?.[0] ?? 0, Na, alpha, cadeia);
+      const dica = Number.isFinite(xa) ? ` (xₐ ≈ ${xa.toFixed(3)})` : "";
+      return {
+        tipo: "impossivel",
+        valido: false,
+        mensagem: `Montagem impossível: com deslocamento, é obrigatório a'(S–P) = a'(P–A); atual ${f(cadeia)} ≠ ${f(anel)}${dica}.`,
+        mensagem_en: `Impossible assembly: with profile shift, a'(S–P) = a'(P–A) is mandatory; currently ${f(cadeia)} ≠ ${f(anel)}${dica}.`,
+      };
+    }
+    return {
+      tipo: "reto",
+      valido: true,
+      mensagem: `Braço reto: a'(S–P) = a'(P–A) = ${f(anel)}.`,
+      mensagem_en: `Straight carrier: a'(S–P) = a'(P–A) = ${f(anel)}.`,
+    };
+  }
+
+  if (anel > cadeia + TOL_DISTANCIA) {
+    return {
+      tipo: "impossivel",
+      valido: false,
+      mensagem: `Montagem impossível: a'(P${Np.length}–A) = ${f(anel)} maior que a cadeia Sol→P${Np.length} = ${f(cadeia)}.`,
+      mensagem_en: `Impossible assembly: a'(P${Np.length}–R) = ${f(anel)} exceeds the chain Sun→P${Np.length} = ${f(cadeia)}.`,
+    };
+  }
+  const tipo: MontagemTipo = Math.abs(anel - cadeia) <= TOL_DISTANCIA ? "reto" : "curvo";
+  return {
+    tipo,
+    valido: true,
+    mensagem: `a'(P${Np.length}–A) = ${f(anel)}, cadeia Sol→P${Np.length} = ${f(cadeia)}.`,
+    mensagem_en: `a'(P${Np.length}–R) = ${f(anel)}, chain Sun→P${Np.length} = ${f(cadeia)}.`,
+  };
+}
+
 
 export function analisarTopologia(model: Model): TopologyResult {
   const elByOmega: Record<string, any> = {};
@@ -0,0 +1,199 @@
+import type { Model } from './types';
+import { buildSystemRows } from './solver';
+import { leastSquares, matVec } from '../lib/numeric';
+
+// Análise estática de torques sobre o mesmo Model do solver cinemático
+// (sem perdas, a menos que meshFactors seja informado).
+//
+// Balanço de potência virtual: para qualquer movimento admissível δω (A·δω = 0)
+// a soma dos torques externos realiza potência nula, logo T_ext = -Aᵀ·λ.
+// Cada linha de A ganha um multiplicador:
+//   - mesh(i,j|b):  λ é a força de contato (por unidade de módulo/2). O torque que a
+//                   malha aplica em i, j e no braço é o próprio coeficiente de Willis × λ
+//                   (Ni·λ, σ·Nj·λ, -(Ni+σ·Nj)·λ) — soma zero, como deve ser.
+//   - equal(a=b):   torque transmitido pelo eixo que acopla a e b.
+//   - known/lock:   reação do apoio (freio, motor auxiliar) sobre o membro.
+// A linha "known" da entrada é substituída pelo torque de entrada informado e a
+// saída recebe uma incógnita de carga (se ainda não tiver velocidade imposta).
+
+export const RPM_TO_RAD = (2 * Math.PI) / 60;
+const RESIDUAL_TOL = 1e-6;
+
+export type TorqueRole = 'input' | 'output' | 'reaction' | 'free' | 'planet';
+
+export interface MemberTorque {
+  omega: string;
+  speed: number;   // rpm
+  torque: number;  // N·m — torque que o membro entrega às suas malhas (planetas: torque no dente)
+  power: number;   // W — torque × ω; + entra no trem, − sai do trem (planetas: 0)
+  role: TorqueRole;
+}
+
+export interface MeshTorque {
+  tag: string;
+  i: string;
+  j: string;
+  carrier: string;
+  torqueI: number;
+  torqueJ: number;
+  torqueCarrier: number;
+}
+
+export interface CouplingTorque {
+  a: string;
+  b: string;
+  torque: number;  // N·m aplicado em a pelo eixo (em b atua -torque)
+  power: number;   // W — potência que o eixo leva de b para a
+}
+
+export type TorqueResult =
+  | {
+      valido: true;
+      members: MemberTorque[];
+      meshes: MeshTorque[];
+      couplings: CouplingTorque[];
+      powerIn: number;   // W — soma das fontes (entrada e apoios que fornecem potência)
+      powerOut: number;  // W (positivo quando a saída entrega potência)
+      balance: number;   // W — soma das potências externas (≈ 0)
+    }
+  | { valido: false; mensagem: string; mensagem_en: string };
+
+export interface TorqueOptions {
+  input: string;        // omega da entrada (ex.: "omega_s1")
+  output: string;       // omega da saída
+  inputTorque: number;  // N·m aplicados na entrada
+  // Fator sobre o torque do lado j de cada malha (mesma ordem de model.meshes).
+  // 1 = sem perdas; η ou 1/η conforme o sentido do fluxo (ver efficiency.ts).
+  meshFactors?: number[];
+  engaged?: string[];   // elementos de troca acionados (mesmo estado usado em solveGearSystem)
+}
+
+/**
+ * Resolve os torques de todos os membros a partir do torque de entrada e das
+ * velocidades já calculadas por solveGearSystem. Os totais dos planetas somam
+ * todas as cópias em órbita (o Model não distingue cópias).
+ */
+export function solveTorques(
+  model: Model,
+  velocities: Record<string, number>,
+  opts: TorqueOptions,
+): TorqueResult {
+  const { input, output, inputTorque, meshFactors, engaged } = opts;
+  if (!input || !output || input === output) {
+    return {
+      valido: false,
+      mensagem: 'Escolha entrada e saída diferentes para calcular os torques.',
+      mensagem_en: 'Choose different input and output members to compute torques.',
+    };
+  }
+
+  const { variables, index, rows } = buildSystemRows(model, engaged);
+  if (index[input] == null || index[output] == null) {
+    return {
+      valido: false,
+      mensagem: 'Entrada ou saída não pertence ao modelo.',
+      mensagem_en: 'Input or output is not part of the model.',
+    };
+  }
+
+  const isSpeedRow = (kind: string) => kind === 'known' || kind === 'lock';
+  const rowVar = (A: number[]) => variables[A.findIndex((x) => x !== 0)];
+
+  // Colunas do sistema de equilíbrio: todas as linhas exceto a velocidade imposta na entrada.
+  // Com perdas, a malha deixa de ser a transposta exata de Willis: o lado j é
+  // escalado e o braço fecha o equilíbrio da malha.
+  let meshCount = 0;
+  const cols: { A: number[]; kind: string; tag: string }[] = rows
+    .filter((r) => !(isSpeedRow(r.kind) && rowVar(r.A) === input))
+    .map((r) => {
+      if (r.kind !== 'mesh') return r;
+      const m = model.meshes[meshCount];
+      const k = meshFactors?.[meshCount++] ?? 1;
+      if (k === 1) return r;
+      const A = r.A.slice();
+      A[index[m.j]] *= k;
+      A[index[m.carrier]] = -(A[index[m.i]] + A[index[m.j]]);
+      return { ...r, A };
+    });
+  const outputHasSpeed = cols.some((r) => isSpeedRow(r.kind) && rowVar(r.A) === output);
+  if (!outputHasSpeed) {
+    const e = new Array(variables.length).fill(0);
+    e[index[output]] = 1;
+    cols.push({ A: e, kind: 'load', tag: `load(${output})` });
+  }
+
+  // Σ_c A_c[v]·x_c + T_in·e_in = 0 para cada membro v
+  const M = variables.map((_, v) => cols.map((c) => c.A[v]));
+  const rhs = variables.map((v) => (v === input ? -inputTorque : 0));
+  const x = leastSquares(M, rhs, cols.length);
+
+  const residual = matVec(M, x).reduce((s, val, k) => Math.max(s, Math.abs(val - rhs[k])), 0);
+  if (!x.every(Number.isFinite) || residual > RESIDUAL_TOL * Math.max(1, Math.abs(inputTorque))) {
+    return {
+      valido: false,
+      mensagem: 'Equilíbrio estático impossível: algum membro livre precisaria transmitir torque (faltam apoios ou a saída não está ligada à entrada).',
+      mensagem_en: 'Static equilibrium impossible: a free member would have to carry torque (missing reactions or the output is not connected to the input).',
+    };
+  }
+
+  const meshPart = new Array(variables.length).fill(0);
+  const applied = new Array(variables.length).fill(0);
+  applied[index[input]] += inputTorque;
+
+  const meshes: MeshTorque[] = [];
+  const couplings: CouplingTorque[] = [];
+  let meshIdx = 0;
+  cols.forEach((c, k) => {
+    if (c.kind === 'mesh') {
+      for (let v = 0; v < variables.length; v++) meshPart[v] += c.A[v] * x[k];
+      const m = model.meshes[meshIdx++];
+      meshes.push({
+        tag: c.tag,
+        i: m.i,
+        j: m.j,
+        carrier: m.carrier,
+        torqueI: c.A[index[m.i]] * x[k],
+        torqueJ: c.A[index[m.j]] * x[k],
+        torqueCarrier: c.A[index[m.carrier]] * x[k],
+      });
+    } else if (c.kind === 'equal') {
+      const a = variables[c.A.findIndex((v) => v > 0)];
+      const b = variables[c.A.findIndex((v) => v < 0)];
+      couplings.push({ a, b, torque: clean(x[k]), power: clean(x[k] * (velocities[a] ?? 0) * RPM_TO_RAD) });
+    } else {
+      applied[index[rowVar(c.A)]] += x[k];
+    }
+  });
+
+  const typeByOmega = new Map(model.elements.map((e) => [e.omega, e.type]));
+  const members: MemberTorque[] = variables.map((v, k) => {
+    const speed = velocities[v] ?? 0;
+    if (typeByOmega.get(v) === 'planet') {
+      // torque no dente da primeira malha em que o planeta aparece (sol ou planeta anterior)
+      const first = meshes.find((m) => m.i === v || m.j === v);
+      const torque = first ? (first.i === v ? first.torqueI : first.torqueJ) : 0;
+      return { omega: v, speed, torque: clean(torque), power: 0, role: 'planet' };
+    }
+    const torque = clean(-meshPart[k]);
+    const role: TorqueRole =
+      v === input ? 'input'
+      : v === output ? 'output'
+      : Math.abs(applied[k]) > RESIDUAL_TOL ? 'reaction'
+      : 'free';
+    return { omega: v, speed, torque, power: clean(torque * speed * RPM_TO_RAD), role };
+  });
+
+  // Potência fornecida: entrada + apoios com velocidade imposta que também entregam potência
+  const powerIn = variables.reduce((s, v, k) => {
+    if (v === output) return s;
+    return s + Math.max(0, applied[k] * (velocities[v] ?? 0) * RPM_TO_RAD);
+  }, 0);
+  const powerOut = -applied[index[output]] * (velocities[output] ?? 0) * RPM_TO_RAD;
+  const balance = variables.reduce((s, v, k) => s + applied[k] * (velocities[v] ?? 0) * RPM_TO_RAD, 0);
+
+  return { valido: true, members, meshes, couplings, powerIn: clean(powerIn), powerOut: clean(powerOut), balance: clean(balance) };
+}
+
+function clean(x: number) {
+  return Math.abs(x) < 1e-9 ? 0 : x;
+}
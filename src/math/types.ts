@@ -11,6 +11,7 @@ export interface Mesh {
   carrier: string;     // omega do braço (carrier) dessa malha
   type?: 'external' | 'internal'; // preferível
   sigma?: number;      // compatibilidade (se usar): +1 externo, -1 interno
+  efficiency?: number; // rendimento da malha (0–1); se ausente usa o padrão externo/interno
 }
 
 export interface Constraint {
@@ -19,6 +20,16 @@ export interface Constraint {
   a?: string;          // para equal
   b?: string;          // para equal
   value?: number;      // para known
+  source?: string;     // elemento de troca que gerou a restrição (se houver)
+}
+
+// Elemento de troca nomeado (ex.: "C1", "B2"): embreagem liga dois membros,
+// freio liga um membro à carcaça. Só vira restrição quando está acionado.
+export interface ShiftElement {
+  id: string;
+  type: 'clutch' | 'brake';
+  a: string;           // omega do membro
+  b?: string;          // omega do segundo membro (só embreagem)
 }
 
 export interface Ratio {
@@ -33,4 +44,5 @@ export interface Model {
   meshes: Mesh[];
   constraints?: Constraint[];
   ratios?: Ratio[];
+  shiftElements?: ShiftElement[];
 }
@@ -4,6 +4,14 @@ import { Canvas, useFrame, useThree } from "@react-three/fiber";
 import { OrbitControls, Html } from "@react-three/drei";
 import { Vector3 } from "three";
 import { computeStagePhasing } from "./phasing";
+import { externalMesh, hasProfileShift, internalMesh } from "../math/gearGeometry";
+import { planetChainCenters } from "../math/adjacency";
+import { applyHelixTwist, makeInvoluteGearGeometry, makeInvoluteInternalGeometry, stageHelixAngles } from "./involute";
+import { buildPartGeometry, type ExportGearSpec, type ExportProfile } from "./exportParts";
+import { assemblyToGLB, type AnimatedStage } from "./gltfExport";
+import { solidsToSTL } from "./stl";
+import { gearOutlines, layersBounds, outlinesToDXF, outlinesToSVG, translateLayers, type OutlineLayer } from "./profile2d";
+import { downloadBlob } from "../lib/download";
 import { strings, type Lang } from "../ui/i18n";
 import { DesignTree, type TreeStage } from "../ui/DesignTree";
 
@@ -43,6 +51,23 @@ type UIStageIn = {
   annulusZ: number | null;
   lastSolarZ?: number;
   planetCopies?: number;
+  solarX?: number;
+  planetsX?: number[];
+  annulusX?: number;
+  module?: number;
+  pressureAngleDeg?: number;
+  widthMm?: number;
+  helixDeg?: number;
+};
+
+// Perfil efetivo de um estágio; `scale` = módulo do estágio / módulo global (escala real relativa)
+type StageProfile = {
+  moduleMm: number;
+  pressureAngleRad: number;
+  widthMm: number;
+  helixRad: number;
+  scale: number;
+  gearProfile: GearProfile;
 };
 
 type GearItem =
@@ -68,6 +93,9 @@ const COLORS = {
   text:   "#e5e7eb",
 };
 const PLANET_COLOR_SEQUENCE = [COLORS.planet, "#f97316", "#a855f7"];
+// Destaque (emissivo) das engrenagens acusadas no diagnóstico de engrenamento
+const HIGHLIGHT_COLORS = { error: "#ef4444", warning: "#f59e0b" } as const;
+const HIGHLIGHT_INTENSITY = 0.55;
 
 function getPlanetColorByIndex(idx: number) {
   if (PLANET_COLOR_SEQUENCE.length === 0) return COLORS.planet;
@@ -98,6 +126,8 @@ const BODY_CLEAR = 0.985;
 const DEBUG_PHASING = false;
 const PHASE_ORIENT = -Math.PI / 2;  // -90°: leva o “0” da geometria (eixo +Y) para o eixo +X
 const CARRIER_COLOR = "#e4e4e4";
+// Membro sem velocidade determinada (sistema subdeterminado): cinza e parado
+const FREE_COLOR = "#6b7280";
 const BASE_CAM_DIR = new Vector3(-2, 0, 1.65);
 const BASE_CAM_DIST_FACTOR = BASE_CAM_DIR.length();
 
@@ -111,162 +141,13 @@ function radToDeg(x?: number): string {
 }
 
 
-function radiusFromZ(z: number | null): number {
-  return Math.max(2, (z ?? 0) * PX_PER_TOOTH);
-}
-
-// ===== Engrenagem involuta EXTERNA (adaptado de Leemon Baird) =====
-
-// helpers (equivalentes ao script que você mandou)
-function polar(r: number, theta: number): [number, number] {
-  return [r * Math.sin(theta), r * Math.cos(theta)];
-}
-function iang(r1: number, r2: number) {
-  return Math.sqrt((r2 / r1) * (r2 / r1) - 1) - Math.acos(r1 / r2);
-}
-function q6(b: number, s: number, t: number, d: number) {
-  return polar(d, s * (iang(b, d) + t));
-}
-function q7(f: number, r: number, b: number, r2: number, t: number, s: number) {
-  return q6(b, s, t, (1 - f) * Math.max(b, r) + f * r2);
-}
-
-// Constrói o POLÍGONO 2D da engrenagem (pontos no sentido CCW).
-// Retorna também o raio de passo "p" (para escalar à sua cena).
-function buildInvolutePolygon(
-  z: number,
-  m: number,
-  pressureAngleRad = 20 * Math.PI / 180,
-  clearance = 0.25 * m,
-  backlash = 0.0,
-  undercut = true
-) {
-  // relação entre o script e módulo: mm_per_tooth = π * m
-  const mm_per_tooth = Math.PI * m;
-
-  // variáveis do script original
-  const p = (mm_per_tooth * z) / (Math.PI * 2); // raio de passo
-  const backlashLinear = Math.max(-mm_per_tooth, Math.min(backlash, mm_per_tooth));
-  const baseAddendum = mm_per_tooth / Math.PI - clearance;
-  const effectiveAddendum = Math.max(0, baseAddendum - backlashLinear);
-  const c = p + effectiveAddendum; // raio externo reduzido pelo backlash
-  const b = p * Math.cos(pressureAngleRad);         // base
-  const r = p - mm_per_tooth / Math.PI;             // raiz original (mantém furo)
-  const halfTooth = mm_per_tooth / 2;
-  const t = Math.max(0, halfTooth - backlashLinear / 2); // espessura no passo
-  const k = -iang(b, p) - t / (2 * p);                   // ângulo onde involuta encontra base
-
-  let angleRootLeft = -Math.PI / z;
-  let angleRootRight = Math.PI / z;
-
-  if (r < b) {
-    if (undercut) {
-      angleRootLeft = k;
-      angleRootRight = -k;
-    } else {
-      const slopeOffset = ((b - r) / b) * Math.tan(pressureAngleRad);
-      angleRootLeft = k - slopeOffset;
-      angleRootRight = -(k - slopeOffset);
-    }
-  }
-
-  // define 1 dente (16 pontos ~ do script)
-  const ptsTooth: [number, number][] = [
-    polar(r, -Math.PI / z),
-    polar(r, r < b ? angleRootLeft : -Math.PI / z),
-
-    q7(0 / 5, r, b, c, k, +1), q7(1 / 5, r, b, c, k, +1), q7(2 / 5, r, b, c, k, +1),
-    q7(3 / 5, r, b, c, k, +1), q7(4 / 5, r, b, c, k, +1), q7(5 / 5, r, b, c, k, +1),
-
-    q7(5 / 5, r, b, c, k, -1), q7(4 / 5, r, b, c, k, -1), q7(3 / 5, r, b, c, k, -1),
-    q7(2 / 5, r, b, c, k, -1), q7(1 / 5, r, b, c, k, -1), q7(0 / 5, r, b, c, k, -1),
-
-    polar(r, r < b ? angleRootRight : Math.PI / z),
-    polar(r, +Math.PI / z),
-  ];
-
-  // replica o dente z vezes por rotação
-  const step = (2 * Math.PI) / z;
-  const all: [number, number][] = [];
-  for (let i = 0; i < z; i++) {
-    const a = -i * step; // sinal igual ao do script
-    const ca = Math.cos(a), sa = Math.sin(a);
-    for (const [x, y] of ptsTooth) {
-      const xr = x * ca - y * sa;
-      const yr = y * ca + x * sa;
-      all.push([xr, yr]);
-    }
-  }
-  return { points: all, pitchRadius: p };
-}
-
-// Torção ao estilo linear_extrude(twist=...) do OpenSCAD: rotação pura ao longo de Z
-function applyHelixTwist(geo: THREE.ExtrudeGeometry, helixAngleRad: number, depth: number, pitchRadius: number) {
-  if (!geo || !Number.isFinite(helixAngleRad) || Math.abs(helixAngleRad) < 1e-6 || depth <= 0 || pitchRadius <= 0) {
-    return geo;
-  }
-  const pos = geo.attributes.position;
-  const centerZ = depth / 2;
-  const twistRate = Math.tan(helixAngleRad) / pitchRadius; // radianos por unidade de Z
-  const vec = new Vector3();
-  for (let i = 0; i < pos.count; i++) {
-    vec.fromBufferAttribute(pos as any, i);
-    const zOffset = vec.z - centerZ;
-    const theta = zOffset * twistRate;
-    const c = Math.cos(theta);
-    const s = Math.sin(theta);
-    const rx = vec.x * c - vec.y * s;
-    const ry = vec.x * s + vec.y * c;
-    (pos as any).setX(i, rx);
-    (pos as any).setY(i, ry);
-  }
-  pos.needsUpdate = true;
-  geo.computeVertexNormals();
-  return geo;
-}
-
-// Gera geometria 3D por extrusão de um único Shape fechado
-function makeInvoluteGearGeometry(
-  z: number,
-  m: number,
-  pressureAngleRad: number,
-  extrudeDepth: number,
-  holeRadius = 0,
-  backlash = 0,
-  undercut = true
-) {
-  const { points, pitchRadius } = buildInvolutePolygon(
-    z,
-    m,
-    pressureAngleRad,
-    0,
-    backlash,
-    undercut
-  );
-  const shape = new THREE.Shape();
-  shape.moveTo(points[0][0], points[0][1]);
-  for (let i = 1; i < points.length; i++) shape.lineTo(points[i][0], points[i][1]);
-  shape.closePath();
-
-  if (holeRadius > 0) {
-    const hole = new THREE.Path();
-    hole.absarc(0, 0, holeRadius, 0, Math.PI * 2, true);
-    shape.holes.push(hole);
-  }
-
-  const geo = new THREE.ExtrudeGeometry(shape, {
-    depth: extrudeDepth,
-    bevelEnabled: false,
-    curveSegments: 10,
-    steps: Math.max(1, Math.round(extrudeDepth * 0.5)),
-  });
-  geo.computeVertexNormals();
-  return { geo, rp: pitchRadius };
+function radiusFromZ(z: number | null, scale = 1): number {
+  return Math.max(2, (z ?? 0) * PX_PER_TOOTH * scale);
 }
 
 // Engrenagem involuta EXTERNA pronta para a cena; escala XY para casar rp -> rVisual
 function Gear3D({
-  teeth, rVisual, color, pos, localOmega, thickness = 1.2, phase = 0, resetOn, holeRadius = 0, helixAngleRad = 0, backlashOverride, opacity = 1,
+  teeth, rVisual, color, pos, localOmega, thickness = 1.2, phase = 0, resetOn, holeRadius = 0, helixAngleRad = 0, backlashOverride, profileShift = 0, opacity = 1, highlight,
 }: {
   teeth: number;
   rVisual: number;
@@ -279,7 +160,9 @@ function Gear3D({
   holeRadius?: number;
   helixAngleRad?: number;
   backlashOverride?: number;
+  profileShift?: number;
   opacity?: number;
+  highlight?: string;   // cor de emissão (diagnóstico de engrenamento)
 }) {
   const { moduleMm, pressureAngleRad, extrudeDepth, backlash, undercut } = useGearProfile();
   const activeBacklash = backlashOverride != null ? backlashOverride : backlash;
@@ -295,12 +178,13 @@ function Gear3D({
         extrudeDepth,
         holeRadiusGeom,
         activeBacklash,
-        undercut
+        undercut,
+        profileShift
       );
       applyHelixTwist(geo as any, helixAngleRad ?? 0, extrudeDepth, rp);
       return { geo, rp };
     },
-    [teeth, moduleMm, pressureAngleRad, extrudeDepth, holeRadiusGeom, helixAngleRad, activeBacklash, undercut]
+    [teeth, moduleMm, pressureAngleRad, extrudeDepth, holeRadiusGeom, helixAngleRad, activeBacklash, undercut, profileShift]
   );
   const meshRef = React.useRef<THREE.Mesh>(null!);
   const sXY = rVisual / rp;
@@ -354,6 +238,8 @@ function Gear3D({
           color={color}
           metalness={0.35}
           roughness={0.45}
+          emissive={highlight ?? "#000000"}
+          emissiveIntensity={highlight ? HIGHLIGHT_INTENSITY : 0}
           transparent={opacity < 1}
           opacity={opacity}
         />
@@ -377,57 +263,194 @@ function Gear3D({
 
 
 
-// ===== Anelar involuta: corpo externo + FURO com contorno de engrenagem EXTERNA =====
-function makeInvoluteInternalGeometry(
-  z: number,
-  m: number,
-  pressureAngleRad: number,
-  extrudeDepth: number,
-  backlash = 0,
-  undercut = true
-) {
-  // 1) Gera o contorno de uma ENGRENAGEM EXTERNA (mesmo z, módulo, ângulo)
-  //    Isso é exatamente o “negativo” que precisamos para o dente interno.
-  const { points: holePts, pitchRadius: rp } =
-    buildInvolutePolygon(z, m, pressureAngleRad, 0, backlash, undercut);
-
-  // 2) Cria o corpo do anel como um círculo externo “grosso”
-  const addendum = 1 * m;
-  const R_OUT = rp + addendum + 3 * m;    // espessura do anel (ajuste à vontade)
-  const OUT_SEG = 128;
-
-  const shape = new THREE.Shape();        // externo CCW
-  shape.moveTo(R_OUT, 0);
-  for (let i = 1; i <= OUT_SEG; i++) {
-    const th = (i / OUT_SEG) * 2 * Math.PI;
-    shape.lineTo(R_OUT * Math.cos(th), R_OUT * Math.sin(th));
-  }
-  shape.closePath();
-
-  // 3) Adiciona o FURO com o contorno da engrenagem externa (revertido → CW)
-  const hole = new THREE.Path();
-  const first = holePts[0];
-  hole.moveTo(first[0], first[1]);
-  for (let i = holePts.length - 1; i >= 0; i--) {
-    hole.lineTo(holePts[i][0], holePts[i][1]);     // ordem reversa = CW
-  }
-  hole.closePath();
-  shape.holes.push(hole);
-
-  // 4) Extrusão
-  const geo = new THREE.ExtrudeGeometry(shape, {
-    depth: extrudeDepth,
-    bevelEnabled: false,
-    curveSegments: 10,
-    steps: Math.max(1, Math.round(extrudeDepth * 0.5)),
+type PlanetInstance = { pos: [number, number, number]; phase: number };
+
+type PlanetInstanceGroup = {
+  idx: number;
+  zEst: number;
+  r: number;
+  wp_local: number;
+  color: string;
+  opacity: number;
+  omegaId: string;
+  instances: PlanetInstance[];
+  tokens: string[];
+};
+
+// Todas as cópias de um planeta num único InstancedMesh: a geometria involuta é gerada
+// uma vez e cada cópia só tem a sua matriz (posição + fase + giro local). O marcador
+// (o mesmo ponto do SpinningDisc) e a bucha do furo seguem as mesmas instâncias.
+function Gear3DInstances({
+  teeth, rVisual, color, instances, localOmega, thickness = 1.2, resetOn, holeRadius = 0, helixAngleRad = 0, backlashOverride, profileShift = 0, opacity = 1, highlight,
+}: {
+  teeth: number;
+  rVisual: number;
+  color: string;
+  instances: PlanetInstance[];
+  localOmega: number;
+  thickness?: number;
+  resetOn?: unknown;
+  holeRadius?: number;
+  helixAngleRad?: number;
+  backlashOverride?: number;
+  profileShift?: number;
+  opacity?: number;
+  highlight?: string;
+}) {
+  const { moduleMm, pressureAngleRad, extrudeDepth, backlash, undercut } = useGearProfile();
+  const activeBacklash = backlashOverride != null ? backlashOverride : backlash;
+  const baseRp = (teeth * moduleMm) / 2;
+  const preScale = rVisual / Math.max(1e-5, baseRp);
+  const holeRadiusGeom = holeRadius > 0 ? holeRadius / preScale : 0;
+  const { geo, rp } = React.useMemo(
+    () => {
+      const { geo, rp } = makeInvoluteGearGeometry(
+        teeth,
+        moduleMm,
+        pressureAngleRad,
+        extrudeDepth,
+        holeRadiusGeom,
+        activeBacklash,
+        undercut,
+        profileShift
+      );
+      applyHelixTwist(geo, helixAngleRad ?? 0, extrudeDepth, rp);
+      return { geo, rp };
+    },
+    [teeth, moduleMm, pressureAngleRad, extrudeDepth, holeRadiusGeom, helixAngleRad, activeBacklash, undercut, profileShift]
+  );
+  const meshRef = React.useRef<THREE.InstancedMesh>(null!);
+  const plugRef = React.useRef<THREE.InstancedMesh>(null!);
+  const dotRef = React.useRef<THREE.InstancedMesh>(null!);
+  const sXY = rVisual / rp;
+  const dotPosR = rVisual * 0.9;
+  const dotZ = thickness * extrudeDepth + DOT_SURFACE_OFFSET;
+  const plugHeight = thickness * extrudeDepth;
+  const count = instances.length;
+
+  const tmp = React.useMemo(
+    () => ({
+      m: new THREE.Matrix4(), q: new THREE.Quaternion(), p: new THREE.Vector3(), s: new THREE.Vector3(),
+      z: new THREE.Vector3(0, 0, 1), one: new THREE.Vector3(1, 1, 1),
+    }),
+    []
+  );
+  const writeMatrices = (angle: number) => {
+    const mesh = meshRef.current;
+    const dots = dotRef.current;
+    if (!mesh) return;
+    tmp.s.set(sXY, sXY, thickness);
+    instances.forEach((inst, i) => {
+      const theta = inst.phase + PHASE_ORIENT + angle;
+      tmp.q.setFromAxisAngle(tmp.z, theta);
+      tmp.m.compose(tmp.p.set(inst.pos[0], inst.pos[1], inst.pos[2]), tmp.q, tmp.s);
+      mesh.setMatrixAt(i, tmp.m);
+      if (dots) {
+        // ponto em (0, dotPosR) no referencial da engrenagem
+        tmp.p.set(inst.pos[0] - dotPosR * Math.sin(theta), inst.pos[1] + dotPosR * Math.cos(theta), inst.pos[2] + dotZ);
+        dots.setMatrixAt(i, tmp.m.compose(tmp.p, tmp.q, tmp.one));
+      }
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    if (dots) dots.instanceMatrix.needsUpdate = true;
+  };
+
+  // bucha do furo: cilindro simétrico, não precisa girar
+  React.useLayoutEffect(() => {
+    const plug = plugRef.current;
+    if (!plug) return;
+    const q = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), Math.PI / 2);
+    const unit = new THREE.Vector3(1, 1, 1);
+    instances.forEach((inst, i) => {
+      tmp.m.compose(tmp.p.set(inst.pos[0], inst.pos[1], inst.pos[2] + plugHeight / 2), q, unit);
+      plug.setMatrixAt(i, tmp.m);
+    });
+    plug.instanceMatrix.needsUpdate = true;
+  }, [instances, plugHeight, tmp]);
+
+  // ângulo absoluto = offset + ω*(t - t0) (mesmo integrador do Gear3D)
+  const start = React.useRef(0);
+  const offset = React.useRef(0);
+  const prevOmega = React.useRef(localOmega);
+  const needsReset = React.useRef(true);
+  const prevKey = React.useRef<unknown>(resetOn);
+
+  React.useEffect(() => {
+    if (resetOn !== prevKey.current) {
+      needsReset.current = true;
+      prevKey.current = resetOn;
+    }
+  }, [resetOn]);
+
+  useFrame((state) => {
+    const t = state.clock.elapsedTime;
+
+    if (needsReset.current) {
+      start.current = t;
+      offset.current = 0;
+      prevOmega.current = localOmega;
+      needsReset.current = false;
+      writeMatrices(0);
+      return;
+    }
+
+    if (localOmega !== prevOmega.current) {
+      offset.current += prevOmega.current * (t - start.current);
+      start.current = t;
+      prevOmega.current = localOmega;
+    }
+
+    writeMatrices(offset.current + prevOmega.current * (t - start.current));
   });
-  geo.computeVertexNormals();
 
-  return { geo, rp };
+  const isVisible = opacity > 0.001;
+
+  return (
+    <group visible={isVisible}>
+      {/* frustumCulled: a esfera de contorno é a da geometria na origem, não a das cópias */}
+      <instancedMesh ref={meshRef} args={[undefined, undefined, count]} frustumCulled={false}>
+        <primitive object={geo} attach="geometry" />
+        <meshStandardMaterial
+          color={color}
+          metalness={0.35}
+          roughness={0.45}
+          emissive={highlight ?? "#000000"}
+          emissiveIntensity={highlight ? HIGHLIGHT_INTENSITY : 0}
+          transparent={opacity < 1}
+          opacity={opacity}
+        />
+      </instancedMesh>
+      {holeRadius > 0 && (
+        <instancedMesh ref={plugRef} args={[undefined, undefined, count]} frustumCulled={false}>
+          <cylinderGeometry args={[holeRadius, holeRadius, plugHeight, 48, 1, true]} />
+          <meshStandardMaterial
+            color={color}
+            metalness={0.35}
+            roughness={0.45}
+            side={THREE.DoubleSide}
+            transparent={opacity < 1}
+            opacity={opacity}
+          />
+        </instancedMesh>
+      )}
+      <instancedMesh ref={dotRef} args={[undefined, undefined, count]} frustumCulled={false}>
+        <circleGeometry args={[DOT_PX, 32]} />
+        <meshBasicMaterial
+          color={color}
+          side={THREE.DoubleSide}
+          polygonOffset
+          polygonOffsetFactor={-1}
+          polygonOffsetUnits={-1}
+          transparent={opacity < 1}
+          opacity={opacity}
+        />
+      </instancedMesh>
+    </group>
+  );
 }
 
 function Gear3DInternal({
-  teeth, rVisual, color, pos, localOmega, thickness = 1.2, phase = 0, resetOn, helixAngleRad = 0, backlashOverride, opacity = 1,
+  teeth, rVisual, color, pos, localOmega, thickness = 1.2, phase = 0, resetOn, helixAngleRad = 0, backlashOverride, profileShift = 0, opacity = 1, highlight,
 }: {
   teeth: number;
   rVisual: number;
@@ -439,7 +462,9 @@ function Gear3DInternal({
   resetOn?: any;
   helixAngleRad?: number;
   backlashOverride?: number;
+  profileShift?: number;
   opacity?: number;
+  highlight?: string;   // cor de emissão (diagnóstico de engrenamento)
 }) {
   const { moduleMm, pressureAngleRad, extrudeDepth, backlash, undercut } = useGearProfile();
   const activeBacklash = backlashOverride != null ? backlashOverride : backlash;
@@ -451,12 +476,13 @@ function Gear3DInternal({
         pressureAngleRad,
         extrudeDepth,
         activeBacklash,
-        undercut
+        undercut,
+        profileShift
       );
       applyHelixTwist(geo as any, helixAngleRad ?? 0, extrudeDepth, rp);
       return { geo, rp };
     },
-    [teeth, moduleMm, pressureAngleRad, extrudeDepth, helixAngleRad, activeBacklash, undercut]
+    [teeth, moduleMm, pressureAngleRad, extrudeDepth, helixAngleRad, activeBacklash, undercut, profileShift]
   );
   const meshRef = React.useRef<THREE.Mesh>(null!);
   const sXY = rVisual / rp;
@@ -509,6 +535,8 @@ function Gear3DInternal({
           color={color}
           metalness={0.4}
           roughness={0.4}
+          emissive={highlight ?? "#000000"}
+          emissiveIntensity={highlight ? HIGHLIGHT_INTENSITY : 0}
           transparent={opacity < 1}
           opacity={opacity}
         />
@@ -525,8 +553,15 @@ function Gear3DInternal({
  * - Planeta1 à direita: x = Rs + Rp1
  * - Planeta_k em “cadeia” à direita: x += Rp_(k-1) + Rp_k
  * - Anelar centrado no (0,0) com raio = x_last + R_last (malha interna)
+ * - Com deslocamento de perfil, as somas de raios viram distâncias de operação a'
  */
-function buildStageLayout(st: UIStageIn, zBase: number, topologyKey?: string): StageLayout {
+function buildStageLayout(
+  st: UIStageIn,
+  zBase: number,
+  topologyKey?: string,
+  pressureAngleRad = DEFAULT_PRESSURE_ANGLE,
+  moduleScale = 1,
+): StageLayout {
   const items: GearItem[] = [];
 
   // Sanitiza valores para evitar NaN durante a digitação (ex.: "1", "1e", vazio)
@@ -538,13 +573,25 @@ function buildStageLayout(st: UIStageIn, zBase: number, topologyKey?: string): S
   const hasRing = annulusZ != null;
 
   // 1) Raios auxiliares (não usa lastSolarZ quando o Sol não existe)
-  const Rs = hasSun ? radiusFromZ(solarZ) : 0;
-  const Ra = hasRing ? radiusFromZ(annulusZ) : 0;
+  const Rs = hasSun ? radiusFromZ(solarZ, moduleScale) : 0;
+  const Ra = hasRing ? radiusFromZ(annulusZ, moduleScale) : 0;
 
-  const planetsR = planetsZ.map(radiusFromZ);
+  const planetsR = planetsZ.map((z) => radiusFromZ(z, moduleScale));
   const ringUsable = hasRing && planetsR.length > 0 && Ra > planetsR[0] * 1.05;
   const MIN_GAP = planetsR.length > 0 ? Math.max(1, planetsR[0] * 0.1) : 1;
 
+  // Distâncias entre centros: soma/diferença dos raios; com deslocamento de perfil,
+  // a distância de operação a' (em módulos → 1 módulo = 2·PX_PER_TOOTH·moduleScale na cena)
+  const shifted = hasProfileShift(st);
+  const xp = (k: number) => st.planetsX?.[k] ?? 0;
+  const operating = (a: number, fallback: number) => (shifted && Number.isFinite(a) ? a * 2 * PX_PER_TOOTH * moduleScale : fallback);
+  const distSunPlanet = () =>
+    operating(externalMesh(solarZ ?? 0, st.solarX ?? 0, planetsZ[0], xp(0), pressureAngleRad).centerDistance, Rs + planetsR[0]);
+  const distPlanets = (k: number) => // planeta k-1 ↔ planeta k
+    operating(externalMesh(planetsZ[k - 1], xp(k - 1), planetsZ[k], xp(k), pressureAngleRad).centerDistance, planetsR[k - 1] + planetsR[k]);
+  const distRing = (k: number) =>
+    operating(internalMesh(planetsZ[k], xp(k), annulusZ ?? 0, st.annulusX ?? 0, pressureAngleRad).centerDistance, Ra - planetsR[k]);
+
   // 2) Solar: só desenha se existir
   if (hasSun) {
     items.push({
@@ -557,98 +604,17 @@ function buildStageLayout(st: UIStageIn, zBase: number, topologyKey?: string): S
     });
   }
 
-  // 3) Planetas base (braço reto/curvo)
-  const positions: [number, number][] = [];
-
-  if (planetsR.length > 0) {
-    const Rp1 = planetsR[0];
-    // Caso especial: sem solar, com anel e planetas em série → alinhar radialmente rumo ao centro
-    if (!hasSun && ringUsable && planetsR.length >= 2) {
-      const n = planetsR.length;
-      const posRadial: [number, number][] = new Array(n) as any;
-      const contactR = Math.max(MIN_GAP, Ra - planetsR[n - 1]);
-      posRadial[n - 1] = [contactR, 0];
-      for (let k = n - 2; k >= 0; k--) {
-        const next = posRadial[k + 1];
-        const step = planetsR[k] + planetsR[k + 1];
-        posRadial[k] = [Math.max(MIN_GAP, next[0] - step), 0];
-      }
-      positions.push(...posRadial);
-    } else {
-      // Com Sol → tangencia o Sol; sem Sol mas com Anel → tangencia o Anel;
-      // se o anel for menor que o planeta, mantém um afastamento mínimo para evitar degeneração.
-      const contactFromRing = Ra - Rp1;
-      const x1 = hasSun
-        ? Rs + Rp1
-        : ringUsable
-          ? Math.max(MIN_GAP, contactFromRing)
-          : Math.max(MIN_GAP, Rp1);
-      positions.push([x1, 0]);
-
-      if (ringUsable && planetsR.length === 2) {
-        // ---- Braço CURVO para exatamente 2 planetas ----
-        const Rp2 = planetsR[1];
-        const Rcirc = Ra - Rp2; // circunferência do centro de P2
-
-        const numer = (x1 * x1) + (Rcirc * Rcirc) - (Rp1 + Rp2) * (Rp1 + Rp2);
-        const denom = 2 * x1 * Rcirc;
-        let cosTheta = numer / (denom !== 0 ? denom : 1e-9);
-        cosTheta = Math.max(-1, Math.min(1, cosTheta));
-        const theta = Math.acos(cosTheta);
-
-        positions.push([Rcirc * Math.cos(theta), Rcirc * Math.sin(theta)]);
-
-      } else if (ringUsable && planetsR.length >= 3) {
-        // ---- Braço CURVO para 3+ planetas ----
-        const rot = (vx: number, vy: number, ang: number): [number, number] => {
-          const c = Math.cos(ang), s = Math.sin(ang);
-          return [vx * c - vy * s, vx * s + vy * c];
-        };
-
-        const finalRadiusFor = (alpha: number): { lastR: number; pts: [number, number][] } => {
-          const pts: [number, number][] = [[x1, 0]];
-          let dir: [number, number] = [1, 0]; // direção inicial +x
-
-          for (let k = 1; k < planetsR.length; k++) {
-            dir = rot(dir[0], dir[1], alpha);
-            const step = planetsR[k - 1] + planetsR[k];
-            const prev = pts[k - 1];
-            pts.push([prev[0] + dir[0] * step, prev[1] + dir[1] * step]);
-          }
-
-          const last = pts[pts.length - 1];
-          const lastR = Math.hypot(last[0], last[1]);
-          return { lastR, pts };
-        };
-
-        const target = Ra - planetsR[planetsR.length - 1];
-        let lo = 0, hi = Math.PI * 0.9;
-        let best = finalRadiusFor(0);
-
-        for (let i = 0; i < 32; i++) {
-          const mid = (lo + hi) / 2;
-          const sim = finalRadiusFor(mid);
-          best = sim;
-          if (sim.lastR > target) {
-            lo = mid;
-          } else {
-            hi = mid;
-          }
-        }
-
-        positions.splice(0, positions.length, ...best.pts);
-
-      } else {
-        // ---- Sem anel ou poucos planetas: braço reto colinear ----
-        for (let k = 1; k < planetsR.length; k++) {
-          const RpPrev = planetsR[k - 1];
-          const RpK = planetsR[k];
-          const prev = positions[k - 1];
-          positions.push([prev[0] + RpPrev + RpK, 0]);
-        }
-      }
-    }
-  }
+  // 3) Planetas base (braço reto/curvo) — mesma cadeia usada na verificação de vizinhança
+  const positions: [number, number][] = planetChainCenters({
+    hasSun,
+    ringUsable,
+    planetCount: planetsR.length,
+    firstRadius: planetsR[0] ?? 0,
+    minGap: MIN_GAP,
+    sunPlanet: distSunPlanet,
+    planets: distPlanets,
+    ring: distRing,
+  });
 
   // 4) Planetas base (1 conjunto)
   positions.forEach((p, k) => {
@@ -664,7 +630,7 @@ function buildStageLayout(st: UIStageIn, zBase: number, topologyKey?: string): S
   });
 
   // 5) Cópias VISUAIS dos planetas segundo o faseamento
-  const copies = Math.max(1, Math.min(5, st.planetCopies ?? 1));
+  const copies = Math.max(1, st.planetCopies ?? 1);
 
   const phasing = computeStagePhasing({
     stageId: st.id,
@@ -702,7 +668,7 @@ function buildStageLayout(st: UIStageIn, zBase: number, topologyKey?: string): S
 
   // 6) Anelar
   if (hasRing && annulusZ != null) {
-    const Ra = radiusFromZ(annulusZ);
+    const Ra = radiusFromZ(annulusZ, moduleScale);
     items.push({
       id: `ring-${st.id}`,
       kind: "ring",
@@ -727,6 +693,7 @@ function buildStageLayout(st: UIStageIn, zBase: number, topologyKey?: string): S
     `solar=${solarZ ?? "null"}`,
     `annulus=${annulusSig}`,
     `planets=${planetsSig}`,
+    `scale=${fmt(moduleScale)}`,
     `copies=${copies}`,
     `positions=${positionsKey}`,
     `items=${itemsKey}`,
@@ -740,6 +707,9 @@ function buildStageLayout(st: UIStageIn, zBase: number, topologyKey?: string): S
   return layout;
 }
 
+// Formatos do painel de exportação: sólidos (STL), perfis 2D para corte (DXF/SVG) ou montagem animada (GLB)
+type ExportFormat = "stl-binary" | "stl-ascii" | "dxf" | "svg" | "glb";
+
 
 // Ajusta câmera/target somente quando resetToken mudar
 function AutoFitCamera({
@@ -816,12 +786,48 @@ function ZoomAdjust({
 }
 
 type CarrierVisualProps = {
-  anchors: Vector3[]; // 0 = centro (sol), demais = planetas
+  anchors: Vector3[]; // 0 = centro (sol), demais = planetas (braço da cópia 0)
+  copyAngles?: number[]; // giro de cada cópia do braço em torno do centro (0 = o próprio braço)
   color?: string;
   opacity?: number;
 };
 
-function CarrierVisual({ anchors, color = CARRIER_COLOR, opacity = 1 }: CarrierVisualProps) {
+// Um elemento do braço repetido em todas as cópias num só InstancedMesh:
+// matriz da cópia = giro em Z pelo ângulo da cópia × posição/rotação no braço base.
+function ArmCopies({
+  angles,
+  position,
+  rotation = [0, 0, 0],
+  children,
+}: {
+  angles: number[];
+  position: [number, number, number];
+  rotation?: [number, number, number];
+  children: React.ReactNode;
+}) {
+  const ref = React.useRef<THREE.InstancedMesh>(null!);
+  const [px, py, pz] = position;
+  const [rx, ry, rz] = rotation;
+  React.useLayoutEffect(() => {
+    const mesh = ref.current;
+    if (!mesh) return;
+    const local = new THREE.Matrix4().compose(
+      new THREE.Vector3(px, py, pz),
+      new THREE.Quaternion().setFromEuler(new THREE.Euler(rx, ry, rz)),
+      new THREE.Vector3(1, 1, 1)
+    );
+    const m = new THREE.Matrix4();
+    angles.forEach((a, i) => mesh.setMatrixAt(i, m.makeRotationZ(a).multiply(local)));
+    mesh.instanceMatrix.needsUpdate = true;
+  }, [angles, px, py, pz, rx, ry, rz]);
+  return (
+    <instancedMesh ref={ref} args={[undefined, undefined, angles.length]} frustumCulled={false}>
+      {children}
+    </instancedMesh>
+  );
+}
+
+function CarrierVisual({ anchors, copyAngles = [0], color = CARRIER_COLOR, opacity = 1 }: CarrierVisualProps) {
   const holeR = GEAR_HOLE_RADIUS;
   const pegR = holeR * 0.8;                // diâmetro do pino = 80% do furo
   // Mantém o "corpo" do braço estável, independente da largura da engrenagem
@@ -873,7 +879,7 @@ function CarrierVisual({ anchors, color = CARRIER_COLOR, opacity = 1 }: CarrierV
     const mid = from.clone().addScaledVector(dirN, startOffset + usable / 2);
     const angleZ = Math.atan2(dir.y, dir.x);
     return (
-      <mesh position={[mid.x, mid.y, mid.z + zAlign]} rotation={[0, 0, angleZ]}>
+      <ArmCopies angles={copyAngles} position={[mid.x, mid.y, mid.z + zAlign]} rotation={[0, 0, angleZ]}>
         <primitive object={geo} />
         <meshStandardMaterial
           color={color}
@@ -882,7 +888,7 @@ function CarrierVisual({ anchors, color = CARRIER_COLOR, opacity = 1 }: CarrierV
           transparent={opacity < 1}
           opacity={opacity}
         />
-      </mesh>
+      </ArmCopies>
     );
   };
 
@@ -951,7 +957,7 @@ function CarrierVisual({ anchors, color = CARRIER_COLOR, opacity = 1 }: CarrierV
         return radii.map((r, idx) => <RingBand key={idx} radius={r} />);
       })()}
 
-      {/* Barras sequenciais + pads + pinos para cada planeta */}
+      {/* Barras sequenciais + pads + pinos para cada planeta (instanciados nas cópias do braço) */}
       {anchors.length >= 2 &&
         anchors.slice(0, -1).map((from, idx) => {
           const to = anchors[idx + 1];
@@ -963,7 +969,7 @@ function CarrierVisual({ anchors, color = CARRIER_COLOR, opacity = 1 }: CarrierV
             <React.Fragment key={idx}>
               {bar}
               {/* pad plano (achatado no plano XY) no destino */}
-          <mesh position={[to.x, to.y, to.z]} rotation={[Math.PI / 2, 0, 0]}>
+          <ArmCopies angles={copyAngles} position={[to.x, to.y, to.z]} rotation={[Math.PI / 2, 0, 0]}>
             <cylinderGeometry args={[padR, padR, plateThickness, 32]} />
             <meshStandardMaterial
               color={color}
@@ -972,9 +978,9 @@ function CarrierVisual({ anchors, color = CARRIER_COLOR, opacity = 1 }: CarrierV
               transparent={opacity < 1}
               opacity={opacity}
             />
-          </mesh>
+          </ArmCopies>
           {/* pino na direção Z, partindo do pad e cobrindo a espessura da engrenagem */}
-          <mesh position={[to.x, to.y, to.z + plateThickness / 2 + gearThickness / 2]} rotation={[Math.PI / 2, 0, 0]}>
+          <ArmCopies angles={copyAngles} position={[to.x, to.y, to.z + plateThickness / 2 + gearThickness / 2]} rotation={[Math.PI / 2, 0, 0]}>
             <cylinderGeometry args={[pegR, pegR, pegLength, 32]} />
             <meshStandardMaterial
               color={color}
@@ -983,7 +989,7 @@ function CarrierVisual({ anchors, color = CARRIER_COLOR, opacity = 1 }: CarrierV
               transparent={opacity < 1}
               opacity={opacity}
             />
-          </mesh>
+          </ArmCopies>
             </React.Fragment>
           );
         })}
@@ -1203,6 +1209,8 @@ export function GearScene({
   backlashPlanetsOnly = false,
   visibilityResetToken = 0,
   phaseResetToken = 0,
+  flaggedGears,
+  freeMembers,
 }: {
   stages: UIStageIn[];
   velocities: Record<string, number> | null;
@@ -1221,6 +1229,8 @@ export function GearScene({
   backlashPlanetsOnly?: boolean;
   visibilityResetToken?: number | string;
   phaseResetToken?: number | string;
+  flaggedGears?: Record<string, "warning" | "error">;   // omega → nível do diagnóstico de engrenamento
+  freeMembers?: string[];   // omegas ainda livres (solução parcial): sem giro próprio, em cinza
 }) {
 
   const safeModuleMm = gearModule && gearModule > 0 ? gearModule : DEFAULT_MODULE_MM;
@@ -1251,9 +1261,31 @@ export function GearScene({
 
   const stageIds = useMemo(() => stages.map((s) => s.id), [stages]);
   const stageMap = useMemo(() => new Map(stages.map((s) => [s.id, s])), [stages]);
-  const gearVisualThickness = DISC_THICK * safeWidth;
-  const stageStepZ = gearVisualThickness + STAGE_GAP_Z;
-  const stageCount = stages.length;
+  const stageProfiles = useMemo(() => {
+    const map = new Map<number, StageProfile>();
+    for (const st of stages) {
+      const moduleMm = st.module != null && st.module > 0 ? st.module : safeModuleMm;
+      const stagePressure = st.pressureAngleDeg != null && Number.isFinite(st.pressureAngleDeg) ? st.pressureAngleDeg * DEG : pressureAngleRad;
+      const widthMm = st.widthMm != null && st.widthMm > 0 ? st.widthMm : safeWidth;
+      const helixRad = st.helixDeg != null && Number.isFinite(st.helixDeg) ? st.helixDeg * DEG : helixAngleRadBase;
+      map.set(st.id, {
+        moduleMm,
+        pressureAngleRad: stagePressure,
+        widthMm,
+        helixRad,
+        scale: moduleMm / safeModuleMm,
+        gearProfile: { ...gearProfile, moduleMm, pressureAngleRad: stagePressure, extrudeDepth: widthMm },
+      });
+    }
+    return map;
+  }, [stages, safeModuleMm, pressureAngleRad, safeWidth, helixAngleRadBase, gearProfile]);
+  const profileFor = React.useCallback(
+    (sid: number): StageProfile =>
+      stageProfiles.get(sid) ?? {
+        moduleMm: safeModuleMm, pressureAngleRad, widthMm: safeWidth, helixRad: helixAngleRadBase, scale: 1, gearProfile,
+      },
+    [stageProfiles, safeModuleMm, pressureAngleRad, safeWidth, helixAngleRadBase, gearProfile]
+  );
   const backlashForKind = React.useCallback(
     (kind: "sun" | "planet" | "ring") => {
       if (planetsOnlyBacklash && kind !== "planet") return 0;
@@ -1262,15 +1294,38 @@ export function GearScene({
     },
     [planetsOnlyBacklash, appliedBacklash]
   );
+  const highlightFor = React.useCallback(
+    (omegaId: string) => {
+      const level = flaggedGears?.[omegaId];
+      return level ? HIGHLIGHT_COLORS[level] : undefined;
+    },
+    [flaggedGears]
+  );
+  const freeSet = React.useMemo(() => new Set(freeMembers ?? []), [freeMembers]);
+  const colorFor = React.useCallback(
+    (omegaId: string, base: string) => (freeSet.has(omegaId) ? FREE_COLOR : base),
+    [freeSet]
+  );
+  // rpm absolutas usadas na animação: membro livre fica parado em relação ao braço
+  // (braço livre fica parado), em vez de girar como se valesse 0 rpm absoluto
+  const stageRpm = React.useCallback(
+    (sid: number) => {
+      const carrierId = `omega_b${sid}`;
+      const wb = freeSet.has(carrierId) ? 0 : velocities?.[carrierId] ?? 0;
+      return { wb, of: (omegaId: string) => (freeSet.has(omegaId) ? wb : velocities?.[omegaId] ?? 0) };
+    },
+    [freeSet, velocities]
+  );
+  // Cada estágio ocupa a própria largura visual (DISC_THICK × largura) + folga
   const stageZOffsets = React.useMemo(() => {
     const offsets: number[] = [];
     let current = 0;
-    for (let i = 0; i < stageCount; i++) {
+    for (const st of stages) {
       offsets.push(current);
-      current += stageStepZ;
+      current += DISC_THICK * profileFor(st.id).widthMm + STAGE_GAP_Z;
     }
     return offsets;
-  }, [stageCount, stageStepZ]);
+  }, [stages, profileFor]);
 
   React.useEffect(() => {
     const allowed = new Set(stageIds);
@@ -1364,11 +1419,12 @@ export function GearScene({
     for (let k = 0; k < stages.length; k++) {
       const st = stages[k];
       const z = stageZOffsets[k] ?? 0;
-      const layout = buildStageLayout(st, z, topologyKey);
+      const sp = profileFor(st.id);
+      const layout = buildStageLayout(st, z, topologyKey, sp.pressureAngleRad, sp.scale);
       L.push(layout);
     }
     return L;
-  }, [stages, topologyKey, phaseResetToken, stageZOffsets]);
+  }, [stages, topologyKey, phaseResetToken, stageZOffsets, profileFor]);
 
 
 
@@ -1454,7 +1510,8 @@ export function GearScene({
   }, [fittedR, cameraZoomMultiplier, cameraResetToken]);
 
   const carrierPaths = useMemo(() => {
-    const out: { stageId: number; paths: Vector3[][]; z: number }[] = [];
+    // paths: um por cópia (exportação); angles: giro de cada cópia em relação a paths[0] (cena)
+    const out: { stageId: number; paths: Vector3[][]; angles: number[]; z: number }[] = [];
     for (let k = 0; k < stages.length; k++) {
       const st = stages[k];
       const z = stageZOffsets[k] ?? 0;
@@ -1479,13 +1536,190 @@ export function GearScene({
         }
       }
 
-      out.push({ stageId: st.id, paths, z });
+      const angles = paths.length > 1 && ph ? ph.copyAngles.map((a) => a - ph.copyAngles[0]) : [0];
+      out.push({ stageId: st.id, paths, angles, z });
     }
     return out;
   }, [stages, layouts, stageZOffsets]);
 
 
 
+  // ===== Exportação (mm reais) =====
+  const S = strings[lang];
+  const [exportOpen, setExportOpen] = React.useState(false);
+  const [exportFormat, setExportFormat] = React.useState<ExportFormat>("stl-binary");
+  const [exportTarget, setExportTarget] = React.useState<string>("assembly");
+  const [exportCopies, setExportCopies] = React.useState(true);
+
+  // Cota Z (mm) de cada estágio no arquivo: largura + folga de cada estágio anterior
+  const exportStageZ0 = useMemo(() => {
+    const out: number[] = [];
+    let z = 0;
+    for (const stage of layouts) {
+      out.push(z);
+      const sp = profileFor(stage.stageId);
+      z += sp.widthMm + Math.max(2, 2 * sp.moduleMm);
+    }
+    return out;
+  }, [layouts, profileFor]);
+
+  // Perfil de exportação de um estágio (módulo, ângulo e largura próprios)
+  const exportProfileFor = React.useCallback((sid: number): ExportProfile => {
+    const sp = profileFor(sid);
+    return { moduleMm: sp.moduleMm, pressureAngleRad: sp.pressureAngleRad, widthMm: sp.widthMm, undercut: safeUndercut };
+  }, [profileFor, safeUndercut]);
+
+  // Descreve cada engrenagem da cena em mm, com a mesma fase/hélice/folga da renderização
+  const collectExportSpecs = React.useCallback((includeCopies: boolean, respectHidden: boolean) => {
+    // raio visual = Z·PX_PER_TOOTH·escala ↔ rp = Z·m/2; com escala = m/m_global, mm/unidade é o mesmo em todos os estágios
+    const mmPerUnit = safeModuleMm / (2 * PX_PER_TOOTH);
+    const specs: ExportGearSpec[] = [];
+
+    layouts.forEach((stage, k) => {
+      const sid = stage.stageId;
+      const st = stageMap.get(sid);
+      if (!st) return;
+      const stageHidden = respectHidden && hiddenParts.has(stageKey(sid));
+      const helixAngleFor = stageHelixAngles(profileFor(sid).helixRad, st.solarZ != null, st.planetsZ.length);
+      const ph = (stage as StageLayout & { __phasing?: ReturnType<typeof computeStagePhasing> }).__phasing;
+      const phaseMap = ph?.gearPhaseMap || {};
+      const z0 = exportStageZ0[k] ?? 0;
+      const hole = GEAR_HOLE_RADIUS * mmPerUnit;
+      const base = { stageId: sid, z0 };
+
+      for (const it of stage.items) {
+        const center: [number, number] = [it.pos[0] * mmPerUnit, it.pos[1] * mmPerUnit];
+        if (it.kind === "sun" && st.solarZ != null) {
+          if (stageHidden || (respectHidden && hiddenParts.has(sunKey(sid)))) continue;
+          specs.push({
+            ...base, key: sunKey(sid), name: `sol${sid}`, kind: "sun", teeth: st.solarZ, center,
+            rotation: (phaseMap[`omega_s${sid}`] ?? 0) + PHASE_ORIENT,
+            helixRad: helixAngleFor("sun"), backlash: backlashForKind("sun"), shift: st.solarX ?? 0, holeRadius: hole, copy: 0,
+          });
+        } else if (it.kind === "ring" && st.annulusZ != null) {
+          if (stageHidden || (respectHidden && hiddenParts.has(ringKey(sid)))) continue;
+          specs.push({
+            ...base, key: ringKey(sid), name: `ann${sid}`, kind: "ring", teeth: st.annulusZ, center,
+            rotation: (phaseMap[`omega_a${sid}`] ?? 0) + PHASE_ORIENT,
+            helixRad: helixAngleFor("ring"), backlash: backlashForKind("ring"), shift: st.annulusX ?? 0, holeRadius: 0, copy: 0,
+          });
+        } else if (it.kind === "planet") {
+          const mc = it.id.match(/-copy-(\d+)$/);
+          const copy = mc ? Number(mc[1]) : 0;
+          if (copy > 0 && !includeCopies) continue;
+          const mp = it.omegaId.match(/^omega_p(\d+)_(\d+)$/);
+          const kPlanet = mp ? Number(mp[2]) : 1;
+          const teeth = st.planetsZ[kPlanet - 1];
+          if (!teeth || stageHidden || (respectHidden && hiddenParts.has(planetKey(sid, kPlanet)))) continue;
+          specs.push({
+            ...base, key: planetKey(sid, kPlanet), name: `p${sid}_${kPlanet}${copy > 0 ? `-c${copy}` : ""}`, kind: "planet", teeth, center,
+            rotation: (phaseMap[`omega_p${sid}_${kPlanet}#copy${copy}`] ?? 0) + PHASE_ORIENT,
+            helixRad: helixAngleFor("planet", kPlanet - 1), backlash: backlashForKind("planet"), shift: st.planetsX?.[kPlanet - 1] ?? 0,
+            holeRadius: hole, copy,
+          });
+        }
+      }
+    });
+    return specs;
+  }, [layouts, stageMap, hiddenParts, profileFor, exportStageZ0, safeModuleMm, backlashForKind]);
+
+  const exportPartOptions = useMemo(() => {
+    if (!exportOpen) return [];
+    const labelByKey = new Map<string, string>();
+    treeData.forEach((st) => st.items.forEach((it) => labelByKey.set(it.key, `${st.label} • ${it.label}`)));
+    const stageOpts = treeData.map((st) => ({ key: `stage:${st.stageId}`, label: `${st.label} • ${S.exportStageLayout}` }));
+    const partOpts = collectExportSpecs(false, false).map((sp) => ({ key: sp.key, label: labelByKey.get(sp.key) ?? sp.name }));
+    return [...stageOpts, ...partOpts];
+  }, [exportOpen, collectExportSpecs, treeData, S]);
+
+  // GLB animado: peças visíveis, braço por estágio, velocidades resolvidas (mesma escala de tempo da cena)
+  const collectAnimatedStages = React.useCallback((): AnimatedStage[] => {
+    const mmPerUnit = safeModuleMm / (2 * PX_PER_TOOTH);
+    const revPerSec = (rpm: number) => (rpm / 60) * timeScale;
+    const specs = collectExportSpecs(true, true);
+    const hole = GEAR_HOLE_RADIUS * mmPerUnit;
+
+    return layouts.map((stage, k) => {
+      const sid = stage.stageId;
+      const profile = exportProfileFor(sid);
+      const { wb, of: rpmOf } = stageRpm(sid);
+      const chains = (carrierPaths.find((p) => p.stageId === sid)?.paths ?? [])
+        .filter((pts) => pts.length >= 2)
+        .map((pts) => pts.map((v) => [v.x * mmPerUnit, v.y * mmPerUnit] as [number, number]));
+      const carrierHidden = hiddenParts.has(stageKey(sid)) || hiddenParts.has(carrierKey(sid));
+      const gears = specs
+        .filter((sp) => sp.stageId === sid)
+        .map((sp) => {
+          const omegaId =
+            sp.kind === "sun" ? `omega_s${sid}` : sp.kind === "ring" ? `omega_a${sid}` : `omega_p${sid}_${sp.key.split("-")[2]}`;
+          const color =
+            sp.kind === "sun" ? COLORS.sun : sp.kind === "ring" ? COLORS.ring : getPlanetColorByIndex(Number(sp.key.split("-")[2]) - 1);
+          return { spec: sp, color, revPerSec: revPerSec(rpmOf(omegaId) - wb) };
+        });
+      return {
+        stageId: sid,
+        z0: exportStageZ0[k] ?? 0,
+        profile,
+        carrierRevPerSec: revPerSec(wb),
+        carrier: carrierHidden || chains.length === 0
+          ? null
+          : { chains, holeRadius: hole, plate: Math.max(1.5, profile.moduleMm), pinLength: profile.widthMm, color: CARRIER_COLOR },
+        gears,
+      };
+    });
+  }, [collectExportSpecs, exportProfileFor, exportStageZ0, layouts, carrierPaths, hiddenParts, stageRpm, timeScale, safeModuleMm]);
+
+  const runExport = async () => {
+    if (exportFormat === "glb") {
+      downloadBlob(await assemblyToGLB(collectAnimatedStages()), "engrenarium-conjunto.glb");
+      return;
+    }
+    const assembly = exportTarget === "assembly";
+    const stageTarget = exportTarget.match(/^stage:(\d+)$/);
+    const specs = assembly
+      ? collectExportSpecs(exportCopies, true)
+      : stageTarget
+        ? collectExportSpecs(exportCopies, false).filter((sp) => sp.stageId === Number(stageTarget[1]))
+        : collectExportSpecs(false, false).filter((sp) => sp.key === exportTarget);
+    if (specs.length === 0) return;
+    const inPlace = assembly || stageTarget != null;
+    const baseName = `engrenarium-${assembly ? "conjunto" : stageTarget ? `estagio${stageTarget[1]}` : specs[0].name}`;
+
+    if (exportFormat === "stl-binary" || exportFormat === "stl-ascii") {
+      const solids = specs.map((sp) => ({ name: sp.name, geometry: buildPartGeometry(sp, exportProfileFor(sp.stageId), inPlace) }));
+      downloadBlob(solidsToSTL(solids, exportFormat === "stl-binary" ? "binary" : "ascii"), `${baseName}.stl`);
+      solids.forEach((sd) => sd.geometry.dispose());
+      return;
+    }
+
+    // 2D: os estágios ficam empilhados em Z na montagem; no desenho, lado a lado em X
+    const byStage = new Map<number, OutlineLayer[]>();
+    for (const sp of specs) {
+      const list = byStage.get(sp.stageId) ?? [];
+      list.push(gearOutlines(sp, exportProfileFor(sp.stageId), inPlace));
+      byStage.set(sp.stageId, list);
+    }
+    const gapMm = 5 * Math.max(...specs.map((sp) => exportProfileFor(sp.stageId).moduleMm));
+    const layers: OutlineLayer[] = [];
+    let cursorX = 0;
+    for (const group of byStage.values()) {
+      const b = layersBounds(group);
+      layers.push(...translateLayers(group, cursorX - b.minX, 0));
+      cursorX += b.maxX - b.minX + gapMm;
+    }
+    const blob = exportFormat === "dxf" ? outlinesToDXF(layers) : outlinesToSVG(layers);
+    downloadBlob(blob, `${baseName}.${exportFormat}`);
+  };
+  const exportBtn: React.CSSProperties = {
+    border: "1px solid var(--btn-border)",
+    background: "var(--btn-bg)",
+    color: "var(--text)",
+    borderRadius: 6,
+    padding: "4px 8px",
+    cursor: "pointer",
+    fontSize: 13,
+  };
+
 return (
   <GearProfileContext.Provider value={gearProfile}>
   <div style={{ position: "relative", width: "100%", height: "100%" }}>
@@ -1512,52 +1746,38 @@ return (
 	          const stageSrc = stageMap.get(sid);
 	          const hasSun = stageSrc?.solarZ != null;
 	          const planetCount = stageSrc?.planetsZ?.length ?? 0;
-          const helixMag = Math.abs(helixAngleRadBase);
-          const helixBaseSign = helixAngleRadBase >= 0 ? 1 : -1;
-          const planetHelix = new Map<number, number>();
-          if (helixMag > 0) {
-            let idx = hasSun ? 1 : 0; // avança uma posição se houver sol
-            for (let k = 0; k < planetCount; k++, idx++) {
-              const sign = (idx % 2 === 0 ? 1 : -1) * helixBaseSign;
-              planetHelix.set(k, sign * helixMag);
-            }
-          }
-          const ringHelix =
-            helixMag > 0 && planetCount > 0
-              ? planetHelix.get(planetCount - 1) ?? 0 // mesmo sinal da planeta que engrena com o anel
-              : helixMag > 0 && hasSun && planetCount === 0
-              ? helixBaseSign * helixMag
-              : 0;
-
-          const helixAngleFor = (kind: "sun" | "planet" | "ring", planetIdx = 0) => {
-            if (!helixMag) return 0;
-            if (kind === "sun") return helixBaseSign * helixMag;
-            if (kind === "planet") return planetHelix.get(planetIdx) ?? 0;
-            if (kind === "ring") return ringHelix;
-            return 0;
-          };
-
-          const wb_rpm = velocities?.[`omega_b${sid}`] ?? 0;
-          const ws_rpm = velocities?.[`omega_s${sid}`] ?? 0;
-          const wa_rpm = velocities?.[`omega_a${sid}`] ?? 0;
-          const getWp = (k: number) => velocities?.[`omega_p${sid}_${k + 1}`] ?? 0;
+          const sp = profileFor(sid);
+          const helixAngleFor = stageHelixAngles(sp.helixRad, hasSun, planetCount);
+
+          const { wb: wb_rpm, of: rpmOf } = stageRpm(sid);
+          const ws_rpm = rpmOf(`omega_s${sid}`);
+          const wa_rpm = rpmOf(`omega_a${sid}`);
+          const getWp = (k: number) => rpmOf(`omega_p${sid}_${k + 1}`);
 
 	          const wb = rpmToRad(wb_rpm);
 	          const ws_local = rpmToRad(ws_rpm - wb_rpm);
 	          const wa_local = rpmToRad(wa_rpm - wb_rpm);
 	          const carrierResetKey = `${stageSignature}|carrier|pr${phaseResetToken}|vr${visibilityResetToken}`;
-	          const pathsForStage = carrierPaths.find(p => p.stageId === sid)?.paths ?? [];
+	          const carrierForStage = carrierPaths.find(p => p.stageId === sid);
+	          const baseArm = carrierForStage?.paths[0];
 	          const carrierHidden = stageHidden || hiddenParts.has(carrierKey(sid));
           const carrierOpacity = carrierHidden ? 0 : 1;
+          // cópias de cada planeta da cadeia, preenchidas ao percorrer os itens
+          const planetInstances = new Map<number, PlanetInstanceGroup>();
 
           return (
-            <group key={sid}>
+            <GearProfileContext.Provider key={sid} value={sp.gearProfile}>
+            <group>
               <RotZ omega={wb} resetOn={carrierResetKey}>
-                <group>
-                  {pathsForStage.map((pts, i) => (
-                    <CarrierVisual key={i} anchors={pts} color={CARRIER_COLOR} opacity={carrierOpacity} />
-                  ))}
-                </group>
+                {/* um só braço-porta; as cópias são instâncias giradas em torno do centro */}
+                {baseArm && (
+                  <CarrierVisual
+                    anchors={baseArm}
+                    copyAngles={carrierForStage?.angles}
+                    color={colorFor(`omega_b${sid}`, CARRIER_COLOR)}
+                    opacity={carrierOpacity}
+                  />
+                )}
 
                 {stage.items.map((it) => {
                   const ph = (stage as any).__phasing as ReturnType<typeof computeStagePhasing> | undefined;
@@ -1566,7 +1786,7 @@ return (
                   if (it.kind === "sun") {
                     const sunHidden = stageHidden || hiddenParts.has(sunKey(sid));
                     const sunOpacity = sunHidden ? 0 : 1;
-                    const zEst = Math.max(6, Math.round(it.r / PX_PER_TOOTH));
+                    const zEst = Math.max(6, Math.round(it.r / (PX_PER_TOOTH * sp.scale)));
                     const phase = phaseMap[`omega_s${sid}`] ?? 0;
                     const sunResetToken = `${stageSignature}|sun|${phase.toFixed(6)}|pr${phaseResetToken}|vr${visibilityResetToken}`;
 
@@ -1574,7 +1794,7 @@ return (
                       <group key={`${it.id}|${sunResetToken}`}>
                         <SpinningDisc
                           r={it.r}
-                          color={COLORS.sun}
+                          color={colorFor(it.omegaId, COLORS.sun)}
                           pos={it.pos}
                           localOmega={ws_local}
                           filled={true}
@@ -1586,7 +1806,7 @@ return (
                         <Gear3D
                           teeth={zEst}
                           rVisual={it.r}
-                          color={COLORS.sun}
+                          color={colorFor(it.omegaId, COLORS.sun)}
                           pos={it.pos}
                           localOmega={ws_local}
                           thickness={DISC_THICK}
@@ -1595,7 +1815,9 @@ return (
                           holeRadius={GEAR_HOLE_RADIUS}
                           helixAngleRad={helixAngleFor("sun")}
                           backlashOverride={backlashForKind("sun")}
+                          profileShift={stageSrc?.solarX ?? 0}
                           opacity={sunOpacity}
+                          highlight={highlightFor(it.omegaId)}
                         />
                       </group>
                     );
@@ -1606,7 +1828,7 @@ return (
                   if (it.kind === "ring") {
                     const ringHidden = stageHidden || hiddenParts.has(ringKey(sid));
                     const ringOpacity = ringHidden ? 0 : 1;
-                    const zEst = Math.max(8, Math.round(it.r / PX_PER_TOOTH));
+                    const zEst = Math.max(8, Math.round(it.r / (PX_PER_TOOTH * sp.scale)));
                     const phase = phaseMap[`omega_a${sid}`] ?? 0;
                     const ringResetToken = `${stageSignature}|ring|${phase.toFixed(6)}|pr${phaseResetToken}|vr${visibilityResetToken}`;
 
@@ -1614,7 +1836,7 @@ return (
                       <group key={`${it.id}|${ringResetToken}`}>
                         <SpinningDisc
                           r={it.r}
-                          color={COLORS.ring}
+                          color={colorFor(it.omegaId, COLORS.ring)}
                           pos={it.pos}
                           localOmega={wa_local}
                           filled={false}
@@ -1626,7 +1848,7 @@ return (
                         <Gear3DInternal
                           teeth={zEst}
                           rVisual={it.r}
-                          color={COLORS.ring}
+                          color={colorFor(it.omegaId, COLORS.ring)}
                           pos={it.pos}
                           localOmega={wa_local}
                           thickness={DISC_THICK}
@@ -1634,7 +1856,9 @@ return (
                           resetOn={ringResetToken}
                           helixAngleRad={helixAngleFor("ring")}
                           backlashOverride={backlashForKind("ring")}
+                          profileShift={stageSrc?.annulusX ?? 0}
                           opacity={ringOpacity}
+                          highlight={highlightFor(it.omegaId)}
                         />
                       </group>
                     );
@@ -1658,8 +1882,8 @@ return (
 
                     const idx = mp ? Number(mp[2]) - 1 : 0;
                     const wp_local = rpmToRad(getWp(idx) - wb_rpm);
-                    const zEst = Math.max(6, Math.round(it.r / PX_PER_TOOTH));
-                    const planetColor = getPlanetColorByIndex(idx);
+                    const zEst = Math.max(6, Math.round(it.r / (PX_PER_TOOTH * sp.scale)));
+                    const planetColor = colorFor(it.omegaId, getPlanetColorByIndex(idx));
 
                     const resetToken = [
                         stageSignature,
@@ -1671,43 +1895,45 @@ return (
                         `pr=${phaseResetToken}`,
                         `vr=${visibilityResetToken}`
                       ].join("|");
-                    
-                    return (
-                      <group key={`${it.id}|${resetToken}`}>
-                        <SpinningDisc
-                          r={it.r}
-                          color={planetColor}
-                          pos={it.pos}
-                          localOmega={wp_local}
-                          filled={true}
-                          phase={phase}
-                          thickness={DISC_THICK}
-                          resetToken={resetToken}
-                          opacity={planetOpacity}
-                        />
-                        <Gear3D
-                          teeth={zEst}
-                          rVisual={it.r}
-                          color={planetColor}
-                          pos={it.pos}
-                          localOmega={wp_local}
-                          thickness={DISC_THICK}
-                          phase={phase}
-                          resetOn={resetToken}
-                          holeRadius={GEAR_HOLE_RADIUS}
-                          helixAngleRad={helixAngleFor("planet", idx)}
-                          opacity={planetOpacity}
-                          backlashOverride={backlashForKind("planet")}
-                        />
-                      </group>
-                    );
+
+                    // Engrenagem e marcador de todas as cópias vão para o InstancedMesh do planeta (abaixo)
+                    const group = planetInstances.get(idx) ?? {
+                      idx, zEst, r: it.r, wp_local, color: planetColor, opacity: planetOpacity, omegaId: it.omegaId, instances: [], tokens: [],
+                    };
+                    group.instances.push({ pos: it.pos, phase });
+                    group.tokens.push(resetToken);
+                    planetInstances.set(idx, group);
+                    return null;
                   }
 
 
                   return null;
                 })}
+
+                {Array.from(planetInstances.values()).map((g) => {
+                  const resetOn = g.tokens.join("||");
+                  return (
+                    <Gear3DInstances
+                      key={`p${g.idx}|${g.instances.length}|${resetOn}`}
+                      teeth={g.zEst}
+                      rVisual={g.r}
+                      color={g.color}
+                      instances={g.instances}
+                      localOmega={g.wp_local}
+                      thickness={DISC_THICK}
+                      resetOn={resetOn}
+                      holeRadius={GEAR_HOLE_RADIUS}
+                      helixAngleRad={helixAngleFor("planet", g.idx)}
+                      opacity={g.opacity}
+                      backlashOverride={backlashForKind("planet")}
+                      profileShift={stageSrc?.planetsX?.[g.idx] ?? 0}
+                      highlight={highlightFor(g.omegaId)}
+                    />
+                  );
+                })}
               </RotZ>
             </group>
+            </GearProfileContext.Provider>
           );
         })}
       </Suspense>
@@ -1735,6 +1961,54 @@ return (
       stageKeyForId={stageKey}
     />
 
+    {/* Exportação de geometria */}
+    <div style={{ position: "absolute", right: 10, bottom: 10, zIndex: 5, display: "flex", flexDirection: "column", alignItems: "flex-end", gap: 6 }}>
+      {exportOpen && (
+        <div
+          style={{
+            background: "var(--panel-bg)",
+            border: "1px solid var(--border)",
+            borderRadius: 8,
+            padding: 10,
+            display: "grid",
+            gap: 6,
+            fontSize: 13,
+            width: 250,
+            boxShadow: "0 10px 30px rgba(0,0,0,0.35)",
+          }}
+        >
+          {exportFormat !== "glb" && (
+            <select style={exportBtn} value={exportTarget} onChange={(e) => setExportTarget(e.target.value)}>
+              <option value="assembly">{S.exportAssembly}</option>
+              {exportPartOptions.map((o) => (
+                <option key={o.key} value={o.key}>{o.label}</option>
+              ))}
+            </select>
+          )}
+          <select style={exportBtn} value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)}>
+            <option value="stl-binary">{S.stlBinary}</option>
+            <option value="stl-ascii">{S.stlAscii}</option>
+            <option value="dxf">{S.dxfProfile}</option>
+            <option value="svg">{S.svgProfile}</option>
+            <option value="glb">{S.glbAnimated}</option>
+          </select>
+          {exportFormat !== "glb" && (exportTarget === "assembly" || exportTarget.startsWith("stage:")) && (
+            <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+              <input type="checkbox" checked={exportCopies} onChange={(e) => setExportCopies(e.target.checked)} />
+              {S.includePlanetCopies}
+            </label>
+          )}
+          <button style={{ ...exportBtn, fontWeight: 600 }} onClick={runExport}>{S.download}</button>
+          <div style={{ fontSize: 11, color: "var(--muted)" }}>
+            {exportFormat === "glb" ? S.exportHintGLB : exportFormat === "dxf" || exportFormat === "svg" ? S.exportHint2D : S.exportHint}
+          </div>
+        </div>
+      )}
+      <button style={{ ...exportBtn, fontWeight: 600 }} onClick={() => setExportOpen((o) => !o)}>
+        ⤓ {S.exportGeometry}
+      </button>
+    </div>
+
     {DEBUG_PHASING && (
       <div
         style={{
@@ -0,0 +1,101 @@
+// src/render/exportParts.ts
+import * as THREE from "three";
+import { applyHelixTwist, makeInvoluteGearGeometry, makeInvoluteInternalGeometry } from "./involute";
+
+// Peças sólidas para exportação, em milímetros reais.
+// O GearScene descreve cada engrenagem (dentes, centro, fase, hélice, folga)
+// a partir do mesmo layout/faseamento da cena; aqui só se gera a malha final.
+
+export type ExportGearKind = "sun" | "planet" | "ring";
+
+export type ExportGearSpec = {
+  key: string;                 // chave de visibilidade da árvore (sun-1, planet-1-2, ring-1)
+  name: string;                // nome do sólido/arquivo (ex.: "P1_planeta2_c1")
+  stageId: number;
+  kind: ExportGearKind;
+  teeth: number;
+  center: [number, number];    // mm
+  z0: number;                  // mm — face inferior
+  rotation: number;            // rad — fase da engrenagem na montagem
+  helixRad: number;
+  backlash: number;            // mm (negativo na anelar)
+  shift: number;               // deslocamento de perfil x
+  holeRadius: number;          // mm (0 = sem furo)
+  copy: number;                // 0 = braço base; 1.. = cópias em órbita
+};
+
+export type ExportProfile = {
+  moduleMm: number;
+  pressureAngleRad: number;
+  widthMm: number;
+  undercut: boolean;
+};
+
+/**
+ * Malha de uma peça. `inPlace` mantém centro, fase e altura da montagem;
+ * caso contrário a peça fica centrada na origem, apoiada em z = 0 (para imprimir).
+ */
+export function buildPartGeometry(spec: ExportGearSpec, profile: ExportProfile, inPlace = true): THREE.BufferGeometry {
+  const { moduleMm, pressureAngleRad, widthMm, undercut } = profile;
+  const { geo, rp } =
+    spec.kind === "ring"
+      ? makeInvoluteInternalGeometry(spec.teeth, moduleMm, pressureAngleRad, widthMm, spec.backlash, undercut, spec.shift)
+      : makeInvoluteGearGeometry(spec.teeth, moduleMm, pressureAngleRad, widthMm, spec.holeRadius, spec.backlash, undercut, spec.shift);
+  applyHelixTwist(geo, spec.helixRad, widthMm, rp);
+  if (inPlace) {
+    geo.rotateZ(spec.rotation);
+    geo.translate(spec.center[0], spec.center[1], spec.z0);
+  }
+  return geo;
+}
+
+/**
+ * Braço planetário simplificado (mm): disco central furado, barras até cada planeta,
+ * pads e pinos. `chains` são as cadeias centro → planeta1 → planeta2… (uma por cópia),
+ * em coordenadas do estágio. A placa fica abaixo de z = 0; os pinos sobem `pinLength`.
+ */
+export function buildCarrierGeometries(
+  chains: [number, number][][],
+  holeRadius: number,
+  plate: number,
+  pinLength: number,
+): THREE.BufferGeometry[] {
+  const out: THREE.BufferGeometry[] = [];
+  const padR = holeRadius * 1.35;
+  const pinR = holeRadius * 0.8;
+  const coreR = Math.max(holeRadius * 2.2, padR * 1.1);
+  const barW = plate * 0.7;
+
+  const core = new THREE.Shape();
+  core.absarc(0, 0, coreR, 0, Math.PI * 2, false);
+  const hole = new THREE.Path();
+  hole.absarc(0, 0, holeRadius, 0, Math.PI * 2, true);
+  core.holes.push(hole);
+  const coreGeo = new THREE.ExtrudeGeometry(core, { depth: plate, bevelEnabled: false, curveSegments: 48 });
+  coreGeo.translate(chains[0]?.[0]?.[0] ?? 0, chains[0]?.[0]?.[1] ?? 0, -plate);
+  out.push(coreGeo);
+
+  for (const chain of chains) {
+    for (let i = 1; i < chain.length; i++) {
+      const [x0, y0] = chain[i - 1];
+      const [x1, y1] = chain[i];
+      const len = Math.hypot(x1 - x0, y1 - y0);
+      if (len < 1e-6) continue;
+      const bar = new THREE.BoxGeometry(len, barW, plate);
+      bar.rotateZ(Math.atan2(y1 - y0, x1 - x0));
+      bar.translate((x0 + x1) / 2, (y0 + y1) / 2, -plate / 2);
+      out.push(bar);
+
+      const pad = new THREE.CylinderGeometry(padR, padR, plate, 32);
+      pad.rotateX(Math.PI / 2);
+      pad.translate(x1, y1, -plate / 2);
+      out.push(pad);
+
+      const pin = new THREE.CylinderGeometry(pinR, pinR, pinLength, 32);
+      pin.rotateX(Math.PI / 2);
+      pin.translate(x1, y1, pinLength / 2);
+      out.push(pin);
+    }
+  }
+  return out;
+}
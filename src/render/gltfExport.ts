@@ -0,0 +1,157 @@
+// src/render/gltfExport.ts
+import * as THREE from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { buildCarrierGeometries, buildPartGeometry, type ExportGearSpec, type ExportProfile } from "./exportParts";
+
+// GLB da montagem animada. Hierarquia igual à da cena:
+//   raiz (mm → m) → braço de cada estágio (gira com ω_b) → engrenagens (giram com ω − ω_b)
+// Cada nó recebe uma trilha de rotação cobrindo um período do sistema
+// (tempo em que todos os nós voltam juntos à pose inicial), então o clipe faz loop limpo.
+
+export type AnimatedGear = {
+  spec: ExportGearSpec;
+  color: string;
+  revPerSec: number;           // relativo ao braço
+};
+
+export type AnimatedStage = {
+  stageId: number;
+  z0: number;                  // mm
+  profile: ExportProfile;      // módulo/ângulo/largura do estágio
+  carrierRevPerSec: number;
+  carrier: {
+    chains: [number, number][][];
+    holeRadius: number;
+    plate: number;
+    pinLength: number;
+    color: string;
+  } | null;                    // null = braço oculto (o nó existe, sem malha)
+  gears: AnimatedGear[];
+};
+
+const MAX_PERIOD_S = 120;
+const MAX_DEN = 10000;
+const SAMPLES_PER_REV = 8;     // 45° entre chaves: o slerp não pega o caminho curto errado
+const MAX_SAMPLES = 10000;
+
+/** Aproxima x por p/q (frações contínuas), q ≤ maxDen. */
+function toFraction(x: number, maxDen = MAX_DEN): [number, number] {
+  let h0 = 0, h1 = 1, k0 = 1, k1 = 0;
+  let v = x;
+  for (let i = 0; i < 40; i++) {
+    const a = Math.floor(v);
+    const h2 = a * h1 + h0, k2 = a * k1 + k0;
+    if (k2 > maxDen) break;
+    h0 = h1; h1 = h2; k0 = k1; k1 = k2;
+    if (Math.abs(x - h1 / k1) <= 1e-9 * Math.max(1, Math.abs(x))) break;
+    const frac = v - a;
+    if (frac < 1e-12) break;
+    v = 1 / frac;
+  }
+  return [h1, k1];
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+/**
+ * Período comum (s) de rotações em voltas/s: mmc dos períodos individuais.
+ * Se passar de MAX_PERIOD_S, usa uma volta do nó mais lento (o loop deixa de ser exato).
+ */
+export function systemPeriod(rates: number[]): { seconds: number; seamless: boolean } {
+  const moving = rates.map(Math.abs).filter((r) => r > 1e-9);
+  if (moving.length === 0) return { seconds: 1, seamless: true };
+  let num = 0;                 // mdc dos numeradores
+  let den = 1;                 // mmc dos denominadores
+  for (const r of moving) {
+    const [p, q] = toFraction(r);
+    if (p === 0) continue;
+    num = gcd(num, p);
+    den = (den / gcd(den, q)) * q;
+    if (!Number.isFinite(den) || den > 1e12) break;
+  }
+  const seconds = num > 0 ? den / num : Infinity;
+  if (Number.isFinite(seconds) && seconds <= MAX_PERIOD_S) return { seconds, seamless: true };
+  return { seconds: Math.min(MAX_PERIOD_S, 1 / Math.min(...moving)), seamless: false };
+}
+
+function rotationTrack(node: THREE.Object3D, baseAngle: number, revPerSec: number, period: number) {
+  const n = Math.min(MAX_SAMPLES, Math.max(2, Math.ceil(Math.abs(revPerSec) * period * SAMPLES_PER_REV) + 1));
+  const times = new Float32Array(n);
+  const values = new Float32Array(n * 4);
+  const q = new THREE.Quaternion();
+  const axis = new THREE.Vector3(0, 0, 1);
+  for (let i = 0; i < n; i++) {
+    const t = (i / (n - 1)) * period;
+    times[i] = t;
+    q.setFromAxisAngle(axis, baseAngle + 2 * Math.PI * revPerSec * t);
+    q.toArray(values, i * 4);
+  }
+  return new THREE.QuaternionKeyframeTrack(`${node.name}.quaternion`, times, values);
+}
+
+/** Monta a cena (em mm, raiz escalada para metros) e o clipe de animação. */
+export function buildAnimatedAssembly(stages: AnimatedStage[]) {
+  const root = new THREE.Group();
+  root.name = "engrenarium";
+  root.scale.setScalar(0.001);            // glTF usa metros
+
+  const materials = new Map<string, THREE.MeshStandardMaterial>();
+  const material = (color: string, metalness: number, roughness: number) => {
+    const key = `${color}|${metalness}|${roughness}`;
+    let m = materials.get(key);
+    if (!m) {
+      m = new THREE.MeshStandardMaterial({ color, metalness, roughness });
+      m.name = color;
+      materials.set(key, m);
+    }
+    return m;
+  };
+
+  const rates = stages.flatMap((s) => [s.carrierRevPerSec, ...s.gears.map((g) => g.revPerSec)]);
+  const { seconds: period } = systemPeriod(rates);
+  const tracks: THREE.KeyframeTrack[] = [];
+
+  for (const st of stages) {
+    const arm = new THREE.Group();
+    arm.name = `braco${st.stageId}`;
+    arm.position.set(0, 0, st.z0);
+    root.add(arm);
+    tracks.push(rotationTrack(arm, 0, st.carrierRevPerSec, period));
+
+    if (st.carrier) {
+      const c = st.carrier;
+      const mat = material(c.color, 0.2, 0.5);
+      buildCarrierGeometries(c.chains, c.holeRadius, c.plate, c.pinLength).forEach((geo, i) => {
+        const mesh = new THREE.Mesh(geo, mat);
+        mesh.name = `braco${st.stageId}_${i}`;
+        arm.add(mesh);
+      });
+    }
+
+    for (const g of st.gears) {
+      const node = new THREE.Group();
+      node.name = g.spec.name;
+      node.position.set(g.spec.center[0], g.spec.center[1], g.spec.z0 - st.z0);
+      const mesh = new THREE.Mesh(buildPartGeometry(g.spec, st.profile, false), material(g.color, 0.35, 0.45));
+      mesh.name = `${g.spec.name}_malha`;
+      node.add(mesh);
+      arm.add(node);
+      tracks.push(rotationTrack(node, g.spec.rotation, g.revPerSec, period));
+    }
+  }
+
+  const clip = new THREE.AnimationClip("engrenarium", period, tracks);
+  return { root, clip };
+}
+
+export async function assemblyToGLB(stages: AnimatedStage[]): Promise<Blob> {
+  const { root, clip } = buildAnimatedAssembly(stages);
+  try {
+    const result = await new GLTFExporter().parseAsync(root, { binary: true, animations: [clip] });
+    return new Blob([result as ArrayBuffer], { type: "model/gltf-binary" });
+  } finally {
+    root.traverse((o) => {
+      if (o instanceof THREE.Mesh) o.geometry.dispose();
+    });
+  }
+}
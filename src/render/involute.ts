@@ -0,0 +1,250 @@
+// src/render/involute.ts
+import * as THREE from "three";
+import { Vector3 } from "three";
+
+// Geometria involuta em milímetros reais (módulo em mm, extrusão em Z a partir de 0).
+// Usada pela cena (que só reescala em XY) e pelos exportadores de arquivo.
+
+// ===== Engrenagem involuta EXTERNA (adaptado de Leemon Baird) =====
+
+// helpers (equivalentes ao script que você mandou)
+function polar(r: number, theta: number): [number, number] {
+  return [r * Math.sin(theta), r * Math.cos(theta)];
+}
+function iang(r1: number, r2: number) {
+  return Math.sqrt((r2 / r1) * (r2 / r1) - 1) - Math.acos(r1 / r2);
+}
+function q6(b: number, s: number, t: number, d: number) {
+  return polar(d, s * (iang(b, d) + t));
+}
+function q7(f: number, r: number, b: number, r2: number, t: number, s: number) {
+  return q6(b, s, t, (1 - f) * Math.max(b, r) + f * r2);
+}
+
+// Raios do contorno gerado por buildInvolutePolygon (primitivo, cabeça reduzida pelo
+// backlash e pé). Na anelar o contorno é o negativo: a cabeça dela é este pé e vice-versa.
+export function involuteRadii(z: number, m: number, clearance = 0.25 * m, backlash = 0.0, profileShift = 0) {
+  const mm_per_tooth = Math.PI * m;
+  const pitch = (mm_per_tooth * z) / (Math.PI * 2);
+  const backlashLinear = Math.max(-mm_per_tooth, Math.min(backlash, mm_per_tooth));
+  const shift = (Number.isFinite(profileShift) ? profileShift : 0) * m;
+  const effectiveAddendum = Math.max(0, mm_per_tooth / Math.PI - clearance + shift - backlashLinear);
+  return { pitch, tip: pitch + effectiveAddendum, root: pitch - mm_per_tooth / Math.PI + shift, backlashLinear, shift };
+}
+
+// Constrói o POLÍGONO 2D da engrenagem (pontos no sentido CCW).
+// Retorna também o raio de passo "p" (para escalar à sua cena).
+// profileShift (x): desloca o perfil x·m para fora — cabeça e pé sobem x·m e a
+// espessura no primitivo ganha 2·x·m·tan α (no contorno-negativo da anelar, x > 0 alarga o vão).
+export function buildInvolutePolygon(
+  z: number,
+  m: number,
+  pressureAngleRad = 20 * Math.PI / 180,
+  clearance = 0.25 * m,
+  backlash = 0.0,
+  undercut = true,
+  profileShift = 0
+) {
+  // relação entre o script e módulo: mm_per_tooth = π * m
+  const mm_per_tooth = Math.PI * m;
+
+  // variáveis do script original: p passo, c externo (reduzido pelo backlash), r raiz (mantém furo)
+  const { pitch: p, tip: c, root: r, backlashLinear, shift } = involuteRadii(z, m, clearance, backlash, profileShift);
+  const b = p * Math.cos(pressureAngleRad);         // base
+  const halfTooth = mm_per_tooth / 2 + 2 * shift * Math.tan(pressureAngleRad);
+  const t = Math.max(0, halfTooth - backlashLinear / 2); // espessura no passo
+  const k = -iang(b, p) - t / (2 * p);                   // ângulo onde involuta encontra base
+
+  let angleRootLeft = -Math.PI / z;
+  let angleRootRight = Math.PI / z;
+
+  if (r < b) {
+    if (undercut) {
+      angleRootLeft = k;
+      angleRootRight = -k;
+    } else {
+      const slopeOffset = ((b - r) / b) * Math.tan(pressureAngleRad);
+      angleRootLeft = k - slopeOffset;
+      angleRootRight = -(k - slopeOffset);
+    }
+  }
+
+  // define 1 dente (16 pontos ~ do script)
+  const ptsTooth: [number, number][] = [
+    polar(r, -Math.PI / z),
+    polar(r, r < b ? angleRootLeft : -Math.PI / z),
+
+    q7(0 / 5, r, b, c, k, +1), q7(1 / 5, r, b, c, k, +1), q7(2 / 5, r, b, c, k, +1),
+    q7(3 / 5, r, b, c, k, +1), q7(4 / 5, r, b, c, k, +1), q7(5 / 5, r, b, c, k, +1),
+
+    q7(5 / 5, r, b, c, k, -1), q7(4 / 5, r, b, c, k, -1), q7(3 / 5, r, b, c, k, -1),
+    q7(2 / 5, r, b, c, k, -1), q7(1 / 5, r, b, c, k, -1), q7(0 / 5, r, b, c, k, -1),
+
+    polar(r, r < b ? angleRootRight : Math.PI / z),
+    polar(r, +Math.PI / z),
+  ];
+
+  // replica o dente z vezes por rotação
+  const step = (2 * Math.PI) / z;
+  const all: [number, number][] = [];
+  for (let i = 0; i < z; i++) {
+    const a = -i * step; // sinal igual ao do script
+    const ca = Math.cos(a), sa = Math.sin(a);
+    for (const [x, y] of ptsTooth) {
+      const xr = x * ca - y * sa;
+      const yr = y * ca + x * sa;
+      all.push([xr, yr]);
+    }
+  }
+  return { points: all, pitchRadius: p };
+}
+
+// Torção ao estilo linear_extrude(twist=...) do OpenSCAD: rotação pura ao longo de Z
+export function applyHelixTwist(geo: THREE.ExtrudeGeometry, helixAngleRad: number, depth: number, pitchRadius: number) {
+  if (!geo || !Number.isFinite(helixAngleRad) || Math.abs(helixAngleRad) < 1e-6 || depth <= 0 || pitchRadius <= 0) {
+    return geo;
+  }
+  const pos = geo.getAttribute("position");
+  if (!(pos instanceof THREE.BufferAttribute)) return geo;
+  const centerZ = depth / 2;
+  const twistRate = Math.tan(helixAngleRad) / pitchRadius; // radianos por unidade de Z
+  const vec = new Vector3();
+  for (let i = 0; i < pos.count; i++) {
+    vec.fromBufferAttribute(pos, i);
+    const zOffset = vec.z - centerZ;
+    const theta = zOffset * twistRate;
+    const c = Math.cos(theta);
+    const s = Math.sin(theta);
+    const rx = vec.x * c - vec.y * s;
+    const ry = vec.x * s + vec.y * c;
+    pos.setX(i, rx);
+    pos.setY(i, ry);
+  }
+  pos.needsUpdate = true;
+  geo.computeVertexNormals();
+  return geo;
+}
+
+// Ângulo de hélice de cada engrenagem do estágio: o sinal alterna ao longo da
+// cadeia Sol → Planeta1 → Planeta2…, e a anelar segue a planeta com que engrena.
+export function stageHelixAngles(helixBase: number, hasSun: boolean, planetCount: number) {
+  const helixMag = Math.abs(helixBase);
+  const helixBaseSign = helixBase >= 0 ? 1 : -1;
+  const planetHelix = new Map<number, number>();
+  if (helixMag > 0) {
+    let idx = hasSun ? 1 : 0; // avança uma posição se houver sol
+    for (let k = 0; k < planetCount; k++, idx++) {
+      const sign = (idx % 2 === 0 ? 1 : -1) * helixBaseSign;
+      planetHelix.set(k, sign * helixMag);
+    }
+  }
+  const ringHelix =
+    helixMag > 0 && planetCount > 0
+      ? planetHelix.get(planetCount - 1) ?? 0 // mesmo sinal da planeta que engrena com o anel
+      : helixMag > 0 && hasSun && planetCount === 0
+      ? helixBaseSign * helixMag
+      : 0;
+
+  return (kind: "sun" | "planet" | "ring", planetIdx = 0) => {
+    if (!helixMag) return 0;
+    if (kind === "sun") return helixBaseSign * helixMag;
+    if (kind === "planet") return planetHelix.get(planetIdx) ?? 0;
+    if (kind === "ring") return ringHelix;
+    return 0;
+  };
+}
+
+// Gera geometria 3D por extrusão de um único Shape fechado
+export function makeInvoluteGearGeometry(
+  z: number,
+  m: number,
+  pressureAngleRad: number,
+  extrudeDepth: number,
+  holeRadius = 0,
+  backlash = 0,
+  undercut = true,
+  profileShift = 0
+) {
+  const { points, pitchRadius } = buildInvolutePolygon(
+    z,
+    m,
+    pressureAngleRad,
+    0,
+    backlash,
+    undercut,
+    profileShift
+  );
+  const shape = new THREE.Shape();
+  shape.moveTo(points[0][0], points[0][1]);
+  for (let i = 1; i < points.length; i++) shape.lineTo(points[i][0], points[i][1]);
+  shape.closePath();
+
+  if (holeRadius > 0) {
+    const hole = new THREE.Path();
+    hole.absarc(0, 0, holeRadius, 0, Math.PI * 2, true);
+    shape.holes.push(hole);
+  }
+
+  const geo = new THREE.ExtrudeGeometry(shape, {
+    depth: extrudeDepth,
+    bevelEnabled: false,
+    curveSegments: 10,
+    steps: Math.max(1, Math.round(extrudeDepth * 0.5)),
+  });
+  geo.computeVertexNormals();
+  return { geo, rp: pitchRadius };
+}
+
+// Raio externo do corpo da anelar: adendo + 3 módulos de parede (ajuste à vontade)
+export function ringOuterRadius(rp: number, m: number, profileShift = 0) {
+  return rp + (1 + Math.max(0, profileShift)) * m + 3 * m;
+}
+
+// ===== Anelar involuta: corpo externo + FURO com contorno de engrenagem EXTERNA =====
+export function makeInvoluteInternalGeometry(
+  z: number,
+  m: number,
+  pressureAngleRad: number,
+  extrudeDepth: number,
+  backlash = 0,
+  undercut = true,
+  profileShift = 0
+) {
+  // 1) Gera o contorno de uma ENGRENAGEM EXTERNA (mesmo z, módulo, ângulo)
+  //    Isso é exatamente o “negativo” que precisamos para o dente interno.
+  const { points: holePts, pitchRadius: rp } =
+    buildInvolutePolygon(z, m, pressureAngleRad, 0, backlash, undercut, profileShift);
+
+  // 2) Cria o corpo do anel como um círculo externo “grosso”
+  const R_OUT = ringOuterRadius(rp, m, profileShift);
+  const OUT_SEG = 128;
+
+  const shape = new THREE.Shape();        // externo CCW
+  shape.moveTo(R_OUT, 0);
+  for (let i = 1; i <= OUT_SEG; i++) {
+    const th = (i / OUT_SEG) * 2 * Math.PI;
+    shape.lineTo(R_OUT * Math.cos(th), R_OUT * Math.sin(th));
+  }
+  shape.closePath();
+
+  // 3) Adiciona o FURO com o contorno da engrenagem externa (revertido → CW)
+  const hole = new THREE.Path();
+  const first = holePts[0];
+  hole.moveTo(first[0], first[1]);
+  for (let i = holePts.length - 1; i >= 0; i--) {
+    hole.lineTo(holePts[i][0], holePts[i][1]);     // ordem reversa = CW
+  }
+  hole.closePath();
+  shape.holes.push(hole);
+
+  // 4) Extrusão
+  const geo = new THREE.ExtrudeGeometry(shape, {
+    depth: extrudeDepth,
+    bevelEnabled: false,
+    curveSegments: 10,
+    steps: Math.max(1, Math.round(extrudeDepth * 0.5)),
+  });
+  geo.computeVertexNormals();
+
+  return { geo, rp };
+}
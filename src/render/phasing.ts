@@ -29,7 +29,7 @@
 //
 // Observações de robustez:
 //   - Aceita ausência de solar/anelar conforme regras acima.
-//   - N (cópias) limitado a [1, 5] como no GearScene.
+//   - N (cópias) ≥ 1; o máximo vem da folga entre vizinhos (adjacency.ts), não daqui.
 
 const TAU = Math.PI * 2;
 
@@ -57,38 +57,43 @@ const mod2pi = (a: number) => {
   return x < 0 ? x + TAU : x;
 };
 
-// gera os ângulos das cópias do braço de acordo com as regras
-function computeArmAngles(
-  Nraw: number,
-  zSun: number | null,
-  zRing: number | null,
-  planetsZ: number[]
-): number[] {
-  const N = Math.max(1, Math.min(5, Math.round(Nraw || 1)));
-  if (N <= 1) return [0];
+// Z efetivo da condição de montagem (denominador do tick angle); null = sem restrição
+function assemblyZ(zSun: number | null, zRing: number | null, planetsZ: number[]): number | null {
+  // Se faltar Sol ou Anel, qualquer ângulo serve
+  if (zRing == null || zSun == null) return null;
 
-  // Se faltar Sol ou Anel, assume simetria perfeita
-  if (zRing == null || zSun == null) {
-    return Array.from({ length: N }, (_, i) => (TAU * i) / N);
-  }
-
-  // --- Lógica da Fórmula Geral ---
-  
   // 1. Determinar o Fator de Direção (D)
   // k = número de estágios planetários em série.
   // Se k for ÍMPAR (1, 3...): O anel gira no sentido oposto ao esperado na relação S-R direta (Soma).
   // Se k for PAR (2, 4... idlers): O anel inverte a lógica (Subtração).
-  const k = Math.max(1, planetsZ.length); 
+  const k = Math.max(1, planetsZ.length);
   const D = (k % 2 !== 0) ? 1 : -1;
 
   // 2. Calcular Z efetivo (Denominador da fórmula do Tick Angle)
-  // Para planetas simples em série, os termos Zp se cancelam na fórmula do MDC, 
+  // Para planetas simples em série, os termos Zp se cancelam na fórmula do MDC,
   // sobrando apenas a relação fundamental S +/- R.
   // Fórmula: Z_eff = | Zs + D * Zr |
-  let Z_eff = Math.abs(zSun + D * Math.abs(zRing));
+  const Z_eff = Math.abs(zSun + D * Math.abs(zRing));
 
   // Proteção contra Z_eff = 0 (ex: Zs=40, Zr=40, 2 planetas. Infinitas posições).
-  if (Z_eff === 0) {
+  return Z_eff === 0 ? null : Z_eff;
+}
+
+// gera os ângulos das cópias do braço de acordo com as regras
+function computeArmAngles(
+  Nraw: number,
+  zSun: number | null,
+  zRing: number | null,
+  planetsZ: number[]
+): number[] {
+  const N = Math.max(1, Math.round(Nraw || 1));
+  if (N <= 1) return [0];
+
+  // --- Lógica da Fórmula Geral ---
+  const Z_eff = assemblyZ(zSun, zRing, planetsZ);
+
+  // Sem restrição: simetria perfeita
+  if (Z_eff == null) {
      return Array.from({ length: N }, (_, i) => (TAU * i) / N);
   }
 
@@ -114,11 +119,42 @@ function computeArmAngles(
   return angles;
 }
 
+export type EqualSpacingReport = {
+  constrained: boolean;          // há solar e anelar: os braços só param em múltiplos de 2π/Z_eff
+  zEff: number | null;           // |Zs ± Za| (sinal pela paridade da cadeia)
+  ringSign: 1 | -1;              // + cadeia ímpar (Zs + Za), − cadeia par (|Zs − Za|)
+  copies: number;
+  equal: boolean;                // Z_eff / N inteiro (ou sem restrição)
+  allowedCounts: number[];       // divisores de Z_eff (≥ 2); vazio sem restrição (qualquer N serve)
+  deviationsDeg: number[];       // ângulo real − ideal (2π·m/N) de cada cópia, em graus
+};
+
+/** Condição de montagem com espaçamento igual para o nº de cópias escolhido. */
+export function equalSpacingReport(
+  solarZ: number | null,
+  annulusZ: number | null,
+  planetsZ: number[],
+  copies: number,
+): EqualSpacingReport {
+  const N = Math.max(1, Math.round(copies || 1));
+  const zEff = assemblyZ(solarZ, annulusZ, planetsZ);
+  const ringSign = Math.max(1, planetsZ.length) % 2 !== 0 ? 1 : -1;
+  const allowedCounts: number[] = [];
+  if (zEff != null) for (let n = 2; n <= zEff; n++) if (zEff % n === 0) allowedCounts.push(n);
+  const angles = computeArmAngles(N, solarZ, annulusZ, planetsZ);
+  const deviationsDeg = angles.map((a, m) => {
+    let d = mod2pi(a - (TAU * m) / N);
+    if (d > Math.PI) d -= TAU;
+    return (d * 180) / Math.PI;
+  });
+  return { constrained: zEff != null, zEff, ringSign, copies: N, equal: zEff == null || zEff % N === 0, allowedCounts, deviationsDeg };
+}
+
 export function computeStagePhasing(inp: In): Out {
   const { stageId, solarZ, annulusZ, planetsZ, copies, positions } = inp;
 
   // 1) Ângulos das cópias do braço
-  const N = Math.max(1, Math.min(5, Math.round(copies || 1)));
+  const N = Math.max(1, Math.round(copies || 1));
   const copyAngles = computeArmAngles(N, solarZ, annulusZ, planetsZ);
 
   // 3) Fase da solar — sempre 0
@@ -0,0 +1,129 @@
+// src/render/profile2d.ts
+import { buildInvolutePolygon, ringOuterRadius } from "./involute";
+import type { ExportGearSpec, ExportProfile } from "./exportParts";
+
+// Contornos 2D (perfil dos dentes) para corte a laser / CNC, em milímetros.
+// Mesmo polígono involuta da extrusão 3D; a hélice é ignorada (peça plana).
+// Escritores: DXF R12 (POLYLINE fechadas, uma camada por engrenagem) e SVG.
+
+export type Polyline = [number, number][];        // fechada implicitamente
+
+export type OutlineLayer = { name: string; loops: Polyline[] };
+
+const CIRCLE_SEG = 128;
+
+function circle(cx: number, cy: number, r: number): Polyline {
+  const pts: Polyline = [];
+  for (let i = 0; i < CIRCLE_SEG; i++) {
+    const th = (i / CIRCLE_SEG) * 2 * Math.PI;
+    pts.push([cx + r * Math.cos(th), cy + r * Math.sin(th)]);
+  }
+  return pts;
+}
+
+/**
+ * Contornos de uma engrenagem: dentes + furo central (solar/planeta) ou
+ * corpo externo + dentes internos (anelar). `inPlace` aplica fase e centro da montagem.
+ */
+export function gearOutlines(spec: ExportGearSpec, profile: ExportProfile, inPlace = true): OutlineLayer {
+  const { moduleMm: m, pressureAngleRad, undercut } = profile;
+  const { points, pitchRadius } = buildInvolutePolygon(spec.teeth, m, pressureAngleRad, 0, spec.backlash, undercut, spec.shift);
+  const rot = inPlace ? spec.rotation : 0;
+  const [cx, cy] = inPlace ? spec.center : [0, 0];
+  const c = Math.cos(rot), s = Math.sin(rot);
+  const teeth: Polyline = points.map(([x, y]) => [cx + x * c - y * s, cy + x * s + y * c]);
+
+  const loops: Polyline[] =
+    spec.kind === "ring"
+      ? [circle(cx, cy, ringOuterRadius(pitchRadius, m, spec.shift)), teeth]
+      : spec.holeRadius > 0 ? [teeth, circle(cx, cy, spec.holeRadius)] : [teeth];
+  return { name: spec.name, loops };
+}
+
+/** Desloca todos os contornos (para dispor vários estágios lado a lado). */
+export function translateLayers(layers: OutlineLayer[], dx: number, dy: number): OutlineLayer[] {
+  return layers.map((l) => ({ name: l.name, loops: l.loops.map((p) => p.map(([x, y]) => [x + dx, y + dy] as [number, number])) }));
+}
+
+export function layersBounds(layers: OutlineLayer[]) {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const l of layers) for (const p of l.loops) for (const [x, y] of p) {
+    if (x < minX) minX = x;
+    if (y < minY) minY = y;
+    if (x > maxX) maxX = x;
+    if (y > maxY) maxY = y;
+  }
+  if (!Number.isFinite(minX)) return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  return { minX, minY, maxX, maxY };
+}
+
+const fmt = (v: number) => (Math.abs(v) < 5e-7 ? "0" : v.toFixed(6).replace(/\.?0+$/, ""));
+
+// Nomes de camada DXF: sem espaços nem símbolos reservados
+const layerName = (name: string) => name.replace(/[^A-Za-z0-9_-]/g, "_").toUpperCase() || "0";
+
+/** DXF R12 (AC1009): cada laço vira uma POLYLINE fechada (70=1) com VERTEX/SEQEND. */
+export function outlinesToDXF(layers: OutlineLayer[]): Blob {
+  const out: string[] = [];
+  const pair = (code: number, value: string | number) => out.push(String(code), String(value));
+  const b = layersBounds(layers);
+
+  pair(0, "SECTION"); pair(2, "HEADER");
+  pair(9, "$ACADVER"); pair(1, "AC1009");
+  pair(9, "$INSUNITS"); pair(70, 4);                       // milímetros
+  pair(9, "$EXTMIN"); pair(10, fmt(b.minX)); pair(20, fmt(b.minY));
+  pair(9, "$EXTMAX"); pair(10, fmt(b.maxX)); pair(20, fmt(b.maxY));
+  pair(0, "ENDSEC");
+
+  pair(0, "SECTION"); pair(2, "TABLES");
+  pair(0, "TABLE"); pair(2, "LAYER"); pair(70, layers.length);
+  layers.forEach((l, i) => {
+    pair(0, "LAYER"); pair(2, layerName(l.name)); pair(70, 0); pair(62, (i % 7) + 1); pair(6, "CONTINUOUS");
+  });
+  pair(0, "ENDTAB");
+  pair(0, "ENDSEC");
+
+  pair(0, "SECTION"); pair(2, "ENTITIES");
+  for (const l of layers) {
+    const ln = layerName(l.name);
+    for (const loop of l.loops) {
+      pair(0, "POLYLINE"); pair(8, ln); pair(66, 1); pair(70, 1);
+      pair(10, 0); pair(20, 0); pair(30, 0);
+      for (const [x, y] of loop) {
+        pair(0, "VERTEX"); pair(8, ln); pair(10, fmt(x)); pair(20, fmt(y)); pair(30, 0);
+      }
+      pair(0, "SEQEND"); pair(8, ln);
+    }
+  }
+  pair(0, "ENDSEC");
+  pair(0, "EOF");
+  return new Blob([out.join("\r\n") + "\r\n"], { type: "application/dxf" });
+}
+
+const escapeXml = (s: string) => s.replace(/[<>&"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+
+/** SVG em mm (1 unidade = 1 mm), Y para cima como no DXF; traço fino, sem preenchimento. */
+export function outlinesToSVG(layers: OutlineLayer[], margin = 2): Blob {
+  const b = layersBounds(layers);
+  const w = b.maxX - b.minX + 2 * margin;
+  const h = b.maxY - b.minY + 2 * margin;
+  // y_svg = maxY + margin - y  (espelha em Y)
+  const X = (x: number) => fmt(x - b.minX + margin);
+  const Y = (y: number) => fmt(b.maxY + margin - y);
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(w)}mm" height="${fmt(h)}mm" viewBox="0 0 ${fmt(w)} ${fmt(h)}">`,
+  ];
+  for (const l of layers) {
+    const d = l.loops
+      .map((loop) => loop.map(([x, y], i) => `${i === 0 ? "M" : "L"}${X(x)} ${Y(y)}`).join(" ") + " Z")
+      .join(" ");
+    lines.push(
+      `  <g id="${escapeXml(l.name)}">`,
+      `    <path d="${d}" fill="none" stroke="#000" stroke-width="0.1" fill-rule="evenodd"/>`,
+      `  </g>`,
+    );
+  }
+  lines.push(`</svg>`);
+  return new Blob([lines.join("\n") + "\n"], { type: "image/svg+xml" });
+}
@@ -0,0 +1,91 @@
+// src/render/stl.ts
+import * as THREE from "three";
+
+// Escrita de STL (binário ou ASCII). As coordenadas vão como estão (mm):
+// STL não tem unidade, e fatiadores assumem milímetros.
+
+export type StlFormat = "binary" | "ascii";
+
+export type StlSolid = { name: string; geometry: THREE.BufferGeometry };
+
+function forEachTriangle(
+  geometry: THREE.BufferGeometry,
+  fn: (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3, n: THREE.Vector3) => void,
+) {
+  const pos = geometry.getAttribute("position");
+  const index = geometry.getIndex();
+  const count = index ? index.count : pos.count;
+  const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+  const ab = new THREE.Vector3(), ac = new THREE.Vector3(), n = new THREE.Vector3();
+  for (let i = 0; i + 2 < count; i += 3) {
+    const ia = index ? index.getX(i) : i;
+    const ib = index ? index.getX(i + 1) : i + 1;
+    const ic = index ? index.getX(i + 2) : i + 2;
+    a.fromBufferAttribute(pos, ia);
+    b.fromBufferAttribute(pos, ib);
+    c.fromBufferAttribute(pos, ic);
+    n.crossVectors(ab.subVectors(b, a), ac.subVectors(c, a));
+    if (n.lengthSq() < 1e-20) continue; // triângulo degenerado
+    n.normalize();
+    fn(a, b, c, n);
+  }
+}
+
+function triangleCount(geometry: THREE.BufferGeometry) {
+  let k = 0;
+  forEachTriangle(geometry, () => { k++; });
+  return k;
+}
+
+function toBinary(solids: StlSolid[]): ArrayBuffer {
+  const total = solids.reduce((s, x) => s + triangleCount(x.geometry), 0);
+  const buffer = new ArrayBuffer(84 + total * 50);
+  const view = new DataView(buffer);
+  const header = `Engrenarium STL (mm): ${solids.map((s) => s.name).join(", ")}`.slice(0, 80);
+  for (let i = 0; i < header.length; i++) view.setUint8(i, header.charCodeAt(i) & 0x7f);
+  view.setUint32(80, total, true);
+  let off = 84;
+  const put = (v: THREE.Vector3) => {
+    view.setFloat32(off, v.x, true);
+    view.setFloat32(off + 4, v.y, true);
+    view.setFloat32(off + 8, v.z, true);
+    off += 12;
+  };
+  for (const s of solids) {
+    forEachTriangle(s.geometry, (a, b, c, n) => {
+      put(n); put(a); put(b); put(c);
+      view.setUint16(off, 0, true);
+      off += 2;
+    });
+  }
+  return buffer;
+}
+
+function toAscii(solids: StlSolid[]): string {
+  const f = (x: number) => x.toExponential(6);
+  const v = (p: THREE.Vector3) => `${f(p.x)} ${f(p.y)} ${f(p.z)}`;
+  const name = solids.length === 1 ? solids[0].name : "engrenarium";
+  const lines: string[] = [`solid ${name}`];
+  for (const s of solids) {
+    forEachTriangle(s.geometry, (a, b, c, n) => {
+      lines.push(
+        `  facet normal ${v(n)}`,
+        "    outer loop",
+        `      vertex ${v(a)}`,
+        `      vertex ${v(b)}`,
+        `      vertex ${v(c)}`,
+        "    endloop",
+        "  endfacet",
+      );
+    });
+  }
+  lines.push(`endsolid ${name}`);
+  return lines.join("\n") + "\n";
+}
+
+/** Um único arquivo STL com todos os sólidos (o conjunto vira uma malha só). */
+export function solidsToSTL(solids: StlSolid[], format: StlFormat): Blob {
+  return format === "binary"
+    ? new Blob([toBinary(solids)], { type: "model/stl" })
+    : new Blob([toAscii(solids)], { type: "model/stl" });
+}
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from "react";
+
+// Campo numérico com limites: enquanto se digita só valores já dentro dos limites
+// são aplicados (digitar "25" passa por "2" sem virar o mínimo); ao sair do campo
+// o texto é trazido para dentro dos limites. Vazio = undefined quando `allowEmpty`.
+
+type BoundedNumberInputProps = {
+  value: number | undefined;
+  clamp: (v: number) => number;
+  onCommit: (v: number | undefined) => void;
+  allowEmpty?: boolean;
+  style?: React.CSSProperties;
+  step?: number;
+  min?: number;
+  max?: number;
+  placeholder?: string;
+};
+
+export function BoundedNumberInput({ value, clamp, onCommit, allowEmpty = false, style, step, min, max, placeholder }: BoundedNumberInputProps) {
+  const [draft, setDraft] = useState(value == null ? "" : String(value));
+
+  // valor mudou por fora (undo, exemplo, arquivo): mostra-o, a menos que o rascunho já o represente
+  useEffect(() => {
+    setDraft((d) => (d !== "" && Number(d) === value ? d : value == null ? "" : String(value)));
+  }, [value]);
+
+  return (
+    <input
+      style={style}
+      type="number"
+      step={step}
+      min={min}
+      max={max}
+      placeholder={placeholder}
+      value={draft}
+      onChange={(e) => {
+        const raw = e.target.value;
+        setDraft(raw);
+        if (raw === "") {
+          if (allowEmpty) onCommit(undefined);
+          return;
+        }
+        const v = Number(raw);
+        if (Number.isFinite(v) && clamp(v) === v) onCommit(v);
+      }}
+      onBlur={() => {
+        const v = Number(draft);
+        if (draft === "" || !Number.isFinite(v)) {
+          if (draft !== "" || !allowEmpty) setDraft(value == null ? "" : String(value));
+          return;
+        }
+        const c = clamp(v);
+        onCommit(c);
+        setDraft(String(c));
+      }}
+    />
+  );
+}
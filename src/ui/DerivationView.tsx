@@ -0,0 +1,106 @@
+import React from "react";
+import { strings, type Lang } from "./i18n";
+import { formatAssembled, formatLinear, formatWillis, type Derivation } from "../math/derivation";
+import { formatPoly, symbolName, symbolicToString } from "../math/exact";
+import { fractionToString } from "../lib/rational";
+
+type DerivationViewProps = {
+  lang: Lang;
+  open: boolean;
+  onToggle: () => void;
+  derivation: Derivation | null;
+  labelById: Map<string, string>;
+  onExportLatex: () => void;
+};
+
+const btn: React.CSSProperties = { padding: "0.35rem 0.6rem", borderRadius: 6, border: "1px solid var(--btn-border)", background: "var(--btn-bg)", color: "var(--text)", cursor: "pointer" };
+const small: React.CSSProperties = { fontSize: "0.8rem", color: "var(--muted)" };
+const title: React.CSSProperties = { fontWeight: 600, marginTop: 6 };
+const formula: React.CSSProperties = { fontFamily: "ui-monospace, monospace", fontSize: 13, overflowWrap: "anywhere" };
+const block: React.CSSProperties = { display: "grid", gap: 2, paddingLeft: 8, borderLeft: "2px solid var(--border)" };
+
+export function DerivationView({ lang, open, onToggle, derivation: d, labelById, onExportLatex }: DerivationViewProps) {
+  const S = strings[lang];
+  const label = (omega: string) => labelById.get(omega) ?? omega;
+
+  return (
+    <div style={{ display: "grid", gap: 4 }}>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <div style={{ fontWeight: 600 }}>{S.derivation}</div>
+        <button style={btn} type="button" onClick={onToggle}>{open ? S.derivationHide : S.derivationShow}</button>
+        {open && d && <button style={btn} type="button" onClick={onExportLatex}>{S.derivationExportLatex}</button>}
+      </div>
+
+      {open && !d && <div style={small}>{S.derivationUnavailable}</div>}
+
+      {open && d && (
+        <>
+          <div style={title}>{S.derivationEquations}</div>
+          <div style={block}>
+            {d.equations.map((e, k) => (
+              <div key={k} style={{ display: "grid", gap: 0 }}>
+                <div style={formula}>{e.willis ? formatWillis(e.willis) : formatAssembled(d.variables, e)}</div>
+                <div style={{ ...small, overflowWrap: "anywhere" }}>
+                  {e.tag}{e.willis ? ` → ${formatAssembled(d.variables, e)}` : ""}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {(d.substitutions.length > 0 || d.knowns.length > 0) && (
+            <>
+              <div style={title}>{S.derivationSubstitutions}</div>
+              <div style={block}>
+                {d.substitutions.map((s) => (
+                  <div key={s.v} style={formula} title={label(s.v)}>{symbolName(s.v)} = {formatPoly(s.to)}</div>
+                ))}
+                {d.knowns.length > 0 && (
+                  <div style={small}>{S.derivationKnowns}: {d.knowns.map(symbolName).join(", ")}</div>
+                )}
+              </div>
+            </>
+          )}
+
+          <div style={title}>{S.derivationReduced}</div>
+          <div style={block}>
+            {d.reduced.map((r, k) => <div key={k} style={formula}>{formatLinear(d.unknowns, r)}</div>)}
+            {d.dropped > 0 && <div style={small}>{d.dropped} {S.derivationDropped}</div>}
+          </div>
+
+          <div style={title}>{S.derivationElimination}</div>
+          {d.steps.map((step) => (
+            <div key={step.pivot} style={block}>
+              <div style={small}>{S.derivationPivot} {symbolName(step.pivot)} ({label(step.pivot)})</div>
+              <div style={{ ...formula, fontWeight: 600 }}>{formatLinear([step.pivot, ...step.unknowns], step.pivotRow)}</div>
+              {step.system.map((r, k) => <div key={k} style={formula}>{formatLinear(step.unknowns, r)}</div>)}
+            </div>
+          ))}
+
+          <div style={title}>{S.derivationSolution}</div>
+          <div style={block}>
+            {d.solution.map((s) => {
+              const expr = s.value ? symbolicToString(s.value) : null;
+              const value = fractionToString(s.exact);
+              return (
+                <div key={s.v} style={formula} title={label(s.v)}>
+                  {symbolName(s.v)} = {expr && expr !== symbolName(s.v) && expr !== value ? `${expr} = ` : ""}{value}
+                </div>
+              );
+            })}
+          </div>
+
+          {d.ratio && (
+            <>
+              <div style={title}>{S.derivationRatio}</div>
+              <div style={{ ...formula, fontWeight: 600 }}>
+                {symbolName(d.ratio.num)}/{symbolName(d.ratio.den)}
+                {d.ratio.value ? ` = ${symbolicToString(d.ratio.value)}` : ""}
+                {d.ratio.exact ? ` = ${fractionToString(d.ratio.exact)}` : ""}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
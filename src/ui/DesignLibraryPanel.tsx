@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from "react";
+import { strings, type Lang } from "./i18n";
+import type { DesignState } from "./designFile";
+import {
+  addEntry,
+  deleteEntry,
+  duplicateEntry,
+  loadLibrary,
+  renameEntry,
+  storeLibrary,
+  summarizeDesign,
+  type LibraryEntry,
+} from "./designLibrary";
+
+type DesignLibraryPanelProps = {
+  lang: Lang;
+  isMobile: boolean;
+  getCurrentDesign: () => DesignState | null;
+  onLoad: (design: DesignState) => void;
+};
+
+const btn: React.CSSProperties = {
+  border: "1px solid var(--btn-border)",
+  background: "var(--btn-bg)",
+  color: "var(--text)",
+  borderRadius: 6,
+  padding: "4px 8px",
+  cursor: "pointer",
+  fontSize: 13,
+};
+const input: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  padding: "4px 6px",
+  borderRadius: 6,
+  border: "1px solid var(--btn-border)",
+  background: "var(--input-bg)",
+  color: "var(--text)",
+};
+
+export function DesignLibraryPanel({ lang, isMobile, getCurrentDesign, onLoad }: DesignLibraryPanelProps) {
+  const S = strings[lang];
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<LibraryEntry[]>(() => loadLibrary());
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  // Outra aba alterou a biblioteca
+  useEffect(() => {
+    const onStorage = () => setEntries(loadLibrary());
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const commit = (next: LibraryEntry[]) => {
+    try {
+      storeLibrary(next);
+      setEntries(next);
+      setStorageError(null);
+    } catch {
+      setStorageError(S.libraryStorageError);
+    }
+  };
+
+  const saveCurrent = () => {
+    const design = getCurrentDesign();
+    if (!design) return;
+    const name = newName.trim() || `${S.libraryUntitled} ${entries.length + 1}`;
+    commit(addEntry(entries, name, design));
+    setNewName("");
+  };
+
+  return (
+    <div style={{ position: "relative" }}>
+      <button
+        style={{
+          ...btn,
+          padding: isMobile ? "5px 8px" : "6px 9px",
+          fontSize: isMobile ? 12 : 14,
+          fontWeight: 600,
+          background: open ? "#60a5fa30" : "var(--btn-bg)",
+          whiteSpace: "nowrap",
+        }}
+        onClick={() => setOpen((o) => !o)}
+      >
+        {S.library} ({entries.length}) {open ? "▾" : "▸"}
+      </button>
+
+      {open && (
+        <div
+          style={{
+            position: isMobile ? "fixed" : "absolute",
+            right: isMobile ? 8 : 0,
+            left: isMobile ? 8 : undefined,
+            top: isMobile ? 56 : "calc(100% + 6px)",
+            width: isMobile ? "auto" : 380,
+            maxHeight: "70vh",
+            overflowY: "auto",
+            zIndex: 200,
+            background: "var(--panel-bg)",
+            border: "1px solid var(--btn-border)",
+            borderRadius: 10,
+            padding: 10,
+            boxShadow: "0 8px 24px rgba(0,0,0,0.35)",
+            display: "grid",
+            gap: 8,
+          }}
+        >
+          <div style={{ display: "flex", gap: 6 }}>
+            <input
+              style={input}
+              placeholder={S.libraryNamePlaceholder}
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") saveCurrent(); }}
+            />
+            <button style={btn} onClick={saveCurrent}>{S.librarySave}</button>
+          </div>
+
+          {storageError && <div style={{ fontSize: 12, color: "#fca5a5" }}>{storageError}</div>}
+          {entries.length === 0 && <div style={{ fontSize: 13, color: "var(--muted)" }}>{S.libraryEmpty}</div>}
+
+          {entries.map((entry) => {
+            if (!entry.design) {
+              const why = entry.unreadable ? (lang === "en" ? entry.unreadable.mensagem_en : entry.unreadable.mensagem) : "";
+              return (
+                <div key={entry.id} style={{ borderTop: "1px solid var(--border)", paddingTop: 8, display: "grid", gap: 4 }}>
+                  <div style={{ fontWeight: 600, fontSize: 14, opacity: 0.7 }}>{entry.name}</div>
+                  <div style={{ fontSize: 12, color: "#fbbf24" }} title={why}>
+                    ⚠ {S.libraryUnreadable}{why ? ` (${why})` : ""}
+                  </div>
+                  <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                    <button
+                      style={btn}
+                      onClick={() => { if (window.confirm(`${S.libraryDeleteConfirm} "${entry.name}"?`)) commit(deleteEntry(entries, entry.id)); }}
+                    >
+                      {S.remove}
+                    </button>
+                  </div>
+                </div>
+              );
+            }
+            const design = entry.design;
+            const sum = summarizeDesign(design);
+            const isRenaming = renaming?.id === entry.id;
+            return (
+              <div key={entry.id} style={{ borderTop: "1px solid var(--border)", paddingTop: 8, display: "grid", gap: 4 }}>
+                {isRenaming ? (
+                  <div style={{ display: "flex", gap: 6 }}>
+                    <input
+                      style={input}
+                      autoFocus
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ id: entry.id, name: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") { commit(renameEntry(entries, entry.id, renaming.name)); setRenaming(null); }
+                        if (e.key === "Escape") setRenaming(null);
+                      }}
+                    />
+                    <button style={btn} onClick={() => { commit(renameEntry(entries, entry.id, renaming.name)); setRenaming(null); }}>OK</button>
+                  </div>
+                ) : (
+                  <div style={{ fontWeight: 600, fontSize: 14 }} title={new Date(entry.savedAt).toLocaleString(lang === "pt" ? "pt-BR" : "en-US")}>
+                    {entry.name}
+                  </div>
+                )}
+                <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                  {sum.stageCount} {sum.stageCount === 1 ? S.libraryStage : S.libraryStages} · Z {sum.teeth}
+                  {" · "}
+                  {S.relation} {sum.ratio != null ? sum.ratio.toFixed(3) : "—"}
+                </div>
+                <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                  <button style={btn} onClick={() => { onLoad(design); setOpen(false); }}>{S.libraryLoad}</button>
+                  <button style={btn} onClick={() => setRenaming({ id: entry.id, name: entry.name })}>{S.libraryRename}</button>
+                  <button style={btn} onClick={() => commit(duplicateEntry(entries, entry.id, S.libraryCopySuffix))}>{S.libraryDuplicate}</button>
+                  <button
+                    style={btn}
+                    onClick={() => { if (window.confirm(`${S.libraryDeleteConfirm} "${entry.name}"?`)) commit(deleteEntry(entries, entry.id)); }}
+                  >
+                    {S.remove}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
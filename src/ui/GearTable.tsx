@@ -0,0 +1,84 @@
+import React from "react";
+import { strings, type Lang } from "./i18n";
+import type { GearTable as GearTableData, GearTableColumn } from "./shiftSchedule";
+
+type GearTableProps = {
+  lang: Lang;
+  table: GearTableData;
+  labelById: Map<string, string>;
+  format: (x: number) => string;
+  selectedGear?: string | null;
+  onSelectGear?: (id: string) => void;
+};
+
+const cell: React.CSSProperties = { padding: "3px 8px", borderBottom: "1px solid var(--border)", whiteSpace: "nowrap" };
+const num: React.CSSProperties = { ...cell, textAlign: "right", fontVariantNumeric: "tabular-nums" };
+const dot: React.CSSProperties = { ...cell, textAlign: "center" };
+
+export function GearTable({ lang, table, labelById, format, selectedGear, onSelectGear }: GearTableProps) {
+  const S = strings[lang];
+  const name = (omega: string) => labelById.get(omega) ?? omega;
+  const describe = (c: GearTableColumn) => (c.kind === "brake" ? `${name(c.a)} = 0` : `${name(c.a)} = ${name(c.b ?? "")}`);
+
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <div style={{ fontWeight: 600 }}>{S.gearTable}</div>
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ borderCollapse: "collapse", fontSize: 13, minWidth: "100%" }}>
+          <thead>
+            <tr style={{ opacity: 0.8 }}>
+              <th style={{ ...cell, textAlign: "left" }}>{S.gear}</th>
+              <th style={num}>{S.relation}</th>
+              <th style={num}>{S.ratioStep}</th>
+              {table.columns.map((c) => (
+                <th key={c.key} style={dot} title={describe(c)}>{c.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((row) => {
+              const active = selectedGear === row.id;
+              return (
+                <tr
+                  key={row.id}
+                  onClick={() => onSelectGear?.(row.id)}
+                  style={{
+                    cursor: onSelectGear ? "pointer" : undefined,
+                    background: active ? "#60a5fa30" : undefined,
+                    fontWeight: active ? 700 : undefined,
+                  }}
+                >
+                  <td style={cell}>{row.label[lang]}</td>
+                  <td style={num}>
+                    {row.ratio != null ? format(row.ratio) : <span style={{ color: "#fca5a5" }}>{row.error?.[lang] ?? "—"}</span>}
+                  </td>
+                  <td style={num}>{row.step != null ? format(row.step) : ""}</td>
+                  {table.columns.map((c) => (
+                    <td key={c.key} style={dot}>{row.engaged.includes(c.key) ? "●" : ""}</td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {table.spread != null && (
+        <div>
+          <b>{S.ratioSpread}:</b> {format(table.spread)}
+        </div>
+      )}
+
+      <div style={{ fontSize: "0.8rem", color: "var(--muted)", display: "grid", gap: 2 }}>
+        {table.columns.map((c) => (
+          <div key={c.key}>{c.label}: {describe(c)}</div>
+        ))}
+        {table.permanent.length > 0 && (
+          <div>
+            {S.permanentCouplings}: {table.permanent.map((c) => `${name(c.a)} = ${name(c.b)}`).join("; ")}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
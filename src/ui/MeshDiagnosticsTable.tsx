@@ -0,0 +1,88 @@
+import React from "react";
+import { strings, type Lang } from "./i18n";
+import type { MeshDiagnosticsResult, MeshIssue } from "../math/meshDiagnostics";
+
+type MeshDiagnosticsTableProps = {
+  lang: Lang;
+  result: MeshDiagnosticsResult | null;
+  labelById: Map<string, string>;
+  format: (x: number) => string;
+};
+
+const cell: React.CSSProperties = { padding: "3px 8px", borderBottom: "1px solid var(--border)", whiteSpace: "nowrap" };
+const num: React.CSSProperties = { ...cell, textAlign: "right", fontVariantNumeric: "tabular-nums" };
+const LEVEL_COLOR = { error: "#fca5a5", warning: "#fbbf24" } as const;
+
+const stageOf = (carrier: string) => Number(carrier.match(/^omega_b(\d+)$/)?.[1] ?? 0);
+
+export function MeshDiagnosticsTable({ lang, result, labelById, format }: MeshDiagnosticsTableProps) {
+  const S = strings[lang];
+  if (!result || result.meshes.length === 0) return null;
+
+  const stageIds = Array.from(new Set(result.meshes.map((m) => stageOf(m.carrier)))).sort((a, b) => a - b);
+  const label = (omega: string) => labelById.get(omega) ?? omega;
+  const issueLine = (iss: MeshIssue, k: number) => (
+    <div key={k} style={{ fontSize: "0.8rem", color: LEVEL_COLOR[iss.level] }}>
+      <b>{label(iss.gear)}:</b> {lang === "en" ? iss.mensagem_en : iss.mensagem}
+    </div>
+  );
+
+  return (
+    <div style={{ display: "grid", gap: 4 }}>
+      <div style={{ fontWeight: 600 }}>{S.meshDiagnostics}</div>
+      {stageIds.map((sid) => {
+        const meshes = result.meshes.filter((m) => stageOf(m.carrier) === sid);
+        const issues = [
+          ...meshes.flatMap((m) => m.issues),
+          ...result.gears.filter((g) => stageOf(g.carrier) === sid).flatMap((g) => g.issues),
+        ];
+        return (
+          <div key={sid} style={{ display: "grid", gap: 4 }}>
+            {stageIds.length > 1 && (
+              <div style={{ fontWeight: 600, opacity: 0.9 }}>
+                {S.planetary} {sid}
+              </div>
+            )}
+            <div style={{ overflowX: "auto" }}>
+              <table style={{ borderCollapse: "collapse", fontSize: 13, minWidth: "100%" }}>
+                <thead>
+                  <tr style={{ opacity: 0.8 }}>
+                    <th style={{ ...cell, textAlign: "left" }}>{S.meshDiagMesh}</th>
+                    <th style={num}>α′ (°)</th>
+                    <th style={num}>a′ (mm)</th>
+                    <th style={num}>εα</th>
+                    <th style={num}>εβ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {meshes.map((m) => {
+                    const worst = m.issues.some((i) => i.kind === "contactRatio" && i.level === "error")
+                      ? "error"
+                      : m.issues.some((i) => i.kind === "contactRatio")
+                        ? "warning"
+                        : null;
+                    return (
+                      <tr key={`${m.i}-${m.j}`}>
+                        <td style={cell}>{label(m.i)} – {label(m.j)}</td>
+                        <td style={num}>{format((m.operatingPressureAngle * 180) / Math.PI)}</td>
+                        <td style={num}>{format(m.centerDistance)}</td>
+                        <td style={{ ...num, color: worst ? LEVEL_COLOR[worst] : undefined }}>{format(m.transverseContactRatio)}</td>
+                        <td style={num}>{format(m.overlapContactRatio)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {issues.length === 0 ? (
+              <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>{S.meshDiagOk}</div>
+            ) : (
+              issues.map(issueLine)
+            )}
+          </div>
+        );
+      })}
+      <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>{S.meshDiagHint}</div>
+    </div>
+  );
+}
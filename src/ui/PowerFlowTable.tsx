@@ -0,0 +1,65 @@
+import React from "react";
+import { strings, type Lang, type StringKey } from "./i18n";
+import type { TorqueResult, TorqueRole } from "../math/torque";
+
+type PowerFlowTableProps = {
+  lang: Lang;
+  result: TorqueResult | null;
+  labelById: Map<string, string>;
+  format: (x: number) => string;
+};
+
+const ROLE_KEY: Record<TorqueRole, StringKey> = {
+  input: "roleInput",
+  output: "roleOutput",
+  reaction: "roleReaction",
+  free: "roleFree",
+  planet: "rolePlanet",
+};
+
+const cell: React.CSSProperties = { padding: "3px 8px", borderBottom: "1px solid var(--border)", whiteSpace: "nowrap" };
+const num: React.CSSProperties = { ...cell, textAlign: "right", fontVariantNumeric: "tabular-nums" };
+
+export function PowerFlowTable({ lang, result, labelById, format }: PowerFlowTableProps) {
+  const S = strings[lang];
+  if (!result) return null;
+
+  if (!result.valido) {
+    return (
+      <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>
+        <b>{S.powerFlow}:</b> {lang === "en" ? result.mensagem_en : result.mensagem}
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 4 }}>
+      <div style={{ fontWeight: 600 }}>{S.powerFlow}</div>
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ borderCollapse: "collapse", fontSize: 13, minWidth: "100%" }}>
+          <thead>
+            <tr style={{ opacity: 0.8 }}>
+              <th style={{ ...cell, textAlign: "left" }}>{S.member}</th>
+              <th style={num}>rpm</th>
+              <th style={num}>{S.torqueNm}</th>
+              <th style={num}>{S.powerW}</th>
+              <th style={{ ...cell, textAlign: "left" }} />
+            </tr>
+          </thead>
+          <tbody>
+            {result.members.map((m) => (
+              <tr key={m.omega}>
+                <td style={cell}>{labelById.get(m.omega) ?? m.omega}</td>
+                <td style={num}>{format(m.speed)}</td>
+                <td style={num}>{format(m.torque)}</td>
+                <td style={num}>{m.role === "planet" ? "—" : format(m.power)}</td>
+                <td style={{ ...cell, opacity: 0.7 }}>{S[ROLE_KEY[m.role]]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>{S.powerFlowHint}</div>
+    </div>
+  );
+}
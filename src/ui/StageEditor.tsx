@@ -1,10 +1,35 @@
 import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
-import type { Model, Element, Mesh, Constraint } from "../math/types";
-import { solveGearSystem } from "../math/solver";
+import { solveGearSystem, type ConstraintSuggestion, type SystemRow } from "../math/solver";
+import { solveGearSystemExact, symbolicToString } from "../math/exact";
+import { fractionToString } from "../lib/rational";
+import { deriveKinematics } from "../math/derivation";
 import { validarMontagem, type MontagemStatus } from "../math/topology";
+import { hasProfileShift, stageMeshes } from "../math/gearGeometry";
+import { verificarVizinhanca } from "../math/adjacency";
+import { computeStagePhasing, equalSpacingReport, type EqualSpacingReport } from "../render/phasing";
+import { solveTorques } from "../math/torque";
+import { solveEfficiency, DEFAULT_MESH_EFFICIENCY, MIN_MESH_EFFICIENCY } from "../math/efficiency";
+import { diagnoseMeshes } from "../math/meshDiagnostics";
+import { synthesisSteps, type SynthesisOptions, type ToothHooks } from "../math/synthesis";
+import { ladderStates, ladderSteps, ladderTopology, type LadderDesign, type LadderOptions } from "../math/ladder";
 import { strings, type Lang, type StringKey } from "./i18n";
 import { GearScene } from "../render/GearScene";
 import { useIsMobile } from "../lib/useIsMobile";
+import { PowerFlowTable } from "./PowerFlowTable";
+import { MeshDiagnosticsTable } from "./MeshDiagnosticsTable";
+import { SynthesisPanel, type SynthesisTargetRow } from "./SynthesisPanel";
+import { DerivationView } from "./DerivationView";
+import { derivationToLatex } from "./derivationExport";
+import { buildModelFromUI, buildOmegaOptions, omegaA, omegaB, omegaP, omegaS, stageMeshPairs } from "./buildModel";
+import { GearTable } from "./GearTable";
+import { evaluateGearTable } from "./shiftSchedule";
+import { clampProfileField, designToJSON, parseDesign, PROFILE_LIMITS, type DesignState } from "./designFile";
+import { BoundedNumberInput } from "./BoundedNumberInput";
+import { encodeShareHash, shareUrl, type SharedDesign } from "./shareLink";
+import { useUndoHistory } from "../lib/useUndoHistory";
+import { downloadBlob } from "../lib/download";
+import { runInSlices, type SliceSignal } from "../lib/slices";
+import { gearDataFromDesign, gearDataSheetHTML, gearDataToCSV, gearDataToJSON } from "./gearData";
 import {
   EXAMPLE_PRESETS,
   type Ex1GearId,
@@ -15,6 +40,9 @@ import {
   type UISpeed,
   type UIRatio,
   type UICoupling,
+  type UIShiftElement,
+  type PresetGear,
+  type ExampleData,
 } from "./presets";
 
 const EX1_PRESET = EXAMPLE_PRESETS.EX1;
@@ -22,10 +50,16 @@ const EX2_PRESET = EXAMPLE_PRESETS.EX2;
 const EX3_PRESET = EXAMPLE_PRESETS.EX3;
 const EX4_PRESET = EXAMPLE_PRESETS.EX4;
 
+// Anelar considerado no faseamento (a cena ignora o anel que não comporta o planeta)
+function phasingAnnulus(st: UIStage) {
+  return st.annulusZ != null && st.planetsZ.length > 0 && st.annulusZ > st.planetsZ[0] * 1.05 ? st.annulusZ : null;
+}
+
 function cloneStages(stages: UIStage[]): UIStage[] {
   return stages.map((s) => ({
     ...s,
     planetsZ: [...s.planetsZ],
+    ...(s.planetsX ? { planetsX: [...s.planetsX] } : {}),
   }));
 }
 
@@ -37,10 +71,20 @@ function cloneCouplings(couplings: UICoupling[]): UICoupling[] {
   return couplings.map((c) => ({ ...c }));
 }
 
+function cloneShiftElements(elements: UIShiftElement[]): UIShiftElement[] {
+  return elements.map((el) => ({ ...el }));
+}
+
 function cloneRatio(ratio: UIRatio): UIRatio {
   return { ...ratio };
 }
 
+function englishOrdinal(n: number) {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${["th", "st", "nd", "rd"][n % 10] ?? "th"}`;
+}
+
 /** ---------- Estilos ---------- */
 const layout: React.CSSProperties = {
   display: "grid",
@@ -84,6 +128,14 @@ const row2: React.CSSProperties = { display: "grid", gridTemplateColumns: "1fr 1
 const btn: React.CSSProperties = { padding: "0.5rem 0.75rem", borderRadius: 6, border: "1px solid var(--btn-border)", background: "var(--btn-bg)", color: "var(--text)", cursor: "pointer" };
 const small: React.CSSProperties = { fontSize: "0.8rem", color: "var(--muted)" };
 const btnIcon: React.CSSProperties = { ...btn, padding: "0.4rem 0.5rem", width: "2.25rem", textAlign: "center", lineHeight: 1 };
+// Linha envolvida num conflito do solver
+const conflictOutline: React.CSSProperties = { outline: "1px solid #fca5a5", outlineOffset: 2, borderRadius: 6 };
+const memberChip: React.CSSProperties = { display: "inline-block", padding: "1px 6px", margin: "2px 4px 0 0", borderRadius: 10, border: "1px solid #fbbf24", color: "#fbbf24" };
+
+// Diagnóstico do solver para o editor: grupos de restrições em conflito ou membros livres
+type SolverIssue =
+  | { kind: "over"; groups: SystemRow[][] }
+  | { kind: "under"; free: string[]; suggestions: ConstraintSuggestion[]; suggestionsClose: boolean; missing: number; velocities: Record<string, number> };
 const fieldRow: React.CSSProperties = { display: "grid", gridTemplateColumns: "1fr 2.25rem 7.5rem", gap: 8, alignItems: "center", minWidth: 0, marginBottom: "0.75rem" };
 const fieldRowNoX: React.CSSProperties = { display: "grid", gridTemplateColumns: "1fr 7.5rem", gap: 8, alignItems: "center", minWidth: 0, marginBottom: "0.75rem" };
 
@@ -93,11 +145,19 @@ export function StageEditor({
   exampleToLoad,
   onExampleLoaded,
   resetSignal,
+  onDesignChange,
+  undoSignal,
+  redoSignal,
+  onHistoryChange,
 }: {
   lang?: Lang;
-  exampleToLoad?: "EX1" | "EX2" | "EX3" | "EX4" | null;
+  exampleToLoad?: "EX1" | "EX2" | "EX3" | "EX4" | SharedDesign | null;
   onExampleLoaded?: (id: "EX1" | "EX2" | "EX3" | "EX4" | null) => void;
   resetSignal?: number;
+  onDesignChange?: (design: DesignState) => void;
+  undoSignal?: number;
+  redoSignal?: number;
+  onHistoryChange?: (state: { canUndo: boolean; canRedo: boolean }) => void;
 }) {
   const isMobile = useIsMobile();
   const t = (key: StringKey) => strings[lang][key];
@@ -126,12 +186,20 @@ export function StageEditor({
   const [ratio, setRatio] = useState<UIRatio>({ entrada: defaultSolar, saida: defaultAnnulus });
 
   const [couplings, setCouplings] = useState<UICoupling[]>([]);
+  const [shiftElements, setShiftElements] = useState<UIShiftElement[]>([]);
+  const [engaged, setEngaged] = useState<string[]>([]);
+  const [inputTorque, setInputTorque] = useState(100);
+  const [meshEfficiency, setMeshEfficiency] = useState(DEFAULT_MESH_EFFICIENCY);
   const [result, setResult] = useState<null | { velocities: Record<string, number>, ratios: { id:string, value:number }[] }>(null);
   const [error, setError] = useState<string | null>(null);
   const [underdeterminedMessage, setUnderdeterminedMessage] = useState<string | null>(null);
   const [overdeterminedMessage, setOverdeterminedMessage] = useState<string | null>(null);
+  const [solverIssue, setSolverIssue] = useState<SolverIssue | null>(null);
   const [panelExample, setPanelExample] = useState<"EX1" | "EX2" | "EX3" | "EX4" | null>(null);
+  // Transmissão vinda da síntese de escada: ocupa o painel de marchas como um exemplo
+  const [ladderDesign, setLadderDesign] = useState<ExampleData<string> | null>(null);
   const [selectedGear, setSelectedGear] = useState<string | null>(null);
+  const [gearTableOpen, setGearTableOpen] = useState(false);
   const [cameraZoomMultiplier, setCameraZoomMultiplier] = useState(1);
   const [cameraResetToken, setCameraResetToken] = useState(0);
   const [cameraZoomFitToken, setCameraZoomFitToken] = useState(0);
@@ -140,12 +208,48 @@ export function StageEditor({
   const DEFAULT_CAMERA_ZOOM = 1;
   const [gearModule, setGearModule] = useState(1);
   const [gearPressureDeg, setGearPressureDeg] = useState(20);
+  const [shiftOpen, setShiftOpen] = useState<Record<number, boolean>>({});
+  const [stageProfileOpen, setStageProfileOpen] = useState<Record<number, boolean>>({});
+  const [stageEtaOpen, setStageEtaOpen] = useState<Record<number, boolean>>({});
   const [gearWidth, setGearWidth] = useState(5);
   const [gearHelixDeg, setGearHelixDeg] = useState(0);
   const [backlash, setBacklash] = useState(0);
   const [undercut, setUndercut] = useState(true);
   const [backlashPlanetsOnly, setBacklashPlanetsOnly] = useState(false);
+
+  // Perfil de cada estágio para a validação de montagem (o do estágio, senão o global)
+  const montagemProfile = useCallback(
+    (s: UIStage) => ({ ...s, alphaRad: ((s.pressureAngleDeg ?? gearPressureDeg) * Math.PI) / 180, moduleMm: s.module ?? gearModule }),
+    [gearPressureDeg, gearModule],
+  );
+  // Montagem = regras de engrenamento + vizinhança das cópias (ângulos do faseamento da cena)
+  const avaliarMontagem = useCallback(
+    (st: UIStage, limite?: number): MontagemStatus => {
+      const perfil = montagemProfile(st);
+      const s = validarMontagem(st.solarZ, st.planetsZ, st.annulusZ, st.planetCopies ?? 1, perfil);
+      if (st.planetsZ.length === 0) return s;
+      const anglesFor = (copies: number, positions: [number, number][]) =>
+        computeStagePhasing({
+          stageId: st.id,
+          solarZ: st.solarZ,
+          annulusZ: phasingAnnulus(st),
+          planetsZ: st.planetsZ,
+          copies,
+          positions,
+        }).copyAngles;
+      const v = verificarVizinhanca(st, perfil, anglesFor, limite);
+      // mesmo com engrenamento inválido o campo de cópias precisa do máximo que cabe
+      if (!s.valido) return { ...s, vizinhanca: v.info };
+      if (!v.valido) return { tipo: "impossivel", valido: false, mensagem: v.mensagem, mensagem_en: v.mensagem_en, vizinhanca: v.info };
+      return { ...s, vizinhanca: v.info, mensagem: `${s.mensagem} ${v.mensagem}`, mensagem_en: `${s.mensagem_en ?? s.mensagem} ${v.mensagem_en}` };
+    },
+    [montagemProfile],
+  );
   const [gearPanelOpen, setGearPanelOpen] = useState(false);
+  const [jsonOpen, setJsonOpen] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
   const skipExampleClearRef = useRef(false);
   const SLIDER_MIN_POS = -9;
   const SLIDER_MAX_POS = 9;
@@ -227,7 +331,7 @@ export function StageEditor({
   }, [isMobile, viewportWidth]);
 
   useLayoutEffect(() => {
-    if (!panelExample) {
+    if (!panelExample && !ladderDesign) {
       setExamplePanelWidth(null);
       return;
     }
@@ -244,7 +348,7 @@ export function StageEditor({
     measure();
     window.addEventListener("resize", measure);
     return () => window.removeEventListener("resize", measure);
-  }, [panelExample, lang]);
+  }, [panelExample, ladderDesign, lang]);
 
   useEffect(() => {
     if (!isMobile) return;
@@ -377,11 +481,12 @@ export function StageEditor({
   }, [snapTimeScale]);
 
   const clearExampleSelectionIfNeeded = useCallback(() => {
-    if (!panelExample || skipExampleClearRef.current) return;
+    if ((!panelExample && !ladderDesign) || skipExampleClearRef.current) return;
     setPanelExample(null);
+    setLadderDesign(null);
     setSelectedGear(null);
     onExampleLoaded?.(null);
-  }, [panelExample, onExampleLoaded]);
+  }, [panelExample, ladderDesign, onExampleLoaded]);
 
   const runWithExampleContext = useCallback((fn: () => void) => {
     skipExampleClearRef.current = true;
@@ -393,6 +498,8 @@ export function StageEditor({
   }, []);
 
   const [decimals, setDecimals] = useState<number>(2);
+  const [exactDisplay, setExactDisplay] = useState(false);
+  const [derivationOpen, setDerivationOpen] = useState(false);
   const [montagem, setMontagem] = useState<Record<number, MontagemStatus>>({});
 // Altura relativa da cena 3D (parte de cima da coluna direita)
 const [viewFrac, setViewFrac] = useState(0.70);
@@ -406,6 +513,10 @@ const [viewFrac, setViewFrac] = useState(0.70);
     ]);
     setRatio({ entrada: defaultSolar, saida: defaultAnnulus });
     setCouplings([]);
+    setShiftElements([]);
+    setEngaged([]);
+    setInputTorque(100);
+    setMeshEfficiency(DEFAULT_MESH_EFFICIENCY);
     setResult(null);
     setError(null);
     setUnderdeterminedMessage(null);
@@ -441,6 +552,33 @@ function startDrag(e: React.MouseEvent) {
   window.addEventListener("mouseup", onUp);
 }
 
+  // Condição de montagem com espaçamento igual (ângulos reais do faseamento da cena)
+  const spacingByStage = useMemo(() => {
+    const out: Record<number, EqualSpacingReport> = {};
+    for (const st of stages) {
+      if (st.planetsZ.length === 0) continue;
+      out[st.id] = equalSpacingReport(st.solarZ, phasingAnnulus(st), st.planetsZ, st.planetCopies ?? 1);
+    }
+    return out;
+  }, [stages]);
+
+  // Contagens permitidas só até o que cabe sem colisão entre vizinhos
+  const spacingText = (r: EqualSpacingReport, maxPlanetas?: number) => {
+    const counts = r.constrained
+      ? r.allowedCounts.filter((n) => maxPlanetas == null || n <= maxPlanetas)
+      : Array.from({ length: Math.max(0, (maxPlanetas ?? 1) - 1) }, (_, i) => i + 2);
+    const allowed = `${t("allowedPlanetCounts")}: ${counts.length > 0 ? counts.join(", ") : t("noneLabel")}.`;
+    if (r.copies <= 1) return allowed;
+    if (!r.constrained) return `${t("equalSpacing")} (${t("spacingUnconstrained")}).`;
+    const expr = `(${r.ringSign > 0 ? "Zs + Za" : "|Zs − Za|"})/N = ${r.zEff}/${r.copies}`;
+    if (r.equal) return `${t("equalSpacing")}: ${expr} = ${(r.zEff ?? 0) / r.copies}. ${allowed}`;
+    const devs = r.deviationsDeg.map((d) => `${d > 0 ? "+" : ""}${fmt(d, 2)}°`).join(", ");
+    return `${t("unequalSpacing")}: ${expr} ${t("notInteger")}; ${t("spacingDeviations")}: ${devs}. ${allowed}`;
+  };
+
+  // Cópias: até o que cabe sem colisão entre vizinhos (sem baixar um valor já maior, ex.: de arquivo)
+  const copiesMax = (st: UIStage) => Math.max(st.planetCopies ?? 1, montagem[st.id]?.vizinhanca?.maxPlanetas ?? 1);
+
   const hasImpossible = React.useMemo(() => {
     const vals = Object.values(montagem || {});
     return vals.some((s: any) => s?.valido === false || s?.tipo === "impossivel" || /imposs[ií]vel/i.test(String(s?.mensagem || "")) );
@@ -485,8 +623,366 @@ const topologyKey = useMemo(() => {
     return m;
   }, [omegaOptions]);
 
+  // Restrição de uma linha do solver em texto legível (para a lista de conflitos)
+  function constraintText(row: SystemRow) {
+    const c = row.constraint;
+    if (!c) return row.tag;
+    const name = (v?: string) => (v ? labelById.get(v) ?? v : "");
+    const src = c.source ? ` (${c.source})` : "";
+    if (c.type === "known") return `${name(c.var)} = ${fmt(c.value ?? 0, decimals)} rpm`;
+    if (c.type === "lock") return `${name(c.var)} = 0${src}`;
+    return `${name(c.a)} = ${name(c.b)}${src}`;
+  }
+
+  // Linhas do editor que participam de algum conflito
+  const conflictRows = solverIssue?.kind === "over" ? solverIssue.groups.flat() : [];
+  const speedConflict = (v?: string) =>
+    conflictRows.some((r) => r.kind === "known" && !r.constraint?.source && r.constraint?.var === v);
+  const couplingConflict = (a?: string, b?: string) =>
+    conflictRows.some((r) => r.kind === "equal" && !r.constraint?.source &&
+      ((r.constraint?.a === a && r.constraint?.b === b) || (r.constraint?.a === b && r.constraint?.b === a)));
+  const shiftConflict = (id: string) => conflictRows.some((r) => r.constraint?.source === id);
+
+  // Só entram no solver os elementos acionados que estão completos
+  const activeEngaged = useMemo(
+    () => engaged.filter((id) => shiftElements.some((el) => el.id === id && el.a && (el.kind === "brake" || el.b))),
+    [engaged, shiftElements],
+  );
+
+  const torqueResult = useMemo(() => {
+    if (!result || !ratio.entrada || !ratio.saida) return null;
+    try {
+      const model = buildModelFromUI(stages, speeds, couplings, ratio, shiftElements);
+      return solveTorques(model, result.velocities, {
+        input: ratio.entrada,
+        output: ratio.saida,
+        inputTorque,
+        engaged: activeEngaged,
+      });
+    } catch {
+      return null;
+    }
+  }, [result, stages, speeds, couplings, ratio, shiftElements, activeEngaged, inputTorque]);
+
+  const efficiencyResult = useMemo(() => {
+    if (!result || !ratio.entrada || !ratio.saida) return null;
+    try {
+      const model = buildModelFromUI(stages, speeds, couplings, ratio, shiftElements);
+      return solveEfficiency(model, result.velocities, {
+        input: ratio.entrada,
+        output: ratio.saida,
+        inputTorque,
+        engaged: activeEngaged,
+        defaults: meshEfficiency,
+      });
+    } catch {
+      return null;
+    }
+  }, [result, stages, speeds, couplings, ratio, shiftElements, activeEngaged, inputTorque, meshEfficiency]);
+
+  // Geometria de cada engrenamento (independe das velocidades): contato, interferência, adelgaçamento
+  const meshDiagnostics = useMemo(() => {
+    const byCarrier = new Map(stages.map((s) => [omegaB(s.id), s]));
+    const shift: Record<string, number> = {};
+    for (const s of stages) {
+      if (s.solarX) shift[omegaS(s.id)] = s.solarX;
+      if (s.annulusX) shift[omegaA(s.id)] = s.annulusX;
+      s.planetsX?.forEach((x, k) => { if (x) shift[omegaP(s.id, k + 1)] = x; });
+    }
+    return diagnoseMeshes(buildModelFromUI(stages, [], [], {}), {
+      shift,
+      profile: (carrier) => {
+        const s = byCarrier.get(carrier);
+        return {
+          moduleMm: s?.module ?? gearModule,
+          alphaRad: ((s?.pressureAngleDeg ?? gearPressureDeg) * Math.PI) / 180,
+          widthMm: s?.widthMm ?? gearWidth,
+          helixRad: ((s?.helixDeg ?? gearHelixDeg) * Math.PI) / 180,
+        };
+      },
+    });
+  }, [stages, gearModule, gearPressureDeg, gearWidth, gearHelixDeg]);
+
+  // Conjunto de marchas do painel: exemplo aberto ou transmissão sintetizada
+  const activeGearSet: ExampleData<string> | null = panelExample ? EXAMPLE_PRESETS[panelExample] : ladderDesign;
+
+  const gearTable = useMemo(() => {
+    if (!activeGearSet || !gearTableOpen) return null;
+    return evaluateGearTable(stages, activeGearSet.gears, activeGearSet.order, {
+      couplings: activeGearSet.couplings,
+      shiftElements: activeGearSet.shiftElements,
+    });
+  }, [activeGearSet, gearTableOpen, stages]);
+
+  // Síntese de dentes: os alvos são as marchas do painel ou a relação atual
+  const synthesisSetup = useMemo(() => {
+    const preset = activeGearSet;
+    const gears: PresetGear<string>[] = preset
+      ? preset.gears
+      : [{ id: "current", label: { pt: "", en: "" }, speeds, couplings, ratio, engaged: activeEngaged }];
+    const design = preset ? { couplings: preset.couplings, shiftElements: preset.shiftElements } : { shiftElements };
+    const ratiosOf = (sts: UIStage[]) => evaluateGearTable(sts, gears, preset?.order, design).rows.map((r) => r.ratio);
+    const rows = evaluateGearTable(stages, gears, preset?.order, design).rows;
+    const ratioLabel = `${labelById.get(ratio.entrada ?? "") ?? "—"} / ${labelById.get(ratio.saida ?? "") ?? "—"}`;
+    const targets: SynthesisTargetRow[] = rows.map((r) => ({
+      id: r.id,
+      label: preset ? r.label[lang] : ratioLabel,
+      current: r.ratio,
+    }));
+    // planeta nas velocidades/acoplamentos/relação: a relação deixa de depender só de Zs e Za
+    const usesPlanets = JSON.stringify([gears, design]).includes("omega_p");
+    return { targets, ratiosOf, usesPlanets, defined: rows.every((r) => r.ratio != null) };
+  }, [activeGearSet, speeds, couplings, ratio, activeEngaged, shiftElements, stages, labelById, lang]);
+
+  const toothHooks = useMemo<ToothHooks<UIStage>>(() => ({
+    spaced: (st) => equalSpacingReport(st.solarZ, phasingAnnulus(st), st.planetsZ, st.planetCopies ?? 1).equal,
+    assembles: (st) => validarMontagem(st.solarZ, st.planetsZ, st.annulusZ, st.planetCopies ?? 1, montagemProfile(st)).valido,
+    clears: (st) => avaliarMontagem(st, st.planetCopies ?? 1).valido,
+    profile: montagemProfile,
+  }), [montagemProfile, avaliarMontagem]);
+
+  const runSynthesis = useCallback(
+    (options: SynthesisOptions, signal: SliceSignal) => {
+      if (!synthesisSetup.defined) return null;
+      // estágios sintetizados não herdam o deslocamento de perfil (x = 0)
+      const bare = stages.map((s) =>
+        options.stageIds.includes(s.id) ? { ...s, solarX: undefined, planetsX: undefined, annulusX: undefined } : s,
+      );
+      // em fatias: a busca pode levar segundos e a interface segue respondendo
+      return runInSlices(synthesisSteps(bare, { ...options, planetsAffectRatio: synthesisSetup.usesPlanets }, {
+        ...toothHooks,
+        ratios: synthesisSetup.ratiosOf,
+      }), signal);
+    },
+    [synthesisSetup, stages, toothHooks],
+  );
+
+  // Escada de marchas: topologia = estágios, ligações fixas e entrada/saída atuais
+  const ladderSetup = useMemo(() => {
+    const input = ratio.entrada;
+    const output = ratio.saida;
+    const fixed = (activeGearSet?.couplings ?? couplings).filter((c) => c.a && c.b);
+    const speed = speeds.find((s) => s.var === input)?.value || 10;
+    const modelOf = (sts: UIStage[]) =>
+      buildModelFromUI(sts, [{ var: input, value: speed }], fixed, { entrada: input, saida: output });
+    return { input, output, fixed, speed, modelOf };
+  }, [ratio, activeGearSet, couplings, speeds]);
+
+  const runLadder = useCallback(
+    (options: LadderOptions, signal: SliceSignal) => {
+      const { input, output, fixed, modelOf } = ladderSetup;
+      if (!input || !output) return null;
+      const bare = stages.map((s) => ({ ...s, solarX: undefined, planetsX: undefined, annulusX: undefined }));
+      const topology = ladderTopology(modelOf(bare), fixed, input, output);
+      if (!topology) return null;
+      return runInSlices(ladderSteps(bare, topology.elements, {
+        ...options,
+        planetsAffectRatio: JSON.stringify(fixed).includes("omega_p"),
+      }, {
+        ...toothHooks,
+        states: (sts) => ladderStates(modelOf(sts), input, output, topology.elements, topology.k),
+      }), signal);
+    },
+    [ladderSetup, stages, toothHooks],
+  );
+
+  // Monta a transmissão sintetizada (uma marcha por alvo) e abre a primeira marcha
+  function loadLadder(d: LadderDesign<UIStage>) {
+    const { input, output, fixed, speed } = ladderSetup;
+    let forward = 0;
+    let reverse = 0;
+    const gears: PresetGear<string>[] = d.assignment.map((a, k) => {
+      const n = a.ratio < 0 ? ++reverse : ++forward;
+      const suffix = n > 1 ? ` ${n}` : "";
+      return {
+        id: `l${k + 1}`,
+        label: a.ratio < 0
+          ? { pt: `${strings.pt.ladderReverse}${suffix}`, en: `${strings.en.ladderReverse}${suffix}` }
+          : { pt: `${n}${strings.pt.ladderGear}`, en: `${englishOrdinal(n)}${strings.en.ladderGear}` },
+        speeds: [{ var: input, value: speed }],
+        couplings: [],
+        engaged: [...a.engaged],
+        ratio: { entrada: input, saida: output },
+      };
+    });
+    const design: ExampleData<string> = {
+      stages: cloneStages(d.stages),
+      couplings: cloneCouplings(fixed),
+      shiftElements: d.elements.map((el) => ({ id: el.id, kind: el.type, a: el.a, ...(el.b ? { b: el.b } : {}) })),
+      gears,
+      order: gears.map((g) => g.id),
+    };
+    if (panelExample) onExampleLoaded?.(null);
+    loadLadderGear(gears[0].id, design);
+  }
+
+  // Carrega os dentes de um candidato (mantém o exemplo aberto para comparar as marchas)
+  function loadSynthesis(picked: UIStage[]) {
+    runWithExampleContext(() => {
+      for (const p of picked) {
+        updateStage(p.id, (s) => ({
+          ...s,
+          solarZ: p.solarZ,
+          planetsZ: [...p.planetsZ],
+          annulusZ: p.annulusZ,
+          planetCopies: p.planetCopies,
+          solarX: undefined,
+          planetsX: undefined,
+          annulusX: undefined,
+        }));
+      }
+    });
+  }
+
+  /** ---------- Arquivo de projeto ---------- */
+  const designState = useMemo<DesignState>(() => ({
+    stages,
+    speeds,
+    couplings,
+    shiftElements,
+    engaged,
+    ratio,
+    profile: {
+      module: gearModule,
+      pressureAngleDeg: gearPressureDeg,
+      widthMm: gearWidth,
+      helixDeg: gearHelixDeg,
+      backlash,
+      backlashPlanetsOnly,
+      undercut,
+    },
+  }), [stages, speeds, couplings, shiftElements, engaged, ratio, gearModule, gearPressureDeg, gearWidth, gearHelixDeg, backlash, backlashPlanetsOnly, undercut]);
+
+  useEffect(() => {
+    onDesignChange?.(designState);
+  }, [designState, onDesignChange]);
+
+  const designJSON = useMemo(() => (jsonOpen ? designToJSON(designState) : ""), [jsonOpen, designState]);
+
+  // Só o estado do projeto (usado também pelo desfazer/refazer)
+  const restoreDesign = useCallback((d: DesignState) => {
+    clearExampleSelectionIfNeeded();
+    setStages(cloneStages(d.stages));
+    setSpeeds(cloneSpeeds(d.speeds));
+    setCouplings(cloneCouplings(d.couplings));
+    setShiftElements(cloneShiftElements(d.shiftElements));
+    setEngaged([...d.engaged]);
+    setRatio(cloneRatio(d.ratio));
+    setGearModule(d.profile.module);
+    setGearPressureDeg(d.profile.pressureAngleDeg);
+    setGearWidth(d.profile.widthMm);
+    setGearHelixDeg(d.profile.helixDeg);
+    setBacklash(d.profile.backlash);
+    setBacklashPlanetsOnly(d.profile.backlashPlanetsOnly);
+    setUndercut(d.profile.undercut);
+  }, [clearExampleSelectionIfNeeded]);
+
+  function applyDesign(d: DesignState) {
+    restoreDesign(d);
+    setResult(null);
+    setError(null);
+    setUnderdeterminedMessage(null);
+    setOverdeterminedMessage(null);
+    resetCameraDefaults();
+  }
+
+  const { undo, redo, canUndo, canRedo } = useUndoHistory(designState, restoreDesign);
+
+  useEffect(() => {
+    onHistoryChange?.({ canUndo, canRedo });
+  }, [canUndo, canRedo, onHistoryChange]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (e Ctrl+Y); campos de texto livre mantêm o desfazer nativo
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+      const el = e.target as HTMLElement | null;
+      const textual = el instanceof HTMLTextAreaElement || (el instanceof HTMLInputElement && el.type !== "number" && el.type !== "checkbox" && el.type !== "range");
+      if (textual || el?.isContentEditable) return;
+      e.preventDefault();
+      if (key === "y" || e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [undo, redo]);
+
+  const lastUndoSignal = useRef(undoSignal);
+  useEffect(() => {
+    if (undoSignal == null || lastUndoSignal.current === undoSignal) return;
+    lastUndoSignal.current = undoSignal;
+    undo();
+  }, [undoSignal, undo]);
+
+  const lastRedoSignal = useRef(redoSignal);
+  useEffect(() => {
+    if (redoSignal == null || lastRedoSignal.current === redoSignal) return;
+    lastRedoSignal.current = redoSignal;
+    redo();
+  }, [redoSignal, redo]);
+
+  function saveDesignFile() {
+    const blob = new Blob([designToJSON(designState)], { type: "application/json" });
+    downloadBlob(blob, `engrenarium-${new Date().toISOString().slice(0, 10)}.json`);
+  }
+
+  function exportGearData(kind: "json" | "csv") {
+    const rows = gearDataFromDesign(designState);
+    const blob = kind === "json"
+      ? new Blob([gearDataToJSON(rows)], { type: "application/json" })
+      : new Blob([gearDataToCSV(rows)], { type: "text/csv" });
+    downloadBlob(blob, `engrenarium-engrenagens.${kind}`);
+  }
+
+  function openGearDataSheet() {
+    const win = window.open("", "_blank");
+    if (!win) return;
+    win.document.write(gearDataSheetHTML(gearDataFromDesign(designState), lang));
+    win.document.close();
+    win.focus();
+    win.print();
+  }
+
+  async function copyShareLink() {
+    const hash = await encodeShareHash({ design: designState, lang, timeScale });
+    // replaceState não dispara hashchange (evita recarregar o próprio projeto)
+    window.history.replaceState(null, "", hash);
+    try {
+      await navigator.clipboard.writeText(shareUrl(hash));
+    } catch {
+      // sem permissão de área de transferência: o link continua na barra de endereço
+    }
+    setLinkCopied(true);
+    window.setTimeout(() => setLinkCopied(false), 2000);
+  }
+
+  async function openDesignFile(file: File) {
+    const parsed = parseDesign(await file.text());
+    if (!parsed.valido) {
+      setImportError(lang === "en" ? parsed.mensagem_en : parsed.mensagem);
+      return;
+    }
+    setImportError(null);
+    applyDesign(parsed.design);
+  }
+
   const renderResultsBody = () => (
     <>
+      {gearTable && (
+        <>
+          <GearTable
+            lang={lang}
+            table={gearTable}
+            labelById={labelById}
+            format={(x) => fmt(x, decimals)}
+            selectedGear={selectedGear}
+            onSelectGear={loadPresetGear}
+          />
+          <hr style={{ borderColor: "var(--border)", margin: "8px 0" }} />
+        </>
+      )}
       {Object.keys(montagem).length > 0 && (
         <div
           style={{
@@ -508,6 +1004,7 @@ const topologyKey = useMemo(() => {
                : (lang === "en" ? "Carrier" : "Braço")}
               {" — "}
               {lang === "en" ? (st as any).mensagem_en ?? st.mensagem : st.mensagem}
+              {spacingByStage[Number(id)] && <div>{spacingText(spacingByStage[Number(id)], st.vizinhanca?.maxPlanetas)}</div>}
             </div>
           ))}
         </div>
@@ -522,6 +1019,36 @@ const topologyKey = useMemo(() => {
           <b>{lang === "en" ? "Error" : "Erro"}:</b> {overdeterminedMessage}
         </div>
       )}
+      {solverIssue?.kind === "over" && (
+        <div style={{ ...small, marginTop: 4 }}>
+          <b>{t("conflictingRows")}:</b>
+          {solverIssue.groups.map((g, k) => (
+            <div key={k} style={{ color: "#fca5a5" }}>{k + 1}. {g.map(constraintText).join("; ")}</div>
+          ))}
+        </div>
+      )}
+      {solverIssue?.kind === "under" && (
+        <div style={{ ...small, marginTop: 4 }}>
+          <div>
+            <b>{t("freeMembers")}:</b>{" "}
+            {solverIssue.free.map((v) => <span key={v} style={memberChip}>{labelById.get(v) ?? v}</span>)}
+          </div>
+          {solverIssue.suggestions.length > 0 && (
+            <div style={{ marginTop: 4 }}>
+              <b>{solverIssue.suggestionsClose ? `${t("closingOne")}:` : `${t("closingMany")} ${solverIssue.missing}`}</b>
+              <ul style={{ margin: "2px 0 0", paddingLeft: 18 }}>
+                {solverIssue.suggestions.map((sg, k) => (
+                  <li key={k}>
+                    {sg.type === "known"
+                      ? `${t("suggestKnown")} ${labelById.get(sg.var) ?? sg.var}`
+                      : `${t("suggestCouple")} ${labelById.get(sg.a) ?? sg.a} = ${labelById.get(sg.b) ?? sg.b}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
       {error && error !== underdeterminedMessage && error !== overdeterminedMessage && (
         <div style={{ ...small, color: "#fca5a5", marginTop: 4 }}>
           <b>{lang === "en" ? "Error" : "Erro"}:</b> {error}
@@ -529,7 +1056,7 @@ const topologyKey = useMemo(() => {
       )}
       <hr style={{ borderColor: "var(--border)", margin: "8px 0" }} />
 
-      <div style={{ display:"grid", gridTemplateColumns:"auto 1fr", columnGap:12, rowGap:4, alignItems:"center" }}>
+      <div style={{ display:"grid", gridTemplateColumns:"auto auto 1fr", columnGap:12, rowGap:4, alignItems:"center" }}>
         <div>
           <label style={{ ...label, display:"block", fontSize:12, marginBottom:2 }}>
             {t("decimalPlaces")}
@@ -544,6 +1071,20 @@ const topologyKey = useMemo(() => {
           />
         </div>
 
+        <div>
+          <label style={{ ...label, display:"block", fontSize:12, marginBottom:2 }}>
+            {t("numberDisplay")}
+          </label>
+          <select
+            style={{ ...input, width: "auto" }}
+            value={exactDisplay ? "fraction" : "decimal"}
+            onChange={(e) => setExactDisplay(e.target.value === "fraction")}
+          >
+            <option value="decimal">{t("displayDecimal")}</option>
+            <option value="fraction">{t("displayFraction")}</option>
+          </select>
+        </div>
+
         <div style={{ display: "flex", flexDirection: "column", alignItems: "flex-end" }}>
           <label
             style={{
@@ -592,7 +1133,25 @@ const topologyKey = useMemo(() => {
         </div>
       </div>
 
-      {!result ? (
+      {!result && solverIssue?.kind === "under" && Object.keys(solverIssue.velocities).length > 0 ? (
+        <div style={{ display: "grid", gap: 6 }}>
+          <div style={small}>{t("partialSolution")}</div>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+            {Object.entries(solverIssue.velocities).map(([k, v]) => (
+              <div key={k} style={{ background: "var(--input-bg)", border: "1px solid var(--border)", borderRadius: 6, padding: "6px 8px", minWidth: 140 }}>
+                <div style={{ fontSize: 12, opacity: 0.8 }}>{labelById.get(k) ?? k}</div>
+                <div style={{ fontWeight: 600 }}>{fmt(v, decimals)} rpm</div>
+              </div>
+            ))}
+            {solverIssue.free.map((k) => (
+              <div key={k} style={{ border: "1px dashed var(--border)", borderRadius: 6, padding: "6px 8px", minWidth: 140, opacity: 0.6 }}>
+                <div style={{ fontSize: 12 }}>{labelById.get(k) ?? k}</div>
+                <div style={{ fontWeight: 600 }}>{t("freeSpeed")}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : !result ? (
         <div style={{ opacity: 0.7 }}>{t("notCalculated")}</div>
       ) : (
         <>
@@ -603,7 +1162,27 @@ const topologyKey = useMemo(() => {
             return (
               <div style={{ display:"grid", gap:4 }}>
                 <div style={small}><b>{t("relation")}</b> {t("input")} / {t("output")}</div>
-                <div><b>{relLabel}:</b> {fmt(result.ratios[0].value, decimals)}</div>
+                <div><b>{relLabel}:</b> {exactResult?.ratios[0]?.value ? fractionToString(exactResult.ratios[0].value) : fmt(result.ratios[0].value, decimals)}</div>
+                {exactDisplay && (
+                  <div style={{ ...small, overflowWrap: "anywhere" }}>
+                    {exactResult?.ratioExpressions[0]?.value ? `= ${symbolicToString(exactResult.ratioExpressions[0].value)}` : t("exactUnavailable")}
+                  </div>
+                )}
+                {efficiencyResult?.valido && (
+                  <div>
+                    <b>{t("overallEfficiency")}:</b> {fmt(efficiencyResult.efficiency * 100, decimals)} %
+                    <span style={small}> ({t("powerLoss")} {fmt(efficiencyResult.loss, decimals)} W / {fmt(efficiencyResult.powerIn, decimals)} W)</span>
+                  </div>
+                )}
+                {efficiencyResult && !efficiencyResult.valido && (
+                  <div style={small}>{lang === "en" ? efficiencyResult.mensagem_en : efficiencyResult.mensagem}</div>
+                )}
+                {efficiencyResult?.valido && efficiencyResult.recirculating && (
+                  <div style={{ ...small, color: "#fbbf24" }}>
+                    <b>{t("recirculation")}:</b> {fmt(efficiencyResult.circulatingPower, decimals)} W {t("recirculationHint")}
+                    {" ("}{efficiencyResult.recirculationPaths.map((id) => id.split("=").map((v) => labelById.get(v) ?? v).join(" = ")).join("; ")}{")"}
+                  </div>
+                )}
               </div>
             );
           })()}
@@ -639,7 +1218,10 @@ const topologyKey = useMemo(() => {
                         <div style={{ fontSize:12, opacity:0.8, whiteSpace:"nowrap", overflow:"hidden", textOverflow:"ellipsis" }}>
                           {labelById.get(k) ?? k}
                         </div>
-                        <div style={{ fontWeight:600 }}>{fmt(v, decimals)} rpm</div>
+                        <div style={{ fontWeight:600 }}>{exactResult?.velocities[k] ? fractionToString(exactResult.velocities[k]) : fmt(v, decimals)} rpm</div>
+                        {exactResult?.expressions?.[k] && (
+                          <div style={{ ...small, overflowWrap: "anywhere", maxWidth: 260 }}>{symbolicToString(exactResult.expressions[k])}</div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -647,11 +1229,69 @@ const topologyKey = useMemo(() => {
               ));
             })()}
           </div>
+
+          <hr style={{ borderColor:"var(--border)", margin:"8px 0" }}/>
+          <DerivationView
+            lang={lang}
+            open={derivationOpen}
+            onToggle={() => setDerivationOpen((o) => !o)}
+            derivation={derivation}
+            labelById={labelById}
+            onExportLatex={exportDerivationLatex}
+          />
+
+          {torqueResult && (
+            <>
+              <hr style={{ borderColor:"var(--border)", margin:"8px 0" }}/>
+              <PowerFlowTable
+                lang={lang}
+                result={torqueResult}
+                labelById={labelById}
+                format={(x) => fmt(x, decimals)}
+              />
+            </>
+          )}
+        </>
+      )}
+
+      {meshDiagnostics.meshes.length > 0 && (
+        <>
+          <hr style={{ borderColor:"var(--border)", margin:"8px 0" }}/>
+          <MeshDiagnosticsTable
+            lang={lang}
+            result={meshDiagnostics}
+            labelById={labelById}
+            format={(x) => fmt(x, Math.min(decimals, 3))}
+          />
         </>
       )}
     </>
   );
 
+function setStageProfileField(stageId: number, key: "module" | "pressureAngleDeg" | "widthMm" | "helixDeg", value: number | undefined) {
+  updateStage(stageId, (s) => ({ ...s, [key]: value }));
+}
+
+function setStageMeshEfficiency(stageId: number, key: string, raw: string) {
+  const v = Number(raw);
+  updateStage(stageId, (s) => {
+    const rest = { ...s.meshEfficiency };
+    delete rest[key];
+    if (raw === "" || !Number.isFinite(v)) return { ...s, meshEfficiency: Object.keys(rest).length ? rest : undefined };
+    return { ...s, meshEfficiency: { ...rest, [key]: Math.max(MIN_MESH_EFFICIENCY, Math.min(1, v)) } };
+  });
+}
+
+function setProfileShift(stageId: number, gear: "sun" | "ring" | number, x: number) {
+  const value = Number.isFinite(x) ? x : 0;
+  updateStage(stageId, (s) => {
+    if (gear === "sun") return { ...s, solarX: value };
+    if (gear === "ring") return { ...s, annulusX: value };
+    const planetsX = s.planetsZ.map((_, k) => (k === gear ? value : s.planetsX?.[k] ?? 0));
+    return { ...s, planetsX };
+  });
+}
+
 function addPlanet(stageId: number) {
   updateStage(stageId, (s) => {
     // valor padrão do novo planeta (mantém o que você já fazia)
@@ -687,19 +1327,20 @@ function addPlanet(stageId: number) {
       const newPlanets = s.planetsZ.filter((_, k) => k !== idx);
       const Ns = s.solarZ ?? s.lastSolarZ;
 
+      const planetsX = s.planetsX?.filter((_, k) => k !== idx);
       if (newPlanets.length === 0 || s.annulusZ == null || Ns == null) {
-        return { ...s, planetsZ: newPlanets };
+        return { ...s, planetsZ: newPlanets, planetsX };
       }
 
       const maxNa = Ns + 2 * newPlanets.reduce((acc, z) => acc + z, 0);
-      const status = validarMontagem(Ns, newPlanets, s.annulusZ, s.planetCopies ?? 1);
+      const status = validarMontagem(Ns, newPlanets, s.annulusZ, s.planetCopies ?? 1, montagemProfile({ ...s, planetsX }));
 
       // Se o anelar atual não encaixa mais com o conjunto de planetas, ajusta para o valor limite (braço reto)
       if (!status.valido) {
-        return { ...s, planetsZ: newPlanets, annulusZ: maxNa, lastAnnulusZ: maxNa };
+        return { ...s, planetsZ: newPlanets, planetsX, annulusZ: maxNa, lastAnnulusZ: maxNa };
       }
 
-      return { ...s, planetsZ: newPlanets };
+      return { ...s, planetsZ: newPlanets, planetsX };
     });
   }
   function removeSolar(stageId: number) {
@@ -708,6 +1349,7 @@ function addPlanet(stageId: number) {
     clearSpeedVar(varId(stageId));
     setRatio(r => ({ entrada: r.entrada === varId(stageId) ? undefined : r.entrada, saida: r.saida === varId(stageId) ? undefined : r.saida }));
     setCouplings(cs => cs.filter(c => c.a !== varId(stageId) && c.b !== varId(stageId)));
+    setShiftElements(els => els.filter(el => el.a !== varId(stageId) && el.b !== varId(stageId)));
   }
   function restoreSolar(stageId: number) { updateStage(stageId, (s) => ({ ...s, solarZ: s.lastSolarZ ?? 20 })); }
 
@@ -717,10 +1359,39 @@ function addPlanet(stageId: number) {
     clearSpeedVar(varId(stageId));
     setRatio(r => ({ entrada: r.entrada === varId(stageId) ? undefined : r.entrada, saida: r.saida === varId(stageId) ? undefined : r.saida }));
     setCouplings(cs => cs.filter(c => c.a !== varId(stageId) && c.b !== varId(stageId)));
+    setShiftElements(els => els.filter(el => el.a !== varId(stageId) && el.b !== varId(stageId)));
   }
   function restoreAnnulus(stageId: number) { updateStage(stageId, (s) => ({ ...s, annulusZ: s.lastAnnulusZ ?? 60 })); }
   function removeCoupling(index: number) { clearExampleSelectionIfNeeded(); setCouplings(cs => cs.filter((_, i) => i !== index)); }
 
+  function addShiftElement(kind: UIShiftElement["kind"]) {
+    clearExampleSelectionIfNeeded();
+    setShiftElements((els) => {
+      const prefix = kind === "clutch" ? "C" : "B";
+      let n = 1;
+      while (els.some((el) => el.id === `${prefix}${n}`)) n++;
+      return [...els, { id: `${prefix}${n}`, kind }];
+    });
+  }
+  function updateShiftElement(index: number, patch: Partial<UIShiftElement>) {
+    clearExampleSelectionIfNeeded();
+    const prevId = shiftElements[index]?.id;
+    setShiftElements((els) => els.map((el, i) => (i === index ? { ...el, ...patch } : el)));
+    if (patch.id != null && prevId != null && patch.id !== prevId) {
+      setEngaged((ids) => ids.map((id) => (id === prevId ? patch.id! : id)));
+    }
+  }
+  function removeShiftElement(index: number) {
+    clearExampleSelectionIfNeeded();
+    const victim = shiftElements[index]?.id;
+    setShiftElements((els) => els.filter((_, i) => i !== index));
+    setEngaged((ids) => ids.filter((id) => id !== victim));
+  }
+  function toggleEngaged(id: string) {
+    clearExampleSelectionIfNeeded();
+    setEngaged((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
+  }
+
 function addStage() {
   clearExampleSelectionIfNeeded();
   setStages((xs) => {
@@ -771,6 +1442,7 @@ function addStage() {
       return xs.filter((s) => s.id !== id);
     });
     setCouplings((cs) => cs.filter((c) => (c.a && !belongsToStage(c.a, id)) && (c.b && !belongsToStage(c.b, id))));
+    setShiftElements((els) => els.filter((el) => !(el.a && belongsToStage(el.a, id)) && !(el.b && belongsToStage(el.b, id))));
   }
   function belongsToStage(omega: string, sid: number) {
     return omega.includes(`omega_s${sid}`) || omega.includes(`omega_a${sid}`) || omega.includes(`omega_b${sid}`) || omega.includes(`omega_p${sid}_`);
@@ -778,13 +1450,13 @@ function addStage() {
 
   const handleSpeedVarChange = (index: number, value: string) => {
     // Exceção: se há exemplo carregado, permitir editar apenas a 1ª velocidade sem limpar
-    if (!(panelExample && index === 0)) clearExampleSelectionIfNeeded();
+    if (!(activeGearSet && index === 0)) clearExampleSelectionIfNeeded();
     const varId = value || undefined;
     setSpeeds((current) => current.map((s, i) => (i === index ? { ...s, var: varId } : s)));
   };
 
   const handleSpeedValueChange = (index: number, value: number) => {
-    if (!(panelExample && index === 0)) clearExampleSelectionIfNeeded();
+    if (!(activeGearSet && index === 0)) clearExampleSelectionIfNeeded();
     setSpeeds((current) => current.map((s, i) => (i === index ? { ...s, value } : s)));
   };
 
@@ -806,11 +1478,6 @@ function addStage() {
   const ex3Gears = EX3_PRESET.gears;
   const ex4Gears = EX4_PRESET.gears;
 
-  const ex1GearOrder = EX1_PRESET.order;
-  const ex2GearOrder = EX2_PRESET.order;
-  const ex3GearOrder = EX3_PRESET.order;
-  const ex4GearOrder = EX4_PRESET.order;
-
   /** presets (apenas para preencher mais rapido) */
   function loadEX1() {
     const gear = ex1Gears[0];
@@ -824,7 +1491,9 @@ function addStage() {
     runWithExampleContext(() => {
       const gear = ex1Gears.find((g) => g.id === gearId) ?? ex1Gears[0];
       setStages(cloneStages(EX1_PRESET.stages));
-      setCouplings(cloneCouplings(gear.couplings));
+      setCouplings(cloneCouplings([...(EX1_PRESET.couplings ?? []), ...gear.couplings]));
+      setShiftElements(cloneShiftElements(EX1_PRESET.shiftElements ?? []));
+      setEngaged([...(gear.engaged ?? [])]);
       setSpeeds(cloneSpeeds(gear.speeds));
       setRatio(cloneRatio(gear.ratio));
       setResult(null);
@@ -844,7 +1513,9 @@ function addStage() {
     runWithExampleContext(() => {
       const gear = ex4Gears.find((g) => g.id === gearId) ?? ex4Gears[0];
       setStages(cloneStages(EX4_PRESET.stages));
-      setCouplings(cloneCouplings(gear.couplings));
+      setCouplings(cloneCouplings([...(EX4_PRESET.couplings ?? []), ...gear.couplings]));
+      setShiftElements(cloneShiftElements(EX4_PRESET.shiftElements ?? []));
+      setEngaged([...(gear.engaged ?? [])]);
       setSpeeds(cloneSpeeds(gear.speeds));
       setRatio(cloneRatio(gear.ratio));
       setResult(null);
@@ -860,7 +1531,9 @@ function addStage() {
     runWithExampleContext(() => {
       const gear = ex2Gears.find((g) => g.id === gearId) ?? ex2Gears[0];
       setStages(cloneStages(EX2_PRESET.stages));
-      setCouplings(cloneCouplings(gear.couplings));
+      setCouplings(cloneCouplings([...(EX2_PRESET.couplings ?? []), ...gear.couplings]));
+      setShiftElements(cloneShiftElements(EX2_PRESET.shiftElements ?? []));
+      setEngaged([...(gear.engaged ?? [])]);
       setSpeeds(cloneSpeeds(gear.speeds));
       setRatio(cloneRatio(gear.ratio));
       setResult(null);
@@ -876,7 +1549,9 @@ function addStage() {
     runWithExampleContext(() => {
       const gear = ex3Gears.find((g) => g.id === gearId) ?? ex3Gears[0];
       setStages(cloneStages(EX3_PRESET.stages));
-      setCouplings(cloneCouplings(gear.couplings));
+      setCouplings(cloneCouplings([...(EX3_PRESET.couplings ?? []), ...gear.couplings]));
+      setShiftElements(cloneShiftElements(EX3_PRESET.shiftElements ?? []));
+      setEngaged([...(gear.engaged ?? [])]);
       setSpeeds(cloneSpeeds(gear.speeds));
       setRatio(cloneRatio(gear.ratio));
       setResult(null);
@@ -889,8 +1564,43 @@ function addStage() {
     });
   }
 
+  function loadLadderGear(gearId: string, design = ladderDesign) {
+    if (!design) return;
+    runWithExampleContext(() => {
+      const gear = design.gears.find((g) => g.id === gearId) ?? design.gears[0];
+      setStages(cloneStages(design.stages));
+      setCouplings(cloneCouplings([...(design.couplings ?? []), ...gear.couplings]));
+      setShiftElements(cloneShiftElements(design.shiftElements ?? []));
+      setEngaged([...(gear.engaged ?? [])]);
+      setSpeeds(cloneSpeeds(gear.speeds));
+      setRatio(cloneRatio(gear.ratio));
+      setResult(null);
+      setError(null);
+      setUnderdeterminedMessage(null);
+      setOverdeterminedMessage(null);
+      setPanelExample(null);
+      setLadderDesign(design);
+      setSelectedGear(gear.id);
+    });
+  }
+
+  function loadPresetGear(gid: string) {
+    if (panelExample === "EX3") loadEX3(gid as Ex3GearId);
+    else if (panelExample === "EX4") loadEX4FromPanel(gid as Ex4GearId);
+    else if (panelExample === "EX2") loadEX2FromPanel(gid as Ex2GearId);
+    else if (panelExample === "EX1") loadEX1FromPanel(gid as Ex1GearId);
+    else if (ladderDesign) loadLadderGear(gid);
+  }
+
   useEffect(() => {
     if (!exampleToLoad) return;
+    if (typeof exampleToLoad === "object") {
+      // projeto vindo de link compartilhado
+      applyDesign(exampleToLoad.design);
+      if (exampleToLoad.timeScale != null) setTimeScale(snapTimeScale(exampleToLoad.timeScale));
+      onExampleLoaded?.(null);
+      return;
+    }
     if (exampleToLoad === "EX1") loadEX1();
     else if (exampleToLoad === "EX2") loadEX2();
     else if (exampleToLoad === "EX3") loadEX3();
@@ -914,7 +1624,7 @@ useEffect(() => {
     setUnderdeterminedMessage(null);
     const statusPorStage: Record<number, MontagemStatus> = {};
     for (const st of stages) {
-      const s = validarMontagem(st.solarZ, st.planetsZ, st.annulusZ, st.planetCopies ?? 1);
+      const s = avaliarMontagem(st);
       statusPorStage[st.id] = s;
       if (!s.valido) {
         setMontagem(statusPorStage);
@@ -926,18 +1636,19 @@ useEffect(() => {
   } catch (e:any) {
     setError(e?.message || String(e));
   }
-}, [stages, lang]); // <— apenas montagem/erro aqui
+}, [stages, lang, avaliarMontagem]); // <— apenas montagem/erro aqui
 
 const resultMemo = useMemo(() => {
   try {
     if (hasImpossible) return null;
-    const model = buildModelFromUI(stages, speeds, couplings, ratio);
+    const model = buildModelFromUI(stages, speeds, couplings, ratio, shiftElements);
 
     const hasValidRatio = !!(ratio.entrada && ratio.saida);
-    const r = solveGearSystem(model as any);
+    const r = solveGearSystem(model as any, activeEngaged);
 
-    if ((r as any).isUnderdetermined) {
-      return null;
+    // Subdeterminado: anima só os membros já determinados; os livres ficam em cinza
+    if ("isUnderdetermined" in r && r.isUnderdetermined) {
+      return { velocities: r.velocities, ratios: [], free: r.undetermined ?? [] };
     }
 
 	    return {
@@ -947,7 +1658,33 @@ const resultMemo = useMemo(() => {
 	  } catch {
 	    return null;
 	  }
-	}, [stages, speeds, couplings, ratio, lang, hasImpossible]);
+	}, [stages, speeds, couplings, ratio, shiftElements, activeEngaged, lang, hasImpossible]);
+
+  // Frações exatas e expressões em função dos dentes (só com a exibição exata ligada)
+  const exactResult = useMemo(() => {
+    if (!exactDisplay || !result) return null;
+    try {
+      const r = solveGearSystemExact(buildModelFromUI(stages, speeds, couplings, ratio, shiftElements), activeEngaged);
+      return "velocities" in r ? r : null;
+    } catch {
+      return null;
+    }
+  }, [exactDisplay, result, stages, speeds, couplings, ratio, shiftElements, activeEngaged]);
+
+  // Derivação passo a passo (só calculada com a seção aberta)
+  const derivation = useMemo(() => {
+    if (!derivationOpen || !result) return null;
+    try {
+      return deriveKinematics(buildModelFromUI(stages, speeds, couplings, ratio, shiftElements), activeEngaged);
+    } catch {
+      return null;
+    }
+  }, [derivationOpen, result, stages, speeds, couplings, ratio, shiftElements, activeEngaged]);
+
+  function exportDerivationLatex() {
+    if (!derivation) return;
+    downloadBlob(new Blob([derivationToLatex(derivation, lang)], { type: "application/x-tex" }), "engrenarium-derivacao.tex");
+  }
 
 
   /** cálculo automático sempre que algo relevante mudar */
@@ -956,9 +1693,10 @@ const resultMemo = useMemo(() => {
       setError(null);
       setUnderdeterminedMessage(null);
       setOverdeterminedMessage(null);
+      setSolverIssue(null);
       const statusPorStage: Record<number, MontagemStatus> = {};
       for (const st of stages) {
-        const s = validarMontagem(st.solarZ, st.planetsZ, st.annulusZ, st.planetCopies ?? 1);
+        const s = avaliarMontagem(st);
         statusPorStage[st.id] = s;
         if (!s.valido) {
           setMontagem(statusPorStage);
@@ -968,10 +1706,10 @@ const resultMemo = useMemo(() => {
       }
       setMontagem(statusPorStage);
 
-      const model = buildModelFromUI(stages, speeds, couplings, ratio);
+      const model = buildModelFromUI(stages, speeds, couplings, ratio, shiftElements);
       const hasValidRatio = !!(ratio.entrada && ratio.saida);
 
-      const r = solveGearSystem(model as any);
+      const r = solveGearSystem(model as any, activeEngaged);
 
       if ((r as any).isUnderdetermined) {
         const missing = Math.max(1, Number((r as any).missingConstraints ?? 1));
@@ -983,6 +1721,9 @@ const resultMemo = useMemo(() => {
         setError(msg);
         setUnderdeterminedMessage(msg);
         setOverdeterminedMessage(null);
+        if ("suggestions" in r && r.suggestions) {
+          setSolverIssue({ kind: "under", free: r.undetermined ?? [], suggestions: r.suggestions, suggestionsClose: r.suggestionsClose, missing, velocities: r.velocities });
+        }
         setResult(null);
         return;
       }
@@ -997,6 +1738,7 @@ const resultMemo = useMemo(() => {
         setError(msg);
         setOverdeterminedMessage(msg);
         setUnderdeterminedMessage(null);
+        if ("conflictGroups" in r && r.conflictGroups) setSolverIssue({ kind: "over", groups: r.conflictGroups });
         setResult(null);
         return;
       }
@@ -1011,7 +1753,7 @@ const resultMemo = useMemo(() => {
       setOverdeterminedMessage(null);
       setResult(null);
     }
-  }, [stages, speeds, couplings, ratio, lang]);
+  }, [stages, speeds, couplings, ratio, shiftElements, activeEngaged, lang, avaliarMontagem]);
 
   /** Garante que, se houver 2+ planetárias, exista ao menos 1 linha A/B visível */
   useEffect(() => {
@@ -1093,19 +1835,125 @@ const resultMemo = useMemo(() => {
                 style={input}
                 type="number"
                 min={1}
-                max={5}
+                max={copiesMax(st)}
                 value={st.planetCopies ?? 1}
                 onChange={(e) =>
                   updateStage(st.id, (s) => ({
                     ...s,
                     planetCopies:
                       e.target.value === "" ? 1 :
-                      Math.max(1, Math.min(5, Number(e.target.value)))
+                      Math.max(1, Math.min(copiesMax(s), Number(e.target.value)))
                   }))
                 }
               />
             </div>
 
+            {/* PERFIL DO ESTÁGIO (vazio = global) */}
+            {(() => {
+              const open = stageProfileOpen[st.id] ?? (st.module != null || st.pressureAngleDeg != null || st.widthMm != null || st.helixDeg != null);
+              const fields = [
+                { key: "module", text: strings[lang].module, global: gearModule, step: 0.25 },
+                { key: "pressureAngleDeg", text: strings[lang].pressureAngle, global: gearPressureDeg, step: 1 },
+                { key: "widthMm", text: strings[lang].gearWidth, global: gearWidth, step: 1 },
+                { key: "helixDeg", text: strings[lang].helixAngle, global: gearHelixDeg, step: 1 },
+              ] as const;
+              return (
+                <>
+                  <button
+                    style={{ ...btn, display: "block", margin: "0 0 8px" }}
+                    onClick={() => setStageProfileOpen((m) => ({ ...m, [st.id]: !open }))}
+                  >
+                    {t("stageProfile")} {open ? "▾" : "▸"}
+                  </button>
+                  {open && (
+                    <div style={{ marginBottom: 8 }}>
+                      {fields.map((f) => (
+                        <div key={f.key} style={fieldRowNoX}>
+                          <label style={label}>{f.text}</label>
+                          <BoundedNumberInput style={input} step={f.step} placeholder={String(f.global)} allowEmpty
+                            value={st[f.key]}
+                            clamp={(v) => clampProfileField(f.key, v)}
+                            onCommit={(v) => setStageProfileField(st.id, f.key, v)}/>
+                        </div>
+                      ))}
+                      <div style={small}>{t("stageProfileHint")}</div>
+                    </div>
+                  )}
+                </>
+              );
+            })()}
+
+            {/* RENDIMENTO POR MALHA (vazio = padrão ext./int.) */}
+            {(() => {
+              const open = stageEtaOpen[st.id] ?? Object.keys(st.meshEfficiency ?? {}).length > 0;
+              const gearName = (omega: string) =>
+                omega === omegaS(st.id) ? "S" : omega === omegaA(st.id) ? "A" : `P${st.planetsZ.length === 1 ? "" : omega.split("_").at(-1)}`;
+              return (
+                <>
+                  <button
+                    style={{ ...btn, display: "block", margin: "0 0 8px" }}
+                    onClick={() => setStageEtaOpen((m) => ({ ...m, [st.id]: !open }))}
+                  >
+                    {t("stageMeshEfficiency")} {open ? "▾" : "▸"}
+                  </button>
+                  {open && (
+                    <div style={{ marginBottom: 8 }}>
+                      {stageMeshPairs(st).map((m) => (
+                        <div key={m.key} style={fieldRowNoX}>
+                          <label style={label}>η {gearName(m.i)}–{gearName(m.j)}</label>
+                          <input style={input} type="number" min={MIN_MESH_EFFICIENCY} max={1} step={0.005}
+                            placeholder={String(meshEfficiency[m.type])}
+                            value={st.meshEfficiency?.[m.key] ?? ""}
+                            onChange={(e) => setStageMeshEfficiency(st.id, m.key, e.target.value)}/>
+                        </div>
+                      ))}
+                      <div style={small}>{t("stageMeshEfficiencyHint")}</div>
+                    </div>
+                  )}
+                </>
+              );
+            })()}
+
+            {/* DESLOCAMENTO DE PERFIL */}
+            {(() => {
+              const open = shiftOpen[st.id] ?? hasProfileShift(st);
+              const { alphaRad: alpha, moduleMm: stageModule } = montagemProfile(st);
+              const gearName = (g: "sun" | "ring" | number) =>
+                g === "sun" ? "S" : g === "ring" ? "A" : `P${st.planetsZ.length === 1 ? "" : g + 1}`;
+              const shiftRow = (key: string, text: string, value: number, gear: "sun" | "ring" | number) => (
+                <div key={key} style={fieldRowNoX}>
+                  <label style={label}>x {text}</label>
+                  <input style={input} type="number" step={0.05} value={value}
+                    onChange={(e) => setProfileShift(st.id, gear, e.target.value === "" ? 0 : Number(e.target.value))}/>
+                </div>
+              );
+              return (
+                <>
+                  <button
+                    style={{ ...btn, display: "block", margin: "0 0 8px" }}
+                    onClick={() => setShiftOpen((m) => ({ ...m, [st.id]: !open }))}
+                  >
+                    {t("profileShift")} {open ? "▾" : "▸"}
+                  </button>
+                  {open && (
+                    <div style={{ marginBottom: 8 }}>
+                      {st.solarZ != null && shiftRow("s", t("solar"), st.solarX ?? 0, "sun")}
+                      {st.planetsZ.map((_, i) =>
+                        shiftRow(`p${i}`, `${t("planet")} ${st.planetsZ.length === 1 ? "" : i + 1}`, st.planetsX?.[i] ?? 0, i)
+                      )}
+                      {st.annulusZ != null && shiftRow("a", t("annulus"), st.annulusX ?? 0, "ring")}
+                      {stageMeshes(st, alpha).map((m, k) => (
+                        <div key={k} style={small}>
+                          {gearName(m.from)}–{gearName(m.to)}: α' = {Number.isFinite(m.operatingPressureAngle) ? (m.operatingPressureAngle * 180 / Math.PI).toFixed(3) : "—"}°,
+                          {" "}a' = {Number.isFinite(m.centerDistance) ? (m.centerDistance * stageModule).toFixed(3) : "—"} mm
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              );
+            })()}
+
             <div style={{ fontSize: 12, color: "var(--muted)", marginTop: 4 }}>
               {t("meshChainHint")}
             </div>
@@ -1123,7 +1971,7 @@ const resultMemo = useMemo(() => {
           {(() => {
             const rows = (couplings.length > 0) ? couplings : [{}];
             return rows.map((c, i) => (
-              <div key={i} style={{ display: "grid", gridTemplateColumns: couplings.length > 0 ? "1fr 1fr 36px" : "1fr 1fr", gap: 8, alignItems: "center", marginBottom: 8 }}>
+              <div key={i} style={{ display: "grid", gridTemplateColumns: couplings.length > 0 ? "1fr 1fr 36px" : "1fr 1fr", gap: 8, alignItems: "center", marginBottom: 8, ...(c.a && c.b && couplingConflict(c.a, c.b) ? conflictOutline : {}) }}>
                 <select style={input} value={c.a ?? ""} onChange={(e) => {
                   clearExampleSelectionIfNeeded();
                   const val = e.target.value || undefined;
@@ -1163,6 +2011,49 @@ const resultMemo = useMemo(() => {
         </div>
       )}
 
+      {/* Elementos de troca */}
+      <div style={cardStyle}>
+        <h3 style={{ marginTop: 0 }}>{t("shiftElements")}</h3>
+        {shiftElements.map((el, i) => (
+          <div key={i} style={{ display: "grid", gridTemplateColumns: "3.5rem 1fr 1fr 1.5rem 36px", gap: 8, alignItems: "center", marginBottom: 8, ...(shiftConflict(el.id) ? conflictOutline : {}) }}>
+            <input
+              style={input}
+              value={el.id}
+              title={el.kind === "clutch" ? t("clutch") : t("brake")}
+              onChange={(e) => updateShiftElement(i, { id: e.target.value })}
+            />
+            <select style={input} value={el.a ?? ""} onChange={(e) => updateShiftElement(i, { a: e.target.value || undefined })}>
+              <option value="">{t("selectA")}</option>
+              {omegaOptions.map(o => (
+                <option key={o.id} value={o.id} disabled={el.b === o.id}>{o.label}</option>
+              ))}
+            </select>
+            {el.kind === "clutch" ? (
+              <select style={input} value={el.b ?? ""} onChange={(e) => updateShiftElement(i, { b: e.target.value || undefined })}>
+                <option value="">{t("selectB")}</option>
+                {omegaOptions.map(o => (
+                  <option key={o.id} value={o.id} disabled={el.a === o.id}>{o.label}</option>
+                ))}
+              </select>
+            ) : (
+              <div style={small}>= 0 ({t("brake")})</div>
+            )}
+            <input
+              type="checkbox"
+              title={t("engagedShort")}
+              checked={engaged.includes(el.id)}
+              onChange={() => toggleEngaged(el.id)}
+            />
+            <button style={btnIcon} title={t("remove")} onClick={() => removeShiftElement(i)}>×</button>
+          </div>
+        ))}
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          <button style={btn} onClick={() => addShiftElement("clutch")}>{t("addClutch")}</button>
+          <button style={btn} onClick={() => addShiftElement("brake")}>{t("addBrake")}</button>
+        </div>
+        <div style={small}>{t("shiftElementsHint")}</div>
+      </div>
+
       {/* Velocidades */}
       <div style={cardStyle}>
         <h3 style={{ marginTop: 0 }}>{t("speeds")}</h3>
@@ -1180,7 +2071,7 @@ const resultMemo = useMemo(() => {
           };
 
           return (
-            <div key={idx} style={rowStyle}>
+            <div key={idx} style={speed.var && speedConflict(speed.var) ? { ...rowStyle, ...conflictOutline } : rowStyle}>
               <select
                 style={input}
                 value={speed.var ?? ""}
@@ -1234,6 +2125,54 @@ const resultMemo = useMemo(() => {
             </select>
           </div>
         </div>
+        <div style={fieldRowNoX}>
+          <label style={label}>{t("inputTorque")}</label>
+          <input
+            style={input}
+            type="number"
+            step={10}
+            value={inputTorque}
+            onChange={(e) => {
+              const v = Number(e.target.value);
+              setInputTorque(Number.isFinite(v) ? v : 0);
+            }}
+          />
+        </div>
+        <div style={fieldRowNoX}>
+          <label style={label}>{t("meshEfficiency")}</label>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 4 }}>
+            {(["external", "internal"] as const).map((kind) => (
+              <input
+                key={kind}
+                style={input}
+                type="number"
+                min={MIN_MESH_EFFICIENCY}
+                max={1}
+                step={0.005}
+                value={meshEfficiency[kind]}
+                onChange={(e) => {
+                  const v = Number(e.target.value);
+                  if (!Number.isFinite(v)) return;
+                  setMeshEfficiency((cur) => ({ ...cur, [kind]: Math.max(MIN_MESH_EFFICIENCY, Math.min(1, v)) }));
+                }}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Síntese de dentes */}
+      <div style={cardStyle}>
+        <SynthesisPanel
+          lang={lang}
+          stages={stages}
+          targets={synthesisSetup.targets}
+          format={(x) => fmt(x, decimals)}
+          onSearch={runSynthesis}
+          onLoad={loadSynthesis}
+          onSearchLadder={runLadder}
+          onLoadLadder={loadLadder}
+        />
       </div>
 
       {/* Perfil das engrenagens (módulo / ângulo de pressão / largura) */}
@@ -1258,19 +2197,14 @@ const resultMemo = useMemo(() => {
           <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
             <div style={fieldRowNoX}>
               <label style={label}>{strings[lang].pressureAngle}</label>
-              <input
+              <BoundedNumberInput
                 style={input}
-                type="number"
                 step={1}
+                min={PROFILE_LIMITS.pressureAngleDeg[0]}
+                max={PROFILE_LIMITS.pressureAngleDeg[1]}
                 value={gearPressureDeg}
-                onChange={(e) => {
-                  const v = Number(e.target.value);
-                  if (Number.isNaN(v)) {
-                    setGearPressureDeg(20);
-                  } else {
-                    setGearPressureDeg(v);
-                  }
-                }}
+                clamp={(v) => clampProfileField("pressureAngleDeg", v)}
+                onCommit={(v) => setGearPressureDeg(v ?? 20)}
               />
             </div>
 
@@ -1294,39 +2228,25 @@ const resultMemo = useMemo(() => {
 
             <div style={fieldRowNoX}>
               <label style={label}>{strings[lang].gearWidth}</label>
-              <input
+              <BoundedNumberInput
                 style={input}
-                type="number"
-                min={0}
                 step={1}
+                min={PROFILE_LIMITS.minWidthMm}
                 value={gearWidth}
-                onChange={(e) => {
-                  const v = Number(e.target.value);
-                  if (Number.isNaN(v)) {
-                    setGearWidth(5);
-                  } else {
-                    setGearWidth(Math.max(0.5, v));
-                  }
-                }}
+                clamp={(v) => clampProfileField("widthMm", v)}
+                onCommit={(v) => setGearWidth(v ?? 5)}
               />
             </div>
 
             <div style={fieldRowNoX}>
               <label style={label}>{strings[lang].module}</label>
-              <input
+              <BoundedNumberInput
                 style={input}
-                type="number"
-                min={0}
                 step={1}
+                min={PROFILE_LIMITS.minModule}
                 value={gearModule}
-                onChange={(e) => {
-                  const v = Number(e.target.value);
-                  if (Number.isNaN(v)) {
-                    setGearModule(1);
-                  } else {
-                    setGearModule(Math.max(0.1, v));
-                  }
-                }}
+                clamp={(v) => clampProfileField("module", v)}
+                onCommit={(v) => setGearModule(v ?? 1)}
               />
             </div>
 
@@ -1375,6 +2295,48 @@ const resultMemo = useMemo(() => {
         )}
       </div>
 
+      {/* Arquivo de projeto */}
+      <div style={cardStyle}>
+        <h3 style={{ marginTop: 0 }}>{t("designFile")}</h3>
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          <button style={btn} type="button" onClick={saveDesignFile}>{t("saveJSON")}</button>
+          <button style={btn} type="button" onClick={() => importInputRef.current?.click()}>{t("openJSON")}</button>
+          <button style={btn} type="button" onClick={() => setJsonOpen((open) => !open)}>{t("viewJSON")}</button>
+          <button style={btn} type="button" onClick={() => void copyShareLink()}>
+            {linkCopied ? t("linkCopied") : t("copyLink")}
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void openDesignFile(file);
+            }}
+          />
+        </div>
+        {importError && (
+          <div style={{ ...small, color: "#fca5a5", marginTop: 8 }}>
+            {t("importError")}: {importError}
+          </div>
+        )}
+        <div style={{ ...small, marginTop: 10, marginBottom: 4 }}>{t("gearData")}</div>
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          <button style={btn} type="button" onClick={() => exportGearData("json")}>{t("gearDataJSON")}</button>
+          <button style={btn} type="button" onClick={() => exportGearData("csv")}>{t("gearDataCSV")}</button>
+          <button style={btn} type="button" onClick={openGearDataSheet}>{t("gearDataSheet")}</button>
+        </div>
+        {jsonOpen && (
+          <textarea
+            readOnly
+            value={designJSON}
+            style={{ ...input, marginTop: 8, height: 220, fontFamily: "monospace", fontSize: 12, resize: "vertical" }}
+          />
+        )}
+      </div>
+
     </div>
   );
 
@@ -1489,7 +2451,7 @@ const resultMemo = useMemo(() => {
           maxHeight: isMobile ? "100vh" : undefined,
         }}
       >
-        {panelExample && (
+        {activeGearSet && (
           <div
             style={{
               position: "absolute",
@@ -1528,7 +2490,9 @@ const resultMemo = useMemo(() => {
                 ? strings[lang].ex2Title
                 : panelExample === "EX1"
                 ? strings[lang].ex1Title
-                : strings[lang].ex3Title}
+                : panelExample === "EX3"
+                ? strings[lang].ex3Title
+                : strings[lang].ladderTitle}
             </div>
             <div
               style={{
@@ -1538,21 +2502,8 @@ const resultMemo = useMemo(() => {
                 paddingRight: 2,
               }}
             >
-              {(panelExample === "EX3"
-                ? ex3GearOrder
-                : panelExample === "EX4"
-                ? ex4GearOrder
-                : panelExample === "EX2"
-                ? ex2GearOrder
-                : ex1GearOrder).map((gid) => {
-                const gearList =
-                  panelExample === "EX3"
-                    ? ex3Gears
-                    : panelExample === "EX4"
-                    ? ex4Gears
-                    : panelExample === "EX2"
-                    ? ex2Gears
-                    : ex1Gears;
+              {activeGearSet.order.map((gid) => {
+                const gearList: PresetGear<string>[] = activeGearSet.gears;
                 const gear = gearList.find((g) => g.id === gid) || gearList[0];
                 const active = selectedGear === gid;
                 return (
@@ -1567,18 +2518,27 @@ const resultMemo = useMemo(() => {
                       background: active ? "#60a5fa30" : "var(--btn-bg)",
                       fontWeight: active ? 700 : 500,
                     }}
-                    onClick={() => {
-                      if (panelExample === "EX3") loadEX3(gid as Ex3GearId);
-                      else if (panelExample === "EX4") loadEX4FromPanel(gid as Ex4GearId);
-                      else if (panelExample === "EX2") loadEX2FromPanel(gid as Ex2GearId);
-                      else if (panelExample === "EX1") loadEX1FromPanel(gid as Ex1GearId);
-                    }}
+                    onClick={() => loadPresetGear(gid)}
                   >
                     {gear.label[lang]}
                   </button>
                 );
               })}
             </div>
+            <button
+              style={{
+                ...btn,
+                width: "100%",
+                borderColor: gearTableOpen ? "#60a5fa80" : "var(--btn-border)",
+                background: gearTableOpen ? "#60a5fa30" : "var(--btn-bg)",
+              }}
+              onClick={() => {
+                setGearTableOpen((open) => !open);
+                if (isMobile) setResultsCollapsed(false);
+              }}
+            >
+              {t("gearTable")}
+            </button>
           </div>
         )}
         <GearScene
@@ -1590,8 +2550,16 @@ const resultMemo = useMemo(() => {
             annulusZ: s.annulusZ,
             lastSolarZ: s.lastSolarZ,
             planetCopies: s.planetCopies ?? 1,
+            solarX: s.solarX,
+            planetsX: s.planetsX,
+            annulusX: s.annulusX,
+            module: s.module,
+            pressureAngleDeg: s.pressureAngleDeg,
+            widthMm: s.widthMm,
+            helixDeg: s.helixDeg,
           }))}
           velocities={hasImpossible ? null : (resultMemo?.velocities ?? null)}
+          freeMembers={hasImpossible ? undefined : resultMemo?.free}
           timeScale={hasImpossible ? 0 : timeScale}
           topologyKey={topologyKey}
           lang={lang}
@@ -1602,6 +2570,7 @@ const resultMemo = useMemo(() => {
           gearPressureDeg={gearPressureDeg}
           gearHelixDeg={gearHelixDeg}
           gearWidth={gearWidth}
+          flaggedGears={meshDiagnostics.flagged}
           backlash={backlash}
           undercut={undercut}
           backlashPlanetsOnly={backlashPlanetsOnly}
@@ -1756,89 +2725,6 @@ const resultMemo = useMemo(() => {
 
 }
 
-/** ---------- Helpers de nomes ---------- */
-const omegaS = (sid:number)=>`omega_s${sid}`;
-const omegaA = (sid:number)=>`omega_a${sid}`;
-const omegaB = (sid:number)=>`omega_b${sid}`;
-const omegaP = (sid:number,k:number)=>`omega_p${sid}_${k}`;
-
-/** Rotulagem amigável (depende de idioma) */
-function buildOmegaOptions(stages: {id:number; solarZ:number|null; planetsZ:number[]; annulusZ:number|null}[], lang: Lang) {
-  const singleStage = stages.length === 1;
-  const byStage = new Map<number, { planets: number; hasAnnulus: boolean }>();
-  stages.forEach(st => byStage.set(st.id, { planets: st.planetsZ.length, hasAnnulus: st.annulusZ != null }));
-  const ids: string[] = [];
-  for (const st of stages) {
-    if (st.solarZ != null) ids.push(omegaS(st.id));
-    ids.push(omegaB(st.id));
-    if (st.annulusZ != null) ids.push(omegaA(st.id));
-    st.planetsZ.forEach((_, k) => ids.push(omegaP(st.id, k + 1)));
-  }
-  const S = strings[lang];
-  const opts = ids.map(id => {
-    let label = id;
-    const mS = id.match(/^omega_s(\d+)$/);
-    const mB = id.match(/^omega_b(\d+)$/);
-    const mA = id.match(/^omega_a(\d+)$/);
-    const mP = id.match(/^omega_p(\d+)_(\d+)$/);
-    if (mS) {
-      const sid = Number(mS[1]);
-      label = singleStage ? S.solar : `${S.planetary} ${sid} • ${S.solar}`;
-    } else if (mB) {
-      const sid = Number(mB[1]);
-      label = singleStage ? S.arm : `${S.planetary} ${sid} • ${S.arm}`;
-    } else if (mA) {
-      const sid = Number(mA[1]);
-      label = singleStage ? S.annulus : `${S.planetary} ${sid} • ${S.annulus}`;
-    } else if (mP) {
-      const sid = Number(mP[1]);
-      const k   = Number(mP[2]);
-      const planetsCount = byStage.get(sid)?.planets ?? 1;
-      const base = (planetsCount === 1) ? S.planet : `${S.planet} ${k}`;
-      label = singleStage ? base : `${S.planetary} ${sid} • ${base}`;
-    }
-    return { id, label };
-  });
-  const order = (id:string) => id.startsWith("omega_s") ? 0 : id.startsWith("omega_b") ? 1 : id.startsWith("omega_a") ? 2 : 3;
-  return opts.sort((a,b) => {
-    const sidA = Number(a.id.match(/\d+/)?.[0] ?? "0");
-    const sidB = Number(b.id.match(/\d+/)?.[0] ?? "0");
-    if (sidA !== sidB) return sidA - sidB;
-    const t = order(a.id) - order(b.id);
-    if (t !== 0) return t;
-    return a.label.localeCompare(b.label, lang === "pt" ? "pt-BR" : "en-US");
-  });
-}
-
-/** ---------- UI → Model ---------- */
-function buildModelFromUI(
-  stages: UIStage[],
-  speeds: UISpeed[],
-  couplings: UICoupling[],
-  ratio: UIRatio
-): Model {
-  const elements: Element[] = [];
-  const meshes: Mesh[] = [];
-  const constraints: Constraint[] = [];
-  const ratios: { id: string; num: string; den: string }[] = [];
-
-  for (const st of stages) {
-    if (st.solarZ != null) elements.push({ id: `sol${st.id}`, type: "solar", N: st.solarZ, omega: omegaS(st.id) });
-    elements.push({ id: `arm${st.id}`, type: "arm", omega: omegaB(st.id) });
-    st.planetsZ.forEach((Z, k) => { elements.push({ id: `p${st.id}_${k + 1}`, type: "planet", N: Z, omega: omegaP(st.id, k + 1) }); });
-    if (st.annulusZ != null) elements.push({ id: `ann${st.id}`, type: "annulus", N: st.annulusZ, omega: omegaA(st.id) });
-
-    if (st.solarZ != null && st.planetsZ.length >= 1) meshes.push({ i: omegaS(st.id), j: omegaP(st.id, 1), carrier: omegaB(st.id), type: "external" });
-    for (let k = 1; k < st.planetsZ.length; k++) meshes.push({ i: omegaP(st.id, k), j: omegaP(st.id, k + 1), carrier: omegaB(st.id), type: "external" });
-    if (st.annulusZ != null && st.planetsZ.length >= 1) { const last = st.planetsZ.length; meshes.push({ i: omegaP(st.id, last), j: omegaA(st.id), carrier: omegaB(st.id), type: "internal" }); }
-  }
-
-  for (const s of speeds) if (s.var != null) constraints.push({ type:"known", var:s.var, value:s.value });
-  for (const c of couplings) if (c.a && c.b) constraints.push({ type:"equal", a:c.a, b:c.b });
-  if (ratio.entrada && ratio.saida) ratios.push({ id:"entrada/saida", num: ratio.entrada, den: ratio.saida });
-  return { elements, meshes, constraints, ratios, carriers: stages.map(st=>({id:`arm${st.id}`, omega:omegaB(st.id)})) };
-}
-
 /** ---------- util ---------- */
 function fmt(x: number, decimals: number) {
   if (!Number.isFinite(x)) return String(x);
@@ -0,0 +1,398 @@
+import React, { useEffect, useRef, useState } from "react";
+import { strings, type Lang } from "./i18n";
+import { compareErrors, type SynthesisCandidate, type SynthesisOptions, type SynthesisResult, type ToothRange } from "../math/synthesis";
+import type { LadderDesign, LadderOptions, LadderResult } from "../math/ladder";
+import type { UIStage } from "./presets";
+import type { SliceSignal } from "../lib/slices";
+
+export type SynthesisTargetRow = { id: string; label: string; current: number | null };
+
+type SynthesisPanelProps = {
+  lang: Lang;
+  stages: UIStage[];
+  targets: SynthesisTargetRow[];
+  format: (x: number) => string;
+  // null: relação atual indefinida; a promessa resolve com null se a busca for cancelada
+  onSearch: (options: SynthesisOptions, signal: SliceSignal) => Promise<SynthesisResult<UIStage> | null> | null;
+  onLoad: (stages: UIStage[]) => void;
+  onSearchLadder: (options: LadderOptions, signal: SliceSignal) => Promise<LadderResult<UIStage> | null> | null; // null: topologia inutilizável
+  onLoadLadder: (design: LadderDesign<UIStage>) => void;
+};
+
+const btn: React.CSSProperties = { padding: "0.5rem 0.75rem", borderRadius: 6, border: "1px solid var(--btn-border)", background: "var(--btn-bg)", color: "var(--text)", cursor: "pointer" };
+const input: React.CSSProperties = {
+  width: "100%",
+  minWidth: 0,
+  padding: "0.4rem 0.5rem",
+  borderRadius: 6,
+  border: "1px solid var(--btn-border)",
+  background: "var(--input-bg)",
+  color: "var(--text)",
+  boxSizing: "border-box",
+};
+const label: React.CSSProperties = { margin: 0, fontSize: "0.85rem", opacity: 0.9 };
+const fieldRow: React.CSSProperties = { display: "grid", gridTemplateColumns: "1fr 7.5rem", gap: 8, alignItems: "center", minWidth: 0 };
+const small: React.CSSProperties = { fontSize: "0.8rem", color: "var(--muted)" };
+const cell: React.CSSProperties = { padding: "3px 8px", borderBottom: "1px solid var(--border)", whiteSpace: "nowrap" };
+const num: React.CSSProperties = { ...cell, textAlign: "right", fontVariantNumeric: "tabular-nums" };
+
+const SHOWN = 30;
+const parseNum = (s: string) => Number(s.replace(",", "."));
+
+// Dentes do estágio em uma linha: "Zs / Zp1, Zp2 / Za" (— = ausente)
+const describeStage = (st: UIStage) =>
+  `${st.solarZ ?? "—"} / ${st.planetsZ.join(", ") || "—"} / ${st.annulusZ ?? "—"}`;
+
+export function SynthesisPanel({ lang, stages, targets, format, onSearch, onLoad, onSearchLadder, onLoadLadder }: SynthesisPanelProps) {
+  const S = strings[lang];
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<"ratio" | "ladder">("ratio");
+  const [ladderText, setLadderText] = useState<string | null>(null);
+  const [scope, setScope] = useState<number | "all">("all");
+  const [targetText, setTargetText] = useState<Record<string, string>>({});
+  const [tolerancePct, setTolerancePct] = useState(1);
+  const [sun, setSun] = useState<ToothRange>({ min: 18, max: 60 });
+  const [planet, setPlanet] = useState<ToothRange>({ min: 18, max: 60 });
+  const [ring, setRing] = useState<ToothRange>({ min: 40, max: 160 });
+  const [minPinion, setMinPinion] = useState(18);
+  const [copies, setCopies] = useState<number | null>(null);
+  const [rankBy, setRankBy] = useState<"error" | "size">("error");
+  const [result, setResult] = useState<{ res: SynthesisResult<UIStage>; stageIds: number[] } | null>(null);
+  const [ladder, setLadder] = useState<LadderResult<UIStage> | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const signalRef = useRef<SliceSignal | null>(null);
+
+  // busca em andamento não sobrevive ao painel
+  useEffect(() => () => {
+    if (signalRef.current) signalRef.current.cancelled = true;
+  }, []);
+  const cancel = () => {
+    if (signalRef.current) signalRef.current.cancelled = true;
+    signalRef.current = null;
+    setBusy(false);
+  };
+
+  const stageIds = scope === "all" || !stages.some((st) => st.id === scope) ? stages.map((st) => st.id) : [scope];
+  const copiesValue = copies ?? stages.find((st) => st.id === stageIds[0])?.planetCopies ?? 3;
+  const targetValue = (t: SynthesisTargetRow) => targetText[t.id] ?? (t.current != null ? String(Number(t.current.toFixed(4))) : "");
+  const ladderValue = ladderText ?? targets.map(targetValue).filter((v) => v !== "").join("; ");
+
+  const searchLadder = async () => {
+    const values = ladderValue.split(/[;\s]+/).filter((v) => v !== "").map(parseNum);
+    setResult(null);
+    if (values.length === 0 || values.some((v) => !Number.isFinite(v) || v === 0)) {
+      setLadder(null);
+      setMessage(S.synthesisBadTarget);
+      return;
+    }
+    const signal: SliceSignal = { cancelled: false };
+    const run = onSearchLadder({
+      targets: values,
+      tolerance: Math.max(0, tolerancePct) / 100,
+      sun,
+      planet,
+      ring,
+      minPinion,
+      copies: copiesValue,
+    }, signal);
+    if (!run) {
+      setLadder(null);
+      setMessage(S.ladderNoTopology);
+      return;
+    }
+    signalRef.current = signal;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await run;
+      if (!res || signal.cancelled) return;
+      setLadder(res);
+      setMessage(res.designs.length === 0 ? S.synthesisNone : null);
+    } finally {
+      if (signalRef.current === signal) {
+        signalRef.current = null;
+        setBusy(false);
+      }
+    }
+  };
+
+  const search = async () => {
+    if (mode === "ladder") {
+      await searchLadder();
+      return;
+    }
+    setLadder(null);
+    const values = targets.map((t) => parseNum(targetValue(t)));
+    if (values.length === 0 || values.some((v) => !Number.isFinite(v))) {
+      setResult(null);
+      setMessage(S.synthesisBadTarget);
+      return;
+    }
+    const signal: SliceSignal = { cancelled: false };
+    const run = onSearch({
+      stageIds,
+      targets: values,
+      tolerance: Math.max(0, tolerancePct) / 100,
+      sun,
+      planet,
+      ring,
+      minPinion,
+      copies: copiesValue,
+    }, signal);
+    if (!run) {
+      setResult(null);
+      setMessage(S.synthesisNoRatio);
+      return;
+    }
+    signalRef.current = signal;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await run;
+      if (!res || signal.cancelled) return;
+      setResult({ res, stageIds });
+      setMessage(res.candidates.length === 0 ? S.synthesisNone : null);
+    } finally {
+      if (signalRef.current === signal) {
+        signalRef.current = null;
+        setBusy(false);
+      }
+    }
+  };
+
+  const rangeRow = (text: string, value: ToothRange, set: (r: ToothRange) => void) => (
+    <div style={fieldRow}>
+      <label style={label}>{text}</label>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 4 }}>
+        {(["min", "max"] as const).map((k) => (
+          <input
+            key={k}
+            style={input}
+            type="number"
+            min={3}
+            step={1}
+            value={value[k]}
+            onChange={(e) => {
+              const v = Math.round(Number(e.target.value));
+              if (Number.isFinite(v)) set({ ...value, [k]: Math.max(3, v) });
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+
+  const sorted = (result?.res.candidates ?? []).slice();
+  if (rankBy === "size") sorted.sort((a, b) => a.sizeMm - b.sizeMm || compareErrors(a.error, b.error) || a.teeth - b.teeth);
+  const rowText = (c: SynthesisCandidate<UIStage>) =>
+    c.stages
+      .filter((st) => result?.stageIds.includes(st.id))
+      .map((st) => (stages.length > 1 ? `${st.id}: ${describeStage(st)}` : describeStage(st)))
+      .join(" · ");
+
+  const designs = (ladder?.designs ?? []).slice();
+  if (rankBy === "size") designs.sort((a, b) => a.sizeMm - b.sizeMm || compareErrors(a.error, b.error));
+  const designText = (d: LadderDesign<UIStage>) =>
+    d.stages.map((st) => (stages.length > 1 ? `${st.id}: ${describeStage(st)}` : describeStage(st))).join(" · ");
+
+  return (
+    <>
+      <button
+        style={{ ...btn, width: "100%", display: "flex", alignItems: "center", justifyContent: "space-between", fontWeight: 600 }}
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+      >
+        <span>{S.synthesis}</span>
+        <span style={{ opacity: 0.7 }}>{open ? "▾" : "▸"}</span>
+      </button>
+
+      {open && (
+        <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+          <div style={fieldRow}>
+            <label style={label}>{S.synthesisMode}</label>
+            <select style={input} value={mode} onChange={(e) => setMode(e.target.value === "ladder" ? "ladder" : "ratio")}>
+              <option value="ratio">{S.synthesisModeRatio}</option>
+              <option value="ladder">{S.synthesisModeLadder}</option>
+            </select>
+          </div>
+
+          {mode === "ladder" && (
+            <div style={{ display: "grid", gap: 4 }}>
+              <label style={label}>{S.ladderTargets}</label>
+              <input style={input} type="text" value={ladderValue} onChange={(e) => setLadderText(e.target.value)} />
+            </div>
+          )}
+
+          {mode === "ratio" && stages.length > 1 && (
+            <div style={fieldRow}>
+              <label style={label}>{S.synthesisScope}</label>
+              <select
+                style={input}
+                value={String(scope)}
+                onChange={(e) => setScope(e.target.value === "all" ? "all" : Number(e.target.value))}
+              >
+                <option value="all">{S.synthesisAllStages}</option>
+                {stages.map((st) => (
+                  <option key={st.id} value={st.id}>{S.planetary} {st.id}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {mode === "ratio" && targets.map((t) => (
+            <div key={t.id} style={fieldRow}>
+              <label style={label}>{targets.length > 1 ? `${S.synthesisTarget} — ${t.label}` : `${S.synthesisTarget} (${t.label})`}</label>
+              <input
+                style={input}
+                type="text"
+                inputMode="decimal"
+                value={targetValue(t)}
+                onChange={(e) => setTargetText((cur) => ({ ...cur, [t.id]: e.target.value }))}
+              />
+            </div>
+          ))}
+
+          <div style={fieldRow}>
+            <label style={label}>{S.synthesisTolerance}</label>
+            <input
+              style={input}
+              type="number"
+              min={0}
+              step={0.1}
+              value={tolerancePct}
+              onChange={(e) => {
+                const v = Number(e.target.value);
+                setTolerancePct(Number.isFinite(v) ? Math.max(0, v) : 1);
+              }}
+            />
+          </div>
+
+          {rangeRow(S.synthesisSunRange, sun, setSun)}
+          {rangeRow(S.synthesisPlanetRange, planet, setPlanet)}
+          {rangeRow(S.synthesisRingRange, ring, setRing)}
+
+          <div style={fieldRow}>
+            <label style={label}>{S.synthesisMinPinion}</label>
+            <input
+              style={input}
+              type="number"
+              min={3}
+              step={1}
+              value={minPinion}
+              onChange={(e) => {
+                const v = Math.round(Number(e.target.value));
+                if (Number.isFinite(v)) setMinPinion(Math.max(3, v));
+              }}
+            />
+          </div>
+
+          <div style={fieldRow}>
+            <label style={label}>{S.synthesisCopies}</label>
+            <input
+              style={input}
+              type="number"
+              min={1}
+              step={1}
+              value={copiesValue}
+              onChange={(e) => {
+                const v = Math.round(Number(e.target.value));
+                if (Number.isFinite(v)) setCopies(Math.max(1, v));
+              }}
+            />
+          </div>
+
+          <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+            <button style={{ ...btn, opacity: busy ? 0.6 : 1 }} type="button" disabled={busy} onClick={search}>
+              {busy ? S.synthesisSearching : S.synthesisSearch}
+            </button>
+            {busy && <button style={btn} type="button" onClick={cancel}>{S.synthesisCancel}</button>}
+            <label style={{ ...label, marginLeft: "auto" }}>{S.synthesisRankBy}</label>
+            <select style={{ ...input, width: "auto" }} value={rankBy} onChange={(e) => setRankBy(e.target.value === "size" ? "size" : "error")}>
+              <option value="error">{S.synthesisRankError}</option>
+              <option value="size">{S.synthesisRankSize}</option>
+            </select>
+          </div>
+
+          {message && <div style={{ ...small, color: "#fca5a5" }}>{message}</div>}
+
+          {result && result.res.candidates.length > 0 && (
+            <>
+              <div style={small}>
+                {result.res.candidates.length} {S.synthesisFound}
+                {result.res.truncated && ` — ${S.synthesisTruncated}`}
+              </div>
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ borderCollapse: "collapse", fontSize: 13, minWidth: "100%" }}>
+                  <thead>
+                    <tr style={{ opacity: 0.8 }}>
+                      <th style={{ ...cell, textAlign: "left" }}>Zs / Zp / Za</th>
+                      {targets.map((t) => (
+                        <th key={t.id} style={num}>{targets.length > 1 ? t.label : S.relation}</th>
+                      ))}
+                      <th style={num}>{S.synthesisError}</th>
+                      <th style={num}>{S.synthesisSize}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sorted.slice(0, SHOWN).map((c, k) => (
+                      <tr key={k} style={{ cursor: "pointer" }} onClick={() => onLoad(c.stages.filter((st) => result.stageIds.includes(st.id)))}>
+                        <td style={cell}>{rowText(c)}</td>
+                        {c.ratios.map((r, j) => (
+                          <td key={j} style={num}>{format(r)}</td>
+                        ))}
+                        <td style={num}>{(c.error * 100).toFixed(3)} %</td>
+                        <td style={num}>{format(c.sizeMm)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+          {result?.res.truncated && result.res.candidates.length === 0 && <div style={small}>{S.synthesisTruncated}</div>}
+
+          {ladder && ladder.designs.length > 0 && (
+            <>
+              <div style={small}>
+                {ladder.designs.length} {S.synthesisFound}
+                {ladder.truncated && ` — ${S.synthesisTruncated}`}
+              </div>
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ borderCollapse: "collapse", fontSize: 13, minWidth: "100%" }}>
+                  <thead>
+                    <tr style={{ opacity: 0.8 }}>
+                      <th style={{ ...cell, textAlign: "left" }}>Zs / Zp / Za</th>
+                      {designs[0].assignment.map((_, j) => (
+                        <th key={j} style={num}>{j + 1}</th>
+                      ))}
+                      <th style={num}>{S.ladderElements}</th>
+                      <th style={num}>{S.synthesisError}</th>
+                      <th style={num}>{S.synthesisSize}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {designs.slice(0, SHOWN).map((d, k) => (
+                      <tr key={k} style={{ cursor: "pointer" }} onClick={() => onLoadLadder(d)}>
+                        <td style={cell}>{designText(d)}</td>
+                        {d.assignment.map((a, j) => (
+                          <td key={j} style={num}>{format(a.ratio)} ({a.engaged.join("+")})</td>
+                        ))}
+                        <td style={num}>{d.elements.length}</td>
+                        <td style={num}>{(d.error * 100).toFixed(3)} %</td>
+                        <td style={num}>{format(d.sizeMm)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+          {ladder?.truncated && ladder.designs.length === 0 && <div style={small}>{S.synthesisTruncated}</div>}
+
+          <div style={small}>{mode === "ladder" ? S.ladderHint : S.synthesisHint}</div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,106 @@
+import type { Model, Element, Mesh, Constraint, ShiftElement } from "../math/types";
+import { strings, type Lang } from "./i18n";
+import type { UIStage, UISpeed, UIRatio, UICoupling, UIShiftElement } from "./presets";
+
+/** ---------- Helpers de nomes ---------- */
+export const omegaS = (sid:number)=>`omega_s${sid}`;
+export const omegaA = (sid:number)=>`omega_a${sid}`;
+export const omegaB = (sid:number)=>`omega_b${sid}`;
+export const omegaP = (sid:number,k:number)=>`omega_p${sid}_${k}`;
+
+/** Rotulagem amigável (depende de idioma) */
+export function buildOmegaOptions(stages: {id:number; solarZ:number|null; planetsZ:number[]; annulusZ:number|null}[], lang: Lang) {
+  const singleStage = stages.length === 1;
+  const byStage = new Map<number, { planets: number; hasAnnulus: boolean }>();
+  stages.forEach(st => byStage.set(st.id, { planets: st.planetsZ.length, hasAnnulus: st.annulusZ != null }));
+  const ids: string[] = [];
+  for (const st of stages) {
+    if (st.solarZ != null) ids.push(omegaS(st.id));
+    ids.push(omegaB(st.id));
+    if (st.annulusZ != null) ids.push(omegaA(st.id));
+    st.planetsZ.forEach((_, k) => ids.push(omegaP(st.id, k + 1)));
+  }
+  const S = strings[lang];
+  const opts = ids.map(id => {
+    let label = id;
+    const mS = id.match(/^omega_s(\d+)$/);
+    const mB = id.match(/^omega_b(\d+)$/);
+    const mA = id.match(/^omega_a(\d+)$/);
+    const mP = id.match(/^omega_p(\d+)_(\d+)$/);
+    if (mS) {
+      const sid = Number(mS[1]);
+      label = singleStage ? S.solar : `${S.planetary} ${sid} • ${S.solar}`;
+    } else if (mB) {
+      const sid = Number(mB[1]);
+      label = singleStage ? S.arm : `${S.planetary} ${sid} • ${S.arm}`;
+    } else if (mA) {
+      const sid = Number(mA[1]);
+      label = singleStage ? S.annulus : `${S.planetary} ${sid} • ${S.annulus}`;
+    } else if (mP) {
+      const sid = Number(mP[1]);
+      const k   = Number(mP[2]);
+      const planetsCount = byStage.get(sid)?.planets ?? 1;
+      const base = (planetsCount === 1) ? S.planet : `${S.planet} ${k}`;
+      label = singleStage ? base : `${S.planetary} ${sid} • ${base}`;
+    }
+    return { id, label };
+  });
+  const order = (id:string) => id.startsWith("omega_s") ? 0 : id.startsWith("omega_b") ? 1 : id.startsWith("omega_a") ? 2 : 3;
+  return opts.sort((a,b) => {
+    const sidA = Number(a.id.match(/\d+/)?.[0] ?? "0");
+    const sidB = Number(b.id.match(/\d+/)?.[0] ?? "0");
+    if (sidA !== sidB) return sidA - sidB;
+    const t = order(a.id) - order(b.id);
+    if (t !== 0) return t;
+    return a.label.localeCompare(b.label, lang === "pt" ? "pt-BR" : "en-US");
+  });
+}
+
+/**
+ * Malhas de um estágio na ordem do modelo: solar–P1, P1–P2…, Pn–anel.
+ * `key` é local ao estágio e estável ao mudar o número de planetas nas malhas do solar e do anel.
+ */
+export function stageMeshPairs(st: UIStage): { key: string; i: string; j: string; type: "external" | "internal" }[] {
+  const out: { key: string; i: string; j: string; type: "external" | "internal" }[] = [];
+  if (st.solarZ != null && st.planetsZ.length >= 1) out.push({ key: "sun", i: omegaS(st.id), j: omegaP(st.id, 1), type: "external" });
+  for (let k = 1; k < st.planetsZ.length; k++) out.push({ key: `p${k}-p${k + 1}`, i: omegaP(st.id, k), j: omegaP(st.id, k + 1), type: "external" });
+  if (st.annulusZ != null && st.planetsZ.length >= 1) out.push({ key: "ring", i: omegaP(st.id, st.planetsZ.length), j: omegaA(st.id), type: "internal" });
+  return out;
+}
+
+/** ---------- UI → Model ---------- */
+export function buildModelFromUI(
+  stages: UIStage[],
+  speeds: UISpeed[],
+  couplings: UICoupling[],
+  ratio: UIRatio,
+  shiftElements: UIShiftElement[] = []
+): Model {
+  const elements: Element[] = [];
+  const meshes: Mesh[] = [];
+  const constraints: Constraint[] = [];
+  const ratios: { id: string; num: string; den: string }[] = [];
+
+  for (const st of stages) {
+    if (st.solarZ != null) elements.push({ id: `sol${st.id}`, type: "solar", N: st.solarZ, omega: omegaS(st.id) });
+    elements.push({ id: `arm${st.id}`, type: "arm", omega: omegaB(st.id) });
+    st.planetsZ.forEach((Z, k) => { elements.push({ id: `p${st.id}_${k + 1}`, type: "planet", N: Z, omega: omegaP(st.id, k + 1) }); });
+    if (st.annulusZ != null) elements.push({ id: `ann${st.id}`, type: "annulus", N: st.annulusZ, omega: omegaA(st.id) });
+
+    for (const { key, ...m } of stageMeshPairs(st)) {
+      const eta = st.meshEfficiency?.[key];
+      meshes.push({ ...m, carrier: omegaB(st.id), ...(eta != null ? { efficiency: eta } : {}) });
+    }
+  }
+
+  for (const s of speeds) if (s.var != null) constraints.push({ type:"known", var:s.var, value:s.value });
+  for (const c of couplings) if (c.a && c.b) constraints.push({ type:"equal", a:c.a, b:c.b });
+  const shift: ShiftElement[] = [];
+  for (const el of shiftElements) {
+    if (!el.id || !el.a) continue;
+    if (el.kind === "brake") shift.push({ id: el.id, type: "brake", a: el.a });
+    else if (el.b) shift.push({ id: el.id, type: "clutch", a: el.a, b: el.b });
+  }
+  if (ratio.entrada && ratio.saida) ratios.push({ id:"entrada/saida", num: ratio.entrada, den: ratio.saida });
+  return { elements, meshes, constraints, ratios, carriers: stages.map(st=>({id:`arm${st.id}`, omega:omegaB(st.id)})), shiftElements: shift };
+}
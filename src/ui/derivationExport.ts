@@ -0,0 +1,80 @@
+import { formatAssembled, formatLinear, formatWillis, type Derivation } from "../math/derivation";
+import { formatPoly, LATEX_STYLE, symbolicToString } from "../math/exact";
+import type { Fraction } from "../lib/rational";
+import { strings, type Lang } from "./i18n";
+
+// Exportação da derivação (equações de Willis → eliminação → relação) como documento LaTeX
+
+const escapeLatex = (s: string) => s.replace(/([\\{}&%$#_^~])/g, (c) => (c === "\\" ? "\\textbackslash{}" : `\\${c}`));
+
+const latexFraction = (f: Fraction) => {
+  const abs = f.n < 0n ? -f.n : f.n;
+  const body = f.d === 1n ? abs.toString() : `\\frac{${abs}}{${f.d}}`;
+  return f.n < 0n ? `-${body}` : body;
+};
+
+// "lhs = rhs" → "lhs &= rhs" (alinhado pelo sinal de igual)
+const aligned = (eq: string) => eq.replace(" = ", " &= ");
+
+function alignBlock(lines: string[]) {
+  if (lines.length === 0) return [];
+  return ["\\begin{align*}", lines.map(aligned).join(" \\\\\n"), "\\end{align*}"];
+}
+
+export function derivationToLatex(d: Derivation, lang: Lang) {
+  const S = strings[lang];
+  const st = LATEX_STYLE;
+  const name = st.name;
+  const heading = (s: string) => `\\subsection*{${escapeLatex(s)}}`;
+
+  const out: string[] = [
+    "\\documentclass{article}",
+    "\\usepackage[utf8]{inputenc}",
+    "\\usepackage{amsmath}",
+    "\\allowdisplaybreaks",
+    "\\begin{document}",
+    `\\section*{${escapeLatex(S.derivation)}}`,
+    heading(S.derivationEquations),
+    ...alignBlock(d.equations.map((e) => (e.willis ? formatWillis(e.willis, st) : formatAssembled(d.variables, e, st)))),
+  ];
+
+  if (d.substitutions.length > 0 || d.knowns.length > 0) {
+    out.push(heading(S.derivationSubstitutions));
+    out.push(...alignBlock(d.substitutions.map((s) => `${name(s.v)} = ${formatPoly(s.to, st)}`)));
+    if (d.knowns.length > 0) {
+      out.push(`${escapeLatex(S.derivationKnowns)}: $${d.knowns.map(name).join(",\\ ")}$`);
+    }
+  }
+
+  out.push(heading(S.derivationReduced));
+  out.push(...alignBlock(d.reduced.map((r) => formatLinear(d.unknowns, r, st))));
+  if (d.dropped > 0) out.push(`${d.dropped} ${escapeLatex(S.derivationDropped)}.`);
+
+  out.push(heading(S.derivationElimination));
+  for (const step of d.steps) {
+    out.push(`\\paragraph{${escapeLatex(S.derivationPivot)} $${name(step.pivot)}$}`);
+    out.push(...alignBlock([
+      formatLinear([step.pivot, ...step.unknowns], step.pivotRow, st),
+      ...step.system.map((r) => formatLinear(step.unknowns, r, st)),
+    ]));
+  }
+
+  out.push(heading(S.derivationSolution));
+  out.push(...alignBlock(d.solution.map((s) => {
+    const expr = s.value ? symbolicToString(s.value, st) : null;
+    const value = latexFraction(s.exact);
+    return `${name(s.v)} = ${expr && expr !== name(s.v) && expr !== value ? `${expr} = ` : ""}${value}`;
+  })));
+
+  if (d.ratio) {
+    out.push(heading(S.derivationRatio));
+    const lhs = `\\frac{${name(d.ratio.num)}}{${name(d.ratio.den)}}`;
+    const parts = [lhs];
+    if (d.ratio.value) parts.push(symbolicToString(d.ratio.value, st));
+    if (d.ratio.exact) parts.push(latexFraction(d.ratio.exact));
+    out.push("\\begin{equation*}", parts.join(" = "), "\\end{equation*}");
+  }
+
+  out.push("\\end{document}", "");
+  return out.join("\n");
+}
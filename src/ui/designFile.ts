@@ -0,0 +1,246 @@
+import { MIN_MESH_EFFICIENCY } from "../math/efficiency";
+import type { UIStage, UISpeed, UIRatio, UICoupling, UIShiftElement } from "./presets";
+
+// Documento de projeto versionado (arquivo .json compartilhável).
+// Toda leitura passa por parseDesign: valida o esquema campo a campo e devolve
+// mensagens com o caminho do campo problemático (ex.: "stages[1].planetsZ[0]").
+// Versões antigas são migradas aqui; versões mais novas que a do app são recusadas.
+
+export const DESIGN_FORMAT = "engrenarium-design";
+export const DESIGN_VERSION = 1;
+
+export type GearProfileSettings = {
+  module: number;             // mm
+  pressureAngleDeg: number;
+  widthMm: number;
+  helixDeg: number;
+  backlash: number;
+  backlashPlanetsOnly: boolean;
+  undercut: boolean;
+};
+
+/** Limites dos campos de perfil, os mesmos no global, no estágio e na leitura de arquivos. */
+export const PROFILE_LIMITS = {
+  minModule: 0.1,             // mm
+  minWidthMm: 0.5,
+  pressureAngleDeg: [10, 35] as const,
+};
+
+/** Valor digitado trazido para dentro de PROFILE_LIMITS (a hélice não tem limite). */
+export function clampProfileField(key: "module" | "pressureAngleDeg" | "widthMm" | "helixDeg", v: number) {
+  if (key === "module") return Math.max(PROFILE_LIMITS.minModule, v);
+  if (key === "widthMm") return Math.max(PROFILE_LIMITS.minWidthMm, v);
+  if (key === "pressureAngleDeg") return Math.min(PROFILE_LIMITS.pressureAngleDeg[1], Math.max(PROFILE_LIMITS.pressureAngleDeg[0], v));
+  return v;
+}
+
+/** Perfil efetivo de um estágio: o que o estágio define, senão o global. */
+export function stageProfile(st: UIStage, global: GearProfileSettings): GearProfileSettings {
+  return {
+    ...global,
+    module: st.module ?? global.module,
+    pressureAngleDeg: st.pressureAngleDeg ?? global.pressureAngleDeg,
+    widthMm: st.widthMm ?? global.widthMm,
+    helixDeg: st.helixDeg ?? global.helixDeg,
+  };
+}
+
+export type DesignState = {
+  stages: UIStage[];
+  speeds: UISpeed[];
+  couplings: UICoupling[];
+  shiftElements: UIShiftElement[];
+  engaged: string[];
+  ratio: UIRatio;
+  profile: GearProfileSettings;
+};
+
+export type DesignDocument = DesignState & {
+  format: typeof DESIGN_FORMAT;
+  version: number;
+  savedAt?: string;
+};
+
+export type DesignParseResult =
+  | { valido: true; design: DesignState }
+  | { valido: false; mensagem: string; mensagem_en: string };
+
+export function serializeDesign(state: DesignState): DesignDocument {
+  return { format: DESIGN_FORMAT, version: DESIGN_VERSION, savedAt: new Date().toISOString(), ...state };
+}
+
+export function designToJSON(state: DesignState) {
+  return JSON.stringify(serializeDesign(state), null, 2);
+}
+
+/** ---------- Validação ---------- */
+class DesignError extends Error {
+  path: string;
+  pt: string;
+  en: string;
+  constructor(path: string, pt: string, en: string) {
+    super(`${path}: ${pt}`);
+    this.path = path;
+    this.pt = pt;
+    this.en = en;
+  }
+}
+
+type Obj = Record<string, unknown>;
+
+function isObj(x: unknown): x is Obj {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+function obj(x: unknown, path: string): Obj {
+  if (!isObj(x)) throw new DesignError(path, "esperado um objeto", "expected an object");
+  return x;
+}
+function arr(x: unknown, path: string): unknown[] {
+  if (!Array.isArray(x)) throw new DesignError(path, "esperada uma lista", "expected an array");
+  return x;
+}
+function num(x: unknown, path: string, min = -Infinity, max = Infinity): number {
+  if (typeof x !== "number" || !Number.isFinite(x)) throw new DesignError(path, "esperado um número", "expected a number");
+  if (x < min) throw new DesignError(path, `deve ser ≥ ${min}`, `must be ≥ ${min}`);
+  if (x > max) throw new DesignError(path, `deve ser ≤ ${max}`, `must be ≤ ${max}`);
+  return x;
+}
+function int(x: unknown, path: string, min: number): number {
+  const v = num(x, path, min);
+  if (!Number.isInteger(v)) throw new DesignError(path, "esperado um inteiro", "expected an integer");
+  return v;
+}
+function bool(x: unknown, path: string): boolean {
+  if (typeof x !== "boolean") throw new DesignError(path, "esperado verdadeiro/falso", "expected true/false");
+  return x;
+}
+function optOmega(x: unknown, path: string): string | undefined {
+  if (x == null || x === "") return undefined;
+  if (typeof x !== "string" || !/^omega_(s|a|b)\d+$|^omega_p\d+_\d+$/.test(x)) {
+    throw new DesignError(path, `variável desconhecida "${String(x)}"`, `unknown variable "${String(x)}"`);
+  }
+  return x;
+}
+
+function readStage(x: unknown, path: string): UIStage {
+  const o = obj(x, path);
+  const planetsZ = arr(o.planetsZ, `${path}.planetsZ`).map((z, k) => int(z, `${path}.planetsZ[${k}]`, 1));
+  if (planetsZ.length === 0) throw new DesignError(`${path}.planetsZ`, "é preciso ao menos um planeta", "at least one planet is required");
+  const st: UIStage = {
+    id: int(o.id, `${path}.id`, 1),
+    solarZ: o.solarZ == null ? null : int(o.solarZ, `${path}.solarZ`, 1),
+    planetsZ,
+    annulusZ: o.annulusZ == null ? null : int(o.annulusZ, `${path}.annulusZ`, 1),
+  };
+  if (o.lastSolarZ != null) st.lastSolarZ = int(o.lastSolarZ, `${path}.lastSolarZ`, 1);
+  if (o.lastAnnulusZ != null) st.lastAnnulusZ = int(o.lastAnnulusZ, `${path}.lastAnnulusZ`, 1);
+  if (o.planetCopies != null) st.planetCopies = int(o.planetCopies, `${path}.planetCopies`, 1);
+  if (o.solarX != null) st.solarX = num(o.solarX, `${path}.solarX`);
+  if (o.planetsX != null) st.planetsX = arr(o.planetsX, `${path}.planetsX`).map((x, k) => num(x, `${path}.planetsX[${k}]`));
+  if (o.annulusX != null) st.annulusX = num(o.annulusX, `${path}.annulusX`);
+  if (o.module != null) st.module = num(o.module, `${path}.module`, PROFILE_LIMITS.minModule);
+  if (o.pressureAngleDeg != null) st.pressureAngleDeg = num(o.pressureAngleDeg, `${path}.pressureAngleDeg`, ...PROFILE_LIMITS.pressureAngleDeg);
+  if (o.widthMm != null) st.widthMm = num(o.widthMm, `${path}.widthMm`, PROFILE_LIMITS.minWidthMm);
+  if (o.helixDeg != null) st.helixDeg = num(o.helixDeg, `${path}.helixDeg`);
+  if (o.meshEfficiency != null) {
+    const etas = obj(o.meshEfficiency, `${path}.meshEfficiency`);
+    st.meshEfficiency = Object.fromEntries(
+      Object.entries(etas).map(([k, x]) => {
+        if (!/^(sun|ring|p\d+-p\d+)$/.test(k)) {
+          throw new DesignError(`${path}.meshEfficiency`, `malha desconhecida "${k}"`, `unknown mesh "${k}"`);
+        }
+        return [k, num(x, `${path}.meshEfficiency.${k}`, MIN_MESH_EFFICIENCY, 1)];
+      })
+    );
+  }
+  return st;
+}
+
+function readProfile(x: unknown, path: string): GearProfileSettings {
+  const o = obj(x, path);
+  return {
+    module: num(o.module, `${path}.module`, PROFILE_LIMITS.minModule),
+    pressureAngleDeg: num(o.pressureAngleDeg, `${path}.pressureAngleDeg`, ...PROFILE_LIMITS.pressureAngleDeg),
+    widthMm: num(o.widthMm, `${path}.widthMm`, PROFILE_LIMITS.minWidthMm),
+    helixDeg: num(o.helixDeg, `${path}.helixDeg`),
+    backlash: num(o.backlash, `${path}.backlash`, 0),
+    backlashPlanetsOnly: bool(o.backlashPlanetsOnly, `${path}.backlashPlanetsOnly`),
+    undercut: bool(o.undercut, `${path}.undercut`),
+  };
+}
+
+function readDesign(doc: Obj): DesignState {
+  const stages = arr(doc.stages, "stages").map((s, k) => readStage(s, `stages[${k}]`));
+  if (stages.length === 0) throw new DesignError("stages", "é preciso ao menos uma planetária", "at least one planetary stage is required");
+  const ids = new Set<number>();
+  stages.forEach((s, k) => {
+    if (ids.has(s.id)) throw new DesignError(`stages[${k}].id`, `id ${s.id} repetido`, `duplicate id ${s.id}`);
+    ids.add(s.id);
+  });
+
+  const speeds = arr(doc.speeds, "speeds").map((x, k): UISpeed => {
+    const o = obj(x, `speeds[${k}]`);
+    return { var: optOmega(o.var, `speeds[${k}].var`), value: num(o.value, `speeds[${k}].value`) };
+  });
+  const couplings = arr(doc.couplings ?? [], "couplings").map((x, k): UICoupling => {
+    const o = obj(x, `couplings[${k}]`);
+    return { a: optOmega(o.a, `couplings[${k}].a`), b: optOmega(o.b, `couplings[${k}].b`) };
+  });
+  const shiftElements = arr(doc.shiftElements ?? [], "shiftElements").map((x, k): UIShiftElement => {
+    const path = `shiftElements[${k}]`;
+    const o = obj(x, path);
+    if (typeof o.id !== "string" || !o.id) throw new DesignError(`${path}.id`, "esperado um nome", "expected a name");
+    if (o.kind !== "clutch" && o.kind !== "brake") {
+      throw new DesignError(`${path}.kind`, 'esperado "clutch" ou "brake"', 'expected "clutch" or "brake"');
+    }
+    const el: UIShiftElement = { id: o.id, kind: o.kind, a: optOmega(o.a, `${path}.a`) };
+    if (o.kind === "clutch") el.b = optOmega(o.b, `${path}.b`);
+    return el;
+  });
+  const engaged = arr(doc.engaged ?? [], "engaged").map((x, k) => {
+    if (typeof x !== "string" || !shiftElements.some((el) => el.id === x)) {
+      throw new DesignError(`engaged[${k}]`, `elemento de troca "${String(x)}" não definido`, `shift element "${String(x)}" is not defined`);
+    }
+    return x;
+  });
+  const r = obj(doc.ratio ?? {}, "ratio");
+  const ratio: UIRatio = { entrada: optOmega(r.entrada, "ratio.entrada"), saida: optOmega(r.saida, "ratio.saida") };
+
+  return { stages, speeds, couplings, shiftElements, engaged, ratio, profile: readProfile(doc.profile, "profile") };
+}
+
+/**
+ * Lê um documento de projeto (texto JSON ou objeto já interpretado).
+ * Nunca lança: erros de sintaxe e de esquema voltam como { valido: false }.
+ */
+export function parseDesign(input: string | unknown): DesignParseResult {
+  let raw: unknown = input;
+  if (typeof input === "string") {
+    try {
+      raw = JSON.parse(input);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return { valido: false, mensagem: `JSON inválido: ${msg}`, mensagem_en: `Invalid JSON: ${msg}` };
+    }
+  }
+  try {
+    const doc = obj(raw, "(raiz)");
+    if (doc.format !== DESIGN_FORMAT) {
+      throw new DesignError("format", `esperado "${DESIGN_FORMAT}" — não é um arquivo de projeto`, `expected "${DESIGN_FORMAT}" — not a design file`);
+    }
+    const version = int(doc.version, "version", 1);
+    if (version > DESIGN_VERSION) {
+      throw new DesignError(
+        "version",
+        `versão ${version} é mais nova que a suportada (${DESIGN_VERSION}); atualize o aplicativo`,
+        `version ${version} is newer than supported (${DESIGN_VERSION}); update the application`,
+      );
+    }
+    return { valido: true, design: readDesign(doc) };
+  } catch (e: unknown) {
+    if (e instanceof DesignError) {
+      return { valido: false, mensagem: `${e.path}: ${e.pt}`, mensagem_en: `${e.path.replace("(raiz)", "(root)")}: ${e.en}` };
+    }
+    throw e;
+  }
+}
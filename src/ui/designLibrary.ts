@@ -0,0 +1,110 @@
+import { solveGearSystem } from "../math/solver";
+import { buildModelFromUI } from "./buildModel";
+import { parseDesign, serializeDesign, type DesignDocument, type DesignState } from "./designFile";
+
+// Biblioteca pessoal de projetos, guardada no localStorage do navegador.
+// Cada entrada guarda o mesmo documento versionado do arquivo JSON, então
+// migrações e validação são as de designFile.ts. Entradas ilegíveis (ex.: gravadas por
+// uma versão mais nova) continuam na lista com o conteúdo original, que é regravado
+// intacto — só saem se o usuário as excluir.
+
+const STORAGE_KEY = "engrenarium.library";
+
+export type LibraryEntry = {
+  id: string;
+  name: string;
+  savedAt: string;             // ISO
+  design: DesignState | null;  // null: ilegível (ver `unreadable`)
+  unreadable?: { raw: unknown; mensagem: string; mensagem_en: string };
+};
+
+type StoredEntry = { id: string; name: string; savedAt: string; doc: DesignDocument };
+
+export type DesignSummary = {
+  stageCount: number;
+  teeth: string;               // "S/P/A" por estágio, ex.: "40/20/80 · 61/25/111"
+  ratio: number | null;
+};
+
+export function loadLibrary(): LibraryEntry[] {
+  if (typeof localStorage === "undefined") return [];
+  let raw: unknown;
+  try {
+    raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+  return (raw as unknown[]).map((item, k): LibraryEntry => {
+    const e = (item && typeof item === "object" ? item : {}) as Partial<StoredEntry>;
+    const id = typeof e.id === "string" ? e.id : `unreadable-${k}`;
+    const name = typeof e.name === "string" ? e.name : "?";
+    const savedAt = typeof e.savedAt === "string" ? e.savedAt : "";
+    const parsed = parseDesign(e.doc);
+    if (parsed.valido) return { id, name, savedAt, design: parsed.design };
+    return { id, name, savedAt, design: null, unreadable: { raw: item, mensagem: parsed.mensagem, mensagem_en: parsed.mensagem_en } };
+  });
+}
+
+/** Grava a lista inteira; lança Error se o navegador recusar (cota, modo privado). */
+export function storeLibrary(entries: LibraryEntry[]) {
+  const stored = entries.map((e) => {
+    if (!e.design) return e.unreadable?.raw;
+    const item: StoredEntry = { id: e.id, name: e.name, savedAt: e.savedAt, doc: serializeDesign(e.design) };
+    return item;
+  });
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    throw new Error("Não foi possível gravar a biblioteca no navegador (armazenamento cheio ou bloqueado).");
+  }
+}
+
+function newId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function addEntry(entries: LibraryEntry[], name: string, design: DesignState): LibraryEntry[] {
+  const entry: LibraryEntry = { id: newId(), name: name.trim() || "?", savedAt: new Date().toISOString(), design };
+  return [entry, ...entries];
+}
+
+export function renameEntry(entries: LibraryEntry[], id: string, name: string): LibraryEntry[] {
+  const clean = name.trim();
+  if (!clean) return entries;
+  return entries.map((e) => (e.id === id && e.design ? { ...e, name: clean } : e));
+}
+
+export function duplicateEntry(entries: LibraryEntry[], id: string, suffix: string): LibraryEntry[] {
+  const k = entries.findIndex((e) => e.id === id);
+  if (k < 0) return entries;
+  const src = entries[k];
+  if (!src.design) return entries;
+  const copy: LibraryEntry = {
+    id: newId(),
+    name: `${src.name} ${suffix}`,
+    savedAt: new Date().toISOString(),
+    design: JSON.parse(JSON.stringify(src.design)) as DesignState,
+  };
+  return [...entries.slice(0, k + 1), copy, ...entries.slice(k + 1)];
+}
+
+export function deleteEntry(entries: LibraryEntry[], id: string): LibraryEntry[] {
+  return entries.filter((e) => e.id !== id);
+}
+
+/** Resumo para a lista: número de estágios, dentes e relação (se o sistema fechar). */
+export function summarizeDesign(d: DesignState): DesignSummary {
+  const teeth = d.stages
+    .map((st) => [st.solarZ ?? "–", st.planetsZ.join("-"), st.annulusZ ?? "–"].join("/"))
+    .join(" · ");
+  let ratio: number | null = null;
+  try {
+    const r = solveGearSystem(buildModelFromUI(d.stages, d.speeds, d.couplings, d.ratio, d.shiftElements), d.engaged);
+    const v = r.ratios?.[0]?.value;
+    if (!r.isUnderdetermined && !r.isOverdetermined && typeof v === "number" && Number.isFinite(v)) ratio = v;
+  } catch {
+    ratio = null;
+  }
+  return { stageCount: d.stages.length, teeth, ratio };
+}
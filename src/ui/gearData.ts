@@ -0,0 +1,173 @@
+import { involuteRadii, stageHelixAngles } from "../render/involute";
+import { strings, type Lang } from "./i18n";
+import { stageProfile, type DesignState } from "./designFile";
+
+// Dados de fabricação de cada engrenagem (entrega para o projeto mecânico).
+// O módulo e o ângulo de pressão do app são TRANSVERSAIS (é no plano da face que o
+// perfil é gerado e depois torcido pela hélice); os valores normais são derivados.
+// Diâmetros nominais ISO 53: hₐ* = 1, c* = 0,25 (na anelar o adendo aponta para dentro;
+// x > 0 afasta o perfil do centro em todas as engrenagens, como na geração da malha).
+// Os diâmetros "do modelo" são os do contorno exportado (STL/DXF/SVG/GLB): sem folga
+// de pé (c* = 0) e com a cabeça reduzida pelo backlash, via involuteRadii.
+
+export type GearKind = "sun" | "planet" | "ring";
+
+export type GearDataRow = {
+  part: string;                  // nome igual ao dos arquivos exportados (sol1, p1_2, ann1)
+  stageId: number;
+  kind: GearKind;
+  quantity: number;              // planetas: cópias na órbita
+  teeth: number;
+  moduleTransverse: number;      // mm
+  moduleNormal: number;          // mm
+  pressureAngleTransverseDeg: number;
+  pressureAngleNormalDeg: number;
+  helixDeg: number;              // com sinal: + direita, − esquerda
+  hand: "R" | "L" | "-";
+  faceWidth: number;             // mm
+  profileShift: number;          // x (adimensional)
+  backlashAllowance: number;     // mm, redução de espessura no primitivo (alargamento do vão na anelar)
+  pitchDiameter: number;         // mm
+  tipDiameter: number;           // nominal ISO 53
+  rootDiameter: number;          // nominal ISO 53
+  tipDiameterModel: number;      // como exportado
+  rootDiameterModel: number;     // como exportado
+  baseDiameter: number;
+};
+
+const DEG = Math.PI / 180;
+const round = (x: number, d = 4) => Math.round(x * 10 ** d) / 10 ** d;
+
+export function gearDataFromDesign(design: DesignState): GearDataRow[] {
+  const rows: GearDataRow[] = [];
+
+  for (const st of design.stages) {
+    const p = stageProfile(st, design.profile);
+    const mt = p.module > 0 ? p.module : 1;
+    const alphaT = (Number.isFinite(p.pressureAngleDeg) ? p.pressureAngleDeg : 20) * DEG;
+    const backlash = Math.max(0, Math.min(Number.isFinite(p.backlash) ? p.backlash : 0, Math.PI * mt));
+    const helixFor = stageHelixAngles((Number.isFinite(p.helixDeg) ? p.helixDeg : 0) * DEG, st.solarZ != null, st.planetsZ.length);
+    const push = (part: string, kind: GearKind, teeth: number, quantity: number, helixRad: number, shift: number | undefined) => {
+      const beta = helixRad;
+      const x = Number.isFinite(shift) ? (shift as number) : 0;
+      const d = mt * teeth;
+      const internal = kind === "ring";
+      // externa: cabeça d/2 + m(1 + x), pé d/2 − m(1,25 − x); anelar: cabeça d/2 − m(1 − x), pé d/2 + m(1,25 + x)
+      const tipRadius = internal ? d / 2 - mt * (1 - x) : d / 2 + mt * (1 + x);
+      const rootRadius = internal ? d / 2 + mt * (1.25 + x) : d / 2 - mt * (1.25 - x);
+      const allowance = p.backlashPlanetsOnly && kind !== "planet" ? 0 : backlash;
+      // a anelar é o negativo do contorno externo: cabeça = pé do contorno e vice-versa
+      const model = involuteRadii(teeth, mt, 0, allowance, x);
+      rows.push({
+        part,
+        stageId: st.id,
+        kind,
+        quantity,
+        teeth,
+        moduleTransverse: round(mt),
+        moduleNormal: round(mt * Math.cos(beta)),
+        pressureAngleTransverseDeg: round(alphaT / DEG),
+        pressureAngleNormalDeg: round(Math.atan(Math.tan(alphaT) * Math.cos(beta)) / DEG),
+        helixDeg: round(beta / DEG),
+        hand: Math.abs(beta) < 1e-9 ? "-" : beta > 0 ? "R" : "L",
+        faceWidth: round(p.widthMm),
+        profileShift: x,
+        backlashAllowance: round(allowance),
+        pitchDiameter: round(d),
+        tipDiameter: round(2 * tipRadius),
+        rootDiameter: round(2 * rootRadius),
+        tipDiameterModel: round(2 * (internal ? model.root : model.tip)),
+        rootDiameterModel: round(2 * (internal ? model.tip : model.root)),
+        baseDiameter: round(d * Math.cos(alphaT)),
+      });
+    };
+
+    const copies = Math.max(1, st.planetCopies ?? 1);
+    if (st.solarZ != null) push(`sol${st.id}`, "sun", st.solarZ, 1, helixFor("sun"), st.solarX);
+    st.planetsZ.forEach((z, k) => push(`p${st.id}_${k + 1}`, "planet", z, copies, helixFor("planet", k), st.planetsX?.[k]));
+    if (st.annulusZ != null) push(`ann${st.id}`, "ring", st.annulusZ, 1, helixFor("ring"), st.annulusX);
+  }
+  return rows;
+}
+
+const COLUMNS: (keyof GearDataRow)[] = [
+  "part", "stageId", "kind", "quantity", "teeth",
+  "moduleTransverse", "moduleNormal", "pressureAngleTransverseDeg", "pressureAngleNormalDeg",
+  "helixDeg", "hand", "faceWidth", "profileShift", "backlashAllowance",
+  "pitchDiameter", "tipDiameter", "rootDiameter", "tipDiameterModel", "rootDiameterModel", "baseDiameter",
+];
+
+export function gearDataToJSON(rows: GearDataRow[]) {
+  return JSON.stringify({ format: "engrenarium-gear-data", version: 1, units: "mm, deg", gears: rows }, null, 2);
+}
+
+/** CSV com ponto decimal e vírgula como separador (cabeçalho = chaves do JSON). */
+export function gearDataToCSV(rows: GearDataRow[]) {
+  const lines = [COLUMNS.join(",")];
+  for (const r of rows) lines.push(COLUMNS.map((c) => String(r[c])).join(","));
+  return lines.join("\r\n") + "\r\n";
+}
+
+const escapeHtml = (s: string) => s.replace(/[<>&"]/g, (ch) => `&#${ch.charCodeAt(0)};`);
+
+/** Folha de dados imprimível: uma página por peça. */
+export function gearDataSheetHTML(rows: GearDataRow[], lang: Lang) {
+  const S = strings[lang];
+  const kindLabel = { sun: S.solar, planet: S.planet, ring: S.annulus };
+  const num = (x: number, d = 3) => x.toLocaleString(lang === "pt" ? "pt-BR" : "en-US", { maximumFractionDigits: d });
+  const handLabel = (h: GearDataRow["hand"]) => (h === "R" ? S.helixRight : h === "L" ? S.helixLeft : "—");
+
+  const sheet = (r: GearDataRow) => {
+    const fields: [string, string][] = [
+      [S.sheetStage, String(r.stageId)],
+      [S.sheetType, `${kindLabel[r.kind]}${r.kind === "ring" ? ` (${S.sheetInternal})` : ""}`],
+      [S.sheetQuantity, String(r.quantity)],
+      [S.sheetTeeth, String(r.teeth)],
+      [S.sheetModuleT, `${num(r.moduleTransverse)} mm`],
+      [S.sheetModuleN, `${num(r.moduleNormal)} mm`],
+      [S.sheetPressureT, `${num(r.pressureAngleTransverseDeg)}°`],
+      [S.sheetPressureN, `${num(r.pressureAngleNormalDeg)}°`],
+      [S.sheetHelix, `${num(Math.abs(r.helixDeg))}° ${handLabel(r.hand)}`],
+      [S.sheetFaceWidth, `${num(r.faceWidth)} mm`],
+      [S.sheetProfileShift, num(r.profileShift)],
+      [S.sheetBacklash, `${num(r.backlashAllowance)} mm`],
+      [S.sheetPitchD, `${num(r.pitchDiameter)} mm`],
+      [S.sheetTipD, `${num(r.tipDiameter)} mm`],
+      [S.sheetRootD, `${num(r.rootDiameter)} mm`],
+      [S.sheetTipDModel, `${num(r.tipDiameterModel)} mm`],
+      [S.sheetRootDModel, `${num(r.rootDiameterModel)} mm`],
+      [S.sheetBaseD, `${num(r.baseDiameter)} mm`],
+    ];
+    return [
+      `<section>`,
+      `<h1>${escapeHtml(r.part)}</h1>`,
+      `<table>`,
+      ...fields.map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`),
+      `</table>`,
+      `<p class="note">${escapeHtml(S.sheetNote)}</p>`,
+      `</section>`,
+    ].join("\n");
+  };
+
+  return `<!doctype html>
+<html lang="${lang === "pt" ? "pt-BR" : "en"}">
+<head>
+<meta charset="utf-8">
+<title>Engrenarium — ${escapeHtml(S.gearDataSheet)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; margin: 24px; }
+  section { page-break-after: always; margin-bottom: 32px; }
+  section:last-child { page-break-after: auto; }
+  h1 { font-size: 20px; margin: 0 0 12px; }
+  table { border-collapse: collapse; min-width: 360px; }
+  th, td { border: 1px solid #999; padding: 4px 10px; text-align: left; font-size: 13px; }
+  th { background: #f1f1f1; font-weight: 600; }
+  .note { font-size: 11px; color: #555; max-width: 520px; }
+</style>
+</head>
+<body>
+${rows.map(sheet).join("\n")}
+</body>
+</html>
+`;
+}
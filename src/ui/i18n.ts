@@ -30,6 +30,19 @@ appTitle: "Engrenarium",
     helixAngle: "Ângulo de hélice Ψ (°)",
     backlash: "Folga",
     backlashPlanetsOnly: "só planetas",
+    exportGeometry: "Exportar",
+    exportAssembly: "Conjunto (peças visíveis)",
+    stlBinary: "STL binário",
+    stlAscii: "STL ASCII",
+    includePlanetCopies: "Incluir cópias dos planetas",
+    download: "Baixar",
+    exportHint: "Em mm, com o módulo, largura, hélice, folga e adelgaçamento atuais. Peça avulsa sai centrada na origem.",
+    dxfProfile: "DXF (perfil 2D, R12)",
+    svgProfile: "SVG (perfil 2D)",
+    exportStageLayout: "desenho do estágio",
+    glbAnimated: "GLB animado (glTF)",
+    exportHintGLB: "Peças visíveis da montagem, um nó por engrenagem e por braço, com a animação de um período completo do sistema (loop).",
+    exportHint2D: "Contornos dos dentes em mm para corte a laser (sem hélice). Desenho do estágio mantém as planetas nas posições faseadas; no conjunto os estágios ficam lado a lado.",
     moduleHint: "Alterar o módulo não muda a renderização na tela, mas muda o diâmetro ao exportar a geometria.",
 
     // Botões / ações
@@ -46,7 +59,56 @@ appTitle: "Engrenarium",
     ex4: "EX4",
     examples: "Exemplos",
     newPlanetary: "Nova planetária",
+    undo: "Desfazer (Ctrl+Z)",
+    redo: "Refazer (Ctrl+Shift+Z)",
     viewJSON: "Ver JSON",
+    gearData: "Dados das engrenagens",
+    gearDataJSON: "Dados (JSON)",
+    gearDataCSV: "Dados (CSV)",
+    gearDataSheet: "Folha de dados",
+    helixRight: "direita",
+    helixLeft: "esquerda",
+    sheetStage: "Estágio",
+    sheetType: "Tipo",
+    sheetInternal: "dentes internos",
+    sheetQuantity: "Quantidade",
+    sheetTeeth: "Número de dentes Z",
+    sheetModuleT: "Módulo transversal mₜ",
+    sheetModuleN: "Módulo normal mₙ",
+    sheetPressureT: "Ângulo de pressão transversal αₜ",
+    sheetPressureN: "Ângulo de pressão normal αₙ",
+    sheetHelix: "Ângulo de hélice β / sentido",
+    sheetFaceWidth: "Largura da face b",
+    sheetProfileShift: "Deslocamento de perfil x",
+    sheetBacklash: "Folga (redução de espessura)",
+    sheetPitchD: "Diâmetro primitivo d",
+    sheetTipD: "Diâmetro de cabeça dₐ (nominal ISO 53)",
+    sheetRootD: "Diâmetro de pé d_f (nominal ISO 53)",
+    sheetTipDModel: "Diâmetro de cabeça dₐ (modelo exportado)",
+    sheetRootDModel: "Diâmetro de pé d_f (modelo exportado)",
+    sheetBaseD: "Diâmetro de base d_b",
+    sheetNote: "Diâmetros nominais com hₐ* = 1 e c* = 0,25, sem tolerâncias. Os do modelo exportado (STL/DXF/SVG/GLB) usam c* = 0 e cabeça reduzida pela folga. Na anelar, dₐ é o diâmetro interno das cabeças dos dentes.",
+    designFile: "Arquivo de projeto",
+    saveJSON: "Salvar JSON",
+    openJSON: "Abrir JSON",
+    importError: "Não foi possível abrir o arquivo",
+    library: "Biblioteca",
+    librarySave: "Salvar atual",
+    libraryLoad: "Abrir",
+    libraryRename: "Renomear",
+    libraryDuplicate: "Duplicar",
+    libraryDeleteConfirm: "Excluir",
+    libraryCopySuffix: "(cópia)",
+    libraryUntitled: "Projeto",
+    libraryNamePlaceholder: "Nome do projeto",
+    libraryEmpty: "Nenhum projeto salvo neste navegador.",
+    libraryStage: "estágio",
+    libraryStages: "estágios",
+    libraryStorageError: "Não foi possível gravar a biblioteca no navegador (armazenamento cheio ou bloqueado).",
+    libraryUnreadable: "Ilegível nesta versão — mantido sem alterações",
+    copyLink: "Copiar link",
+    linkCopied: "Link copiado ✓",
+    shareLinkInvalid: "O link compartilhado não pôde ser aberto; carregado o projeto padrão.",
     ex1Title: "Diferentes relações\nem uma planetária",
     ex2Title: "Transmissão automática\nFord Modelo T",
     ex3Title: "Transmissão automática\nAllison 1000",
@@ -69,10 +131,64 @@ appTitle: "Engrenarium",
 
     // Resultados
     decimalPlaces: "Casas decimais",
+    numberDisplay: "Exibição",
+    displayDecimal: "Decimal",
+    displayFraction: "Fração exata",
+    exactUnavailable: "Sem forma exata para este sistema.",
+    derivation: "Derivação (equações de Willis)",
+    derivationShow: "Mostrar derivação",
+    derivationHide: "Ocultar derivação",
+    derivationEquations: "Equações montadas pelo solver",
+    derivationSubstitutions: "Substituições (acoplamentos, freios e velocidades dadas)",
+    derivationKnowns: "Velocidades dadas (mantidas como símbolos)",
+    derivationReduced: "Sistema das malhas",
+    derivationDropped: "equação(ões) redundante(s) descartada(s)",
+    derivationElimination: "Eliminação passo a passo",
+    derivationPivot: "Eliminando",
+    derivationSolution: "Solução",
+    derivationRatio: "Relação entrada/saída",
+    derivationExportLatex: "Exportar LaTeX",
+    derivationUnavailable: "Derivação indisponível: o sistema não tem solução única ou é grande demais para a forma simbólica.",
+    conflictingRows: "Restrições em conflito (retire uma de cada grupo)",
+    freeMembers: "Membros ainda livres",
+    closingOne: "Qualquer uma destas fecha o sistema",
+    closingMany: "Passos parciais — cada uma destas tira um grau de liberdade; faltam restrições:",
+    suggestKnown: "fixar a velocidade de",
+    suggestCouple: "acoplar",
+    partialSolution: "Solução parcial: membros já determinados; os livres aparecem em cinza na cena.",
+    freeSpeed: "livre",
     notCalculated: "Ainda não calculado.",
     relation: "Relação",
     input: "Entrada",
     output: "Saída",
+    inputTorque: "Torque de entrada (N·m)",
+    powerFlow: "Fluxo de potência",
+    member: "Membro",
+    torqueNm: "Torque (N·m)",
+    powerW: "Potência (W)",
+    roleInput: "entrada",
+    roleOutput: "saída",
+    roleReaction: "reação",
+    roleFree: "livre",
+    rolePlanet: "dente",
+    powerFlowHint: "Torque sem perdas. + potência entra no trem, − sai. Planetas: torque no dente (soma das cópias).",
+    meshEfficiency: "Rendimento por malha (ext. / int.)",
+    overallEfficiency: "Rendimento",
+    powerLoss: "perda",
+    recirculation: "Potência recirculante",
+    recirculationHint: "acima da potência de entrada circula entre estágios acoplados",
+    gearTable: "Tabela de marchas",
+    gear: "Marcha",
+    ratioStep: "Degrau",
+    ratioSpread: "Abertura total",
+    permanentCouplings: "Ligações fixas",
+    shiftElements: "Elementos de troca",
+    clutch: "Embreagem",
+    brake: "Freio",
+    engagedShort: "Acionado",
+    addClutch: "+ Embreagem (ωA = ωB)",
+    addBrake: "+ Freio (ωA = 0)",
+    shiftElementsHint: "Defina embreagens e freios uma vez e marque os acionados na marcha atual.",
 
     // Status de montagem
     stageOpen: "Estágio aberto (sem engrenagem anelar)",
@@ -80,6 +196,56 @@ appTitle: "Engrenarium",
     armStepped: "Braço curvo",
 
     planetCopies: "Quantidade de planetas na órbita",
+    profileShift: "Deslocamento de perfil (x)",
+    stageProfile: "Perfil deste estágio",
+    stageProfileHint: "Campos vazios usam o valor global de “Perfil das engrenagens”. A cena mostra os estágios em escala real entre si.",
+    stageMeshEfficiency: "Rendimento por malha (η)",
+    stageMeshEfficiencyHint: "Campos vazios usam o rendimento padrão (ext. / int.) do cartão de relação.",
+    meshDiagnostics: "Diagnóstico dos engrenamentos",
+    meshDiagMesh: "Engrenamento",
+    meshDiagOk: "Sem interferência, adelgaçamento ou cabeça fina.",
+    meshDiagHint: "εα: razão de contato transversal; εβ: recobrimento (hélice). Recomenda-se εα + εβ ≥ 1,2. Engrenagens com problema ficam destacadas na cena.",
+    equalSpacing: "Espaçamento igual",
+    unequalSpacing: "Espaçamento desigual",
+    notInteger: "não é inteiro",
+    spacingDeviations: "desvio de cada cópia",
+    allowedPlanetCounts: "N com espaçamento igual",
+    spacingUnconstrained: "sem solar ou anelar, qualquer N",
+    noneLabel: "nenhum",
+    synthesis: "Síntese de dentes",
+    synthesisScope: "Estágios",
+    synthesisAllStages: "Todos",
+    synthesisTarget: "Relação-alvo",
+    synthesisTolerance: "Tolerância (%)",
+    synthesisSunRange: "Solar (mín–máx)",
+    synthesisPlanetRange: "Planetas (mín–máx)",
+    synthesisRingRange: "Anelar (mín–máx)",
+    synthesisMinPinion: "Mínimo de dentes do pinhão",
+    synthesisCopies: "Planetas em órbita",
+    synthesisSearch: "Buscar",
+    synthesisSearching: "Buscando…",
+    synthesisCancel: "Cancelar",
+    synthesisRankBy: "Ordenar por",
+    synthesisRankError: "erro",
+    synthesisRankSize: "tamanho",
+    synthesisError: "Erro",
+    synthesisSize: "Ø (mm)",
+    synthesisNone: "Nenhuma combinação monta dentro da tolerância.",
+    synthesisNoRatio: "Defina entrada, saída e velocidades para que a relação atual possa ser calculada.",
+    synthesisBadTarget: "Informe relações-alvo válidas.",
+    synthesisFound: "combinações",
+    synthesisTruncated: "busca truncada: estreite as faixas para cobrir tudo",
+    synthesisHint: "Mantém a estrutura de cada estágio e testa montagem, espaçamento igual e folga entre vizinhos (sem deslocamento de perfil). Clique em uma linha para carregá-la.",
+    synthesisMode: "Alvo",
+    synthesisModeRatio: "Relação atual",
+    synthesisModeLadder: "Escada de marchas",
+    ladderTargets: "Relações das marchas (ré negativa)",
+    ladderElements: "Elementos",
+    ladderGear: "ª marcha",
+    ladderReverse: "Marcha ré",
+    ladderTitle: "Transmissão sintetizada",
+    ladderNoTopology: "Escolha entrada e saída (solar, braço ou anelar) e ligações fixas que deixem poucas combinações de elementos de troca.",
+    ladderHint: "Usa os estágios, as ligações fixas e a entrada/saída atuais; testa freios em cada eixo e embreagens da entrada para cada eixo (os elementos de troca atuais são ignorados). Clique em uma linha para carregar o projeto com as marchas.",
 
     // Idioma
     langPT: "PT",
@@ -115,6 +281,19 @@ appTitle: "Engrenarium",
     helixAngle: "Helix angle Ψ (°)",
     backlash: "Backlash",
     backlashPlanetsOnly: "Planets only",
+    exportGeometry: "Export",
+    exportAssembly: "Assembly (visible parts)",
+    stlBinary: "Binary STL",
+    stlAscii: "ASCII STL",
+    includePlanetCopies: "Include planet copies",
+    download: "Download",
+    exportHint: "In mm, using the current module, width, helix, backlash and undercut. Single parts are centred on the origin.",
+    dxfProfile: "DXF (2D profile, R12)",
+    svgProfile: "SVG (2D profile)",
+    exportStageLayout: "stage layout drawing",
+    glbAnimated: "Animated GLB (glTF)",
+    exportHintGLB: "Visible parts of the assembly, one node per gear and carrier, animated over one full system period (loops).",
+    exportHint2D: "Tooth outlines in mm for laser cutting (helix ignored). Stage drawings keep the planets at their phased positions; the assembly lays stages side by side.",
     moduleHint: "Changing the module does not affect on-screen rendering, but it does change the diameter when exporting the geometry.",
 
     // Buttons / actions
@@ -131,7 +310,56 @@ appTitle: "Engrenarium",
     ex4: "EX4",
     examples: "Examples",
     newPlanetary: "New planetary",
+    undo: "Undo (Ctrl+Z)",
+    redo: "Redo (Ctrl+Shift+Z)",
     viewJSON: "View JSON",
+    gearData: "Gear data",
+    gearDataJSON: "Data (JSON)",
+    gearDataCSV: "Data (CSV)",
+    gearDataSheet: "Data sheet",
+    helixRight: "right",
+    helixLeft: "left",
+    sheetStage: "Stage",
+    sheetType: "Type",
+    sheetInternal: "internal teeth",
+    sheetQuantity: "Quantity",
+    sheetTeeth: "Number of teeth Z",
+    sheetModuleT: "Transverse module mₜ",
+    sheetModuleN: "Normal module mₙ",
+    sheetPressureT: "Transverse pressure angle αₜ",
+    sheetPressureN: "Normal pressure angle αₙ",
+    sheetHelix: "Helix angle β / hand",
+    sheetFaceWidth: "Face width b",
+    sheetProfileShift: "Profile shift x",
+    sheetBacklash: "Backlash allowance (thickness reduction)",
+    sheetPitchD: "Pitch diameter d",
+    sheetTipD: "Tip diameter dₐ (nominal ISO 53)",
+    sheetRootD: "Root diameter d_f (nominal ISO 53)",
+    sheetTipDModel: "Tip diameter dₐ (exported model)",
+    sheetRootDModel: "Root diameter d_f (exported model)",
+    sheetBaseD: "Base diameter d_b",
+    sheetNote: "Nominal diameters with hₐ* = 1 and c* = 0.25, no tolerances. The exported-model values (STL/DXF/SVG/GLB) use c* = 0 and a tip reduced by the backlash. On the ring, dₐ is the inner diameter across the tooth tips.",
+    designFile: "Design file",
+    saveJSON: "Save JSON",
+    openJSON: "Open JSON",
+    importError: "Could not open the file",
+    library: "Library",
+    librarySave: "Save current",
+    libraryLoad: "Open",
+    libraryRename: "Rename",
+    libraryDuplicate: "Duplicate",
+    libraryDeleteConfirm: "Delete",
+    libraryCopySuffix: "(copy)",
+    libraryUntitled: "Design",
+    libraryNamePlaceholder: "Design name",
+    libraryEmpty: "No designs saved in this browser.",
+    libraryStage: "stage",
+    libraryStages: "stages",
+    libraryStorageError: "Could not write the library to browser storage (quota exceeded or blocked).",
+    libraryUnreadable: "Unreadable in this version — kept unchanged",
+    copyLink: "Copy link",
+    linkCopied: "Link copied ✓",
+    shareLinkInvalid: "The shared link could not be opened; the default design was loaded.",
     ex1Title: "Different ratios\nin one planetary",
     ex2Title: "Ford Model T\nAutomatic Transmission",
     ex3Title: "Allison 1000\nAutomatic Transmission",
@@ -154,10 +382,64 @@ appTitle: "Engrenarium",
 
     // Results
     decimalPlaces: "Decimal places",
+    numberDisplay: "Display",
+    displayDecimal: "Decimal",
+    displayFraction: "Exact fraction",
+    exactUnavailable: "No exact form for this system.",
+    derivation: "Derivation (Willis equations)",
+    derivationShow: "Show derivation",
+    derivationHide: "Hide derivation",
+    derivationEquations: "Equations assembled by the solver",
+    derivationSubstitutions: "Substitutions (couplings, brakes and given speeds)",
+    derivationKnowns: "Given speeds (kept as symbols)",
+    derivationReduced: "Mesh system",
+    derivationDropped: "redundant equation(s) dropped",
+    derivationElimination: "Step-by-step elimination",
+    derivationPivot: "Eliminating",
+    derivationSolution: "Solution",
+    derivationRatio: "Input/output ratio",
+    derivationExportLatex: "Export LaTeX",
+    derivationUnavailable: "Derivation unavailable: the system has no unique solution or is too large for the symbolic form.",
+    conflictingRows: "Conflicting constraints (remove one from each group)",
+    freeMembers: "Members still free",
+    closingOne: "Any one of these closes the system",
+    closingMany: "Partial steps — each of these removes one degree of freedom; constraints missing:",
+    suggestKnown: "fix the speed of",
+    suggestCouple: "couple",
+    partialSolution: "Partial solution: members already determined; free ones are greyed out in the scene.",
+    freeSpeed: "free",
     notCalculated: "Not yet calculated.",
     relation: "Ratio",
     input: "Input",
     output: "Output",
+    inputTorque: "Input torque (N·m)",
+    powerFlow: "Power flow",
+    member: "Member",
+    torqueNm: "Torque (N·m)",
+    powerW: "Power (W)",
+    roleInput: "input",
+    roleOutput: "output",
+    roleReaction: "reaction",
+    roleFree: "free",
+    rolePlanet: "tooth",
+    powerFlowHint: "Lossless torque. + power enters the train, − leaves it. Planets: tooth torque (sum over copies).",
+    meshEfficiency: "Mesh efficiency (ext. / int.)",
+    overallEfficiency: "Efficiency",
+    powerLoss: "loss",
+    recirculation: "Recirculating power",
+    recirculationHint: "above the input power circulates between coupled stages",
+    gearTable: "Gear table",
+    gear: "Gear",
+    ratioStep: "Step",
+    ratioSpread: "Overall spread",
+    permanentCouplings: "Fixed connections",
+    shiftElements: "Shift elements",
+    clutch: "Clutch",
+    brake: "Brake",
+    engagedShort: "Engaged",
+    addClutch: "+ Clutch (ωA = ωB)",
+    addBrake: "+ Brake (ωA = 0)",
+    shiftElementsHint: "Define clutches and brakes once and tick the ones engaged in the current gear.",
 
     // Montage status
     stageOpen: "Open stage (no ring gear)",
@@ -165,6 +447,56 @@ appTitle: "Engrenarium",
     armStepped: "Stepped carrier",
 
     planetCopies: "Planet count in orbit",
+    profileShift: "Profile shift (x)",
+    stageProfile: "This stage's profile",
+    stageProfileHint: "Empty fields use the global “Gear profile” value. The scene shows stages at true relative scale.",
+    stageMeshEfficiency: "Per-mesh efficiency (η)",
+    stageMeshEfficiencyHint: "Empty fields use the default (ext. / int.) efficiency from the ratio card.",
+    meshDiagnostics: "Mesh diagnostics",
+    meshDiagMesh: "Mesh",
+    meshDiagOk: "No interference, undercut or thin tips.",
+    meshDiagHint: "εα: transverse contact ratio; εβ: overlap ratio (helix). εα + εβ ≥ 1.2 is recommended. Gears with issues are highlighted in the scene.",
+    equalSpacing: "Equal spacing",
+    unequalSpacing: "Unequal spacing",
+    notInteger: "is not an integer",
+    spacingDeviations: "deviation of each copy",
+    allowedPlanetCounts: "N with equal spacing",
+    spacingUnconstrained: "no sun or ring, any N",
+    noneLabel: "none",
+    synthesis: "Tooth-count synthesis",
+    synthesisScope: "Stages",
+    synthesisAllStages: "All",
+    synthesisTarget: "Target ratio",
+    synthesisTolerance: "Tolerance (%)",
+    synthesisSunRange: "Sun (min–max)",
+    synthesisPlanetRange: "Planets (min–max)",
+    synthesisRingRange: "Ring (min–max)",
+    synthesisMinPinion: "Minimum pinion teeth",
+    synthesisCopies: "Orbiting planets",
+    synthesisSearch: "Search",
+    synthesisSearching: "Searching…",
+    synthesisCancel: "Cancel",
+    synthesisRankBy: "Sort by",
+    synthesisRankError: "error",
+    synthesisRankSize: "size",
+    synthesisError: "Error",
+    synthesisSize: "Ø (mm)",
+    synthesisNone: "No combination assembles within the tolerance.",
+    synthesisNoRatio: "Set input, output and speeds so the current ratio can be computed.",
+    synthesisBadTarget: "Enter valid target ratios.",
+    synthesisFound: "combinations",
+    synthesisTruncated: "search truncated: narrow the ranges to cover everything",
+    synthesisHint: "Keeps each stage's structure and checks assembly, equal spacing and neighbour clearance (no profile shift). Click a row to load it.",
+    synthesisMode: "Target",
+    synthesisModeRatio: "Current ratio",
+    synthesisModeLadder: "Gear ladder",
+    ladderTargets: "Gear ratios (reverse negative)",
+    ladderElements: "Elements",
+    ladderGear: " gear",
+    ladderReverse: "Reverse gear",
+    ladderTitle: "Synthesized transmission",
+    ladderNoTopology: "Pick an input and output (sun, carrier or ring) and fixed couplings that leave few shift-element combinations.",
+    ladderHint: "Uses the current stages, fixed couplings and input/output; tries a brake on each shaft and a clutch from the input to each shaft (current shift elements are ignored). Click a row to load the design with its gears.",
 
     // Language
     langPT: "PT",
@@ -8,11 +8,24 @@ export type UIStage = {
   lastSolarZ?: number;
   lastAnnulusZ?: number;
   planetCopies?: number;
+  // Deslocamento de perfil x (adimensional); ausente = 0
+  solarX?: number;
+  planetsX?: number[];
+  annulusX?: number;
+  // Perfil próprio do estágio; ausente = valor global do "Perfil das engrenagens"
+  module?: number;
+  pressureAngleDeg?: number;
+  widthMm?: number;
+  helixDeg?: number;
+  // Rendimento próprio por malha (chaves de stageMeshPairs: "sun", "p1-p2"…, "ring"); ausente = padrão ext./int.
+  meshEfficiency?: Record<string, number>;
 };
 
 export type UISpeed = { var?: string; value: number };
 export type UIRatio = { entrada?: string; saida?: string };
 export type UICoupling = { a?: string; b?: string };
+// Elemento de troca nomeado: embreagem (a = b) ou freio (a = 0)
+export type UIShiftElement = { id: string; kind: "clutch" | "brake"; a?: string; b?: string };
 
 type GearLabel = { pt: string; en: string };
 
@@ -22,12 +35,15 @@ export type PresetGear<TId extends string> = {
   speeds: UISpeed[];
   couplings: UICoupling[];
   ratio: UIRatio;
+  engaged?: string[];           // ids dos elementos de troca acionados nesta marcha
 };
 
-type ExampleData<TId extends string> = {
+export type ExampleData<TId extends string> = {
   stages: UIStage[];
   gears: PresetGear<TId>[];
   order: TId[];
+  couplings?: UICoupling[];     // ligações fixas, comuns a todas as marchas
+  shiftElements?: UIShiftElement[];
 };
 
 export type Ex1GearId = "e1" | "e2" | "e3" | "e4";
@@ -97,49 +113,41 @@ export const EXAMPLE_PRESETS: ExamplePresets = {
       { id: 2, solarZ: 21, planetsZ: [33], annulusZ: null, planetCopies: 3 },
       { id: 3, solarZ: 30, planetsZ: [24], annulusZ: null, planetCopies: 3 },
     ],
+    couplings: [
+      { a: "omega_p1_1", b: "omega_p2_1" },
+      { a: "omega_p2_1", b: "omega_p3_1" },
+      { a: "omega_b1", b: "omega_b2" },
+      { a: "omega_b2", b: "omega_b3" },
+    ],
+    shiftElements: [
+      { id: "B1", kind: "brake", a: "omega_s2" },               // cinta de baixa
+      { id: "C1", kind: "clutch", a: "omega_b1", b: "omega_s1" }, // embreagem de alta
+      { id: "B2", kind: "brake", a: "omega_s3" },               // cinta de ré
+    ],
     order: ["f1", "f2", "fr"],
     gears: [
       {
         id: "f1",
         label: { pt: "1ª marcha", en: "1st gear" },
-        speeds: [
-          { var: "omega_b1", value: 10 },
-          { var: "omega_s2", value: 0 },
-        ],
-        couplings: [
-          { a: "omega_p1_1", b: "omega_p2_1" },
-          { a: "omega_p2_1", b: "omega_p3_1" },
-          { a: "omega_b1", b: "omega_b2" },
-          { a: "omega_b2", b: "omega_b3" },
-        ],
+        speeds: [{ var: "omega_b1", value: 10 }],
+        couplings: [],
+        engaged: ["B1"],
         ratio: { entrada: "omega_b1", saida: "omega_s1" },
       },
       {
         id: "f2",
         label: { pt: "2ª marcha", en: "2nd gear" },
         speeds: [{ var: "omega_b1", value: 10 }],
-        couplings: [
-          { a: "omega_b1", b: "omega_s1" },
-          { a: "omega_p1_1", b: "omega_p2_1" },
-          { a: "omega_p2_1", b: "omega_p3_1" },
-          { a: "omega_b1", b: "omega_b2" },
-          { a: "omega_b2", b: "omega_b3" },
-        ],
+        couplings: [],
+        engaged: ["C1"],
         ratio: { entrada: "omega_b1", saida: "omega_s1" },
       },
       {
         id: "fr",
         label: { pt: "Marcha ré", en: "Reverse gear" },
-        speeds: [
-          { var: "omega_b1", value: 10 },
-          { var: "omega_s3", value: 0 },
-        ],
-        couplings: [
-          { a: "omega_p1_1", b: "omega_p2_1" },
-          { a: "omega_p2_1", b: "omega_p3_1" },
-          { a: "omega_b1", b: "omega_b2" },
-          { a: "omega_b2", b: "omega_b3" },
-        ],
+        speeds: [{ var: "omega_b1", value: 10 }],
+        couplings: [],
+        engaged: ["B2"],
         ratio: { entrada: "omega_b1", saida: "omega_s1" },
       },
     ],
@@ -150,94 +158,67 @@ export const EXAMPLE_PRESETS: ExamplePresets = {
       { id: 2, solarZ: 57, planetsZ: [27], annulusZ: 111, planetCopies: 3 },
       { id: 3, solarZ: 49, planetsZ: [27], annulusZ: 103, planetCopies: 3 },
     ],
+    couplings: [
+      { a: "omega_b1", b: "omega_a2" },
+      { a: "omega_b2", b: "omega_a3" },
+      { a: "omega_s2", b: "omega_s3" },
+    ],
+    // nomenclatura Allison: C1/C2 embreagens rotativas, C3–C5 freios
+    shiftElements: [
+      { id: "C1", kind: "clutch", a: "omega_s1", b: "omega_s2" },
+      { id: "C2", kind: "clutch", a: "omega_s1", b: "omega_b2" },
+      { id: "C3", kind: "brake", a: "omega_a1" },
+      { id: "C4", kind: "brake", a: "omega_a2" },
+      { id: "C5", kind: "brake", a: "omega_a3" },
+    ],
     order: ["g1", "g2", "g3", "g4", "g5", "gr"],
     gears: [
       {
         id: "g1",
         label: { pt: "1ª marcha", en: "1st gear" },
-        speeds: [
-          { var: "omega_s1", value: 10 },
-          { var: "omega_a3", value: 0 },
-        ],
-        couplings: [
-          { a: "omega_b1", b: "omega_a2" },
-          { a: "omega_b2", b: "omega_a3" },
-          { a: "omega_s2", b: "omega_s3" },
-          { a: "omega_s1", b: "omega_s2" },
-        ],
+        speeds: [{ var: "omega_s1", value: 10 }],
+        couplings: [],
+        engaged: ["C1", "C5"],
         ratio: { entrada: "omega_s1", saida: "omega_b3" },
       },
       {
         id: "g2",
         label: { pt: "2ª marcha", en: "2nd gear" },
-        speeds: [
-          { var: "omega_s1", value: 10 },
-          { var: "omega_a2", value: 0 },
-        ],
-        couplings: [
-          { a: "omega_b1", b: "omega_a2" },
-          { a: "omega_b2", b: "omega_a3" },
-          { a: "omega_s2", b: "omega_s3" },
-          { a: "omega_s1", b: "omega_s2" },
-        ],
+        speeds: [{ var: "omega_s1", value: 10 }],
+        couplings: [],
+        engaged: ["C1", "C4"],
         ratio: { entrada: "omega_s1", saida: "omega_b3" },
       },
       {
         id: "g3",
         label: { pt: "3ª marcha", en: "3rd gear" },
-        speeds: [
-          { var: "omega_s1", value: 10 },
-          { var: "omega_a1", value: 0 },
-        ],
-        couplings: [
-          { a: "omega_b1", b: "omega_a2" },
-          { a: "omega_b2", b: "omega_a3" },
-          { a: "omega_s2", b: "omega_s3" },
-          { a: "omega_s1", b: "omega_s2" },
-        ],
+        speeds: [{ var: "omega_s1", value: 10 }],
+        couplings: [],
+        engaged: ["C1", "C3"],
         ratio: { entrada: "omega_s1", saida: "omega_b3" },
       },
       {
         id: "g4",
         label: { pt: "4ª marcha", en: "4th gear" },
         speeds: [{ var: "omega_s1", value: 10 }],
-        couplings: [
-          { a: "omega_b1", b: "omega_a2" },
-          { a: "omega_b2", b: "omega_a3" },
-          { a: "omega_s2", b: "omega_s3" },
-          { a: "omega_s1", b: "omega_s2" },
-          { a: "omega_s1", b: "omega_b2" },
-        ],
+        couplings: [],
+        engaged: ["C1", "C2"],
         ratio: { entrada: "omega_s1", saida: "omega_b3" },
       },
       {
         id: "g5",
         label: { pt: "5ª marcha", en: "5th gear" },
-        speeds: [
-          { var: "omega_s1", value: 10 },
-          { var: "omega_a1", value: 0 },
-        ],
-        couplings: [
-          { a: "omega_b1", b: "omega_a2" },
-          { a: "omega_b2", b: "omega_a3" },
-          { a: "omega_s2", b: "omega_s3" },
-          { a: "omega_s1", b: "omega_b2" },
-        ],
+        speeds: [{ var: "omega_s1", value: 10 }],
+        couplings: [],
+        engaged: ["C2", "C3"],
         ratio: { entrada: "omega_s1", saida: "omega_b3" },
       },
       {
         id: "gr",
         label: { pt: "Marcha ré", en: "Reverse gear" },
-        speeds: [
-          { var: "omega_s1", value: 10 },
-          { var: "omega_a1", value: 0 },
-          { var: "omega_a3", value: 0 },
-        ],
-        couplings: [
-          { a: "omega_b1", b: "omega_a2" },
-          { a: "omega_b2", b: "omega_a3" },
-          { a: "omega_s2", b: "omega_s3" },
-        ],
+        speeds: [{ var: "omega_s1", value: 10 }],
+        couplings: [],
+        engaged: ["C3", "C5"],
         ratio: { entrada: "omega_s1", saida: "omega_b3" },
       },
     ],
@@ -247,69 +228,55 @@ export const EXAMPLE_PRESETS: ExamplePresets = {
       { id: 1, solarZ: 31, planetsZ: [24, 25], annulusZ: 88, planetCopies: 3 },
       { id: 2, solarZ: 38, planetsZ: [25], annulusZ: 88, planetCopies: 3 },
     ],
+    couplings: [
+      { a: "omega_b1", b: "omega_b2" },
+      { a: "omega_p1_2", b: "omega_p2_1" },
+    ],
+    shiftElements: [
+      { id: "B1", kind: "brake", a: "omega_b1" },                 // freio baixa/ré
+      { id: "B2", kind: "brake", a: "omega_s2" },                 // cinta intermediária
+      { id: "C1", kind: "clutch", a: "omega_s1", b: "omega_s2" }, // embreagem direta
+    ],
     order: ["r1", "r2", "r3", "r4", "rr"],
     gears: [
       {
         id: "r1",
         label: { pt: "1ª marcha", en: "1st gear" },
-        speeds: [
-          { var: "omega_s1", value: 10 },
-          { var: "omega_b1", value: 0 },
-        ],
-        couplings: [
-          { a: "omega_b1", b: "omega_b2" },
-          { a: "omega_p1_2", b: "omega_p2_1" },
-        ],
+        speeds: [{ var: "omega_s1", value: 10 }],
+        couplings: [],
+        engaged: ["B1"],
         ratio: { entrada: "omega_s1", saida: "omega_a2" },
       },
       {
         id: "r2",
         label: { pt: "2ª marcha", en: "2nd gear" },
-        speeds: [
-          { var: "omega_s1", value: 10 },
-          { var: "omega_s2", value: 0 },
-        ],
-        couplings: [
-          { a: "omega_b1", b: "omega_b2" },
-          { a: "omega_p1_2", b: "omega_p2_1" },
-        ],
+        speeds: [{ var: "omega_s1", value: 10 }],
+        couplings: [],
+        engaged: ["B2"],
         ratio: { entrada: "omega_s1", saida: "omega_a2" },
       },
       {
         id: "r3",
         label: { pt: "3ª marcha", en: "3rd gear" },
         speeds: [{ var: "omega_s1", value: 10 }],
-        couplings: [
-          { a: "omega_b1", b: "omega_b2" },
-          { a: "omega_p1_2", b: "omega_p2_1" },
-          { a: "omega_s1", b: "omega_s2" },
-        ],
+        couplings: [],
+        engaged: ["C1"],
         ratio: { entrada: "omega_s1", saida: "omega_a2" },
       },
       {
         id: "r4",
         label: { pt: "4ª marcha", en: "4th gear" },
-        speeds: [
-          { var: "omega_b1", value: 10 },
-          { var: "omega_s2", value: 0 },
-        ],
-        couplings: [
-          { a: "omega_b1", b: "omega_b2" },
-          { a: "omega_p1_2", b: "omega_p2_1" },
-        ],
+        speeds: [{ var: "omega_b1", value: 10 }],
+        couplings: [],
+        engaged: ["B2"],
         ratio: { entrada: "omega_b1", saida: "omega_a2" },
       },
       {
         id: "rr",
         label: { pt: "Marcha ré", en: "Reverse gear" },
-        speeds: [
-          { var: "omega_s2", value: 10 },
-          { var: "omega_b1", value: 0 },
-        ],
-        couplings: [
-          { a: "omega_b1", b: "omega_b2" },
-          { a: "omega_p1_2", b: "omega_p2_1" },
-        ],
+        speeds: [{ var: "omega_s2", value: 10 }],
+        couplings: [],
+        engaged: ["B1"],
         ratio: { entrada: "omega_s2", saida: "omega_a2" },
       },
     ],
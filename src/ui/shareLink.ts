@@ -0,0 +1,107 @@
+import { parseDesign, serializeDesign, type DesignState } from "./designFile";
+import type { Lang } from "./i18n";
+
+// Link compartilhável: o documento de projeto (mesmo formato do arquivo JSON)
+// mais idioma e escala de tempo, comprimido em "#d=…" na URL. Por ficar no hash,
+// funciona em hospedagem estática (GitHub Pages) sem nada no servidor.
+//
+// Prefixo do payload: "z" = deflate-raw + base64url; "j" = JSON em base64url
+// (navegadores sem CompressionStream).
+
+const HASH_KEY = "d";
+
+export type SharedDesign = {
+  design: DesignState;
+  lang?: Lang;
+  timeScale?: number;
+};
+
+export type ShareHashResult =
+  | { valido: true; shared: SharedDesign }
+  | { valido: false; mensagem: string; mensagem_en: string };
+
+/** ---------- base64url ---------- */
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const b64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function pipeBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream) {
+  const out = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+const canCompress = () => typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+
+/** ---------- API ---------- */
+export async function encodeShareHash(shared: SharedDesign): Promise<string> {
+  const doc = { ...serializeDesign(shared.design), savedAt: undefined, lang: shared.lang, timeScale: shared.timeScale };
+  const bytes = new TextEncoder().encode(JSON.stringify(doc));
+  const payload = canCompress()
+    ? "z" + toBase64Url(await pipeBytes(bytes, new CompressionStream("deflate-raw")))
+    : "j" + toBase64Url(bytes);
+  return `#${HASH_KEY}=${payload}`;
+}
+
+export function shareUrl(hash: string) {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${hash}`;
+}
+
+/**
+ * Lê o hash da URL. Devolve null se não houver projeto no hash (URL comum);
+ * hash malformado volta como { valido: false } para a UI avisar e seguir com o padrão.
+ */
+export async function readShareHash(hash: string): Promise<ShareHashResult | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const payload = params.get(HASH_KEY);
+  if (!payload) return null;
+
+  let text: string;
+  try {
+    const kind = payload[0];
+    const bytes = fromBase64Url(payload.slice(1));
+    if (kind === "z") {
+      if (!canCompress()) {
+        return {
+          valido: false,
+          mensagem: "Este navegador não consegue descomprimir o link.",
+          mensagem_en: "This browser cannot decompress the link.",
+        };
+      }
+      text = new TextDecoder().decode(await pipeBytes(bytes, new DecompressionStream("deflate-raw")));
+    } else if (kind === "j") {
+      text = new TextDecoder().decode(bytes);
+    } else {
+      throw new Error(`prefixo "${kind}"`);
+    }
+  } catch {
+    return {
+      valido: false,
+      mensagem: "Link corrompido ou incompleto (não foi possível decodificar o projeto).",
+      mensagem_en: "Corrupted or truncated link (the design could not be decoded).",
+    };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { valido: false, mensagem: "Link corrompido: conteúdo não é JSON.", mensagem_en: "Corrupted link: content is not JSON." };
+  }
+  const parsed = parseDesign(raw);
+  if (!parsed.valido) return parsed;
+
+  const extra = raw as { lang?: unknown; timeScale?: unknown };
+  const shared: SharedDesign = { design: parsed.design };
+  if (extra.lang === "pt" || extra.lang === "en") shared.lang = extra.lang;
+  if (typeof extra.timeScale === "number" && Number.isFinite(extra.timeScale) && extra.timeScale >= 0) shared.timeScale = extra.timeScale;
+  return { valido: true, shared };
+}
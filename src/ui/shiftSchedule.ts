@@ -0,0 +1,116 @@
+import { solveGearSystem } from "../math/solver";
+import { buildModelFromUI } from "./buildModel";
+import type { PresetGear, UICoupling, UIShiftElement, UIStage } from "./presets";
+
+// Avalia todas as marchas de um projeto de uma vez (relação, degrau, abertura)
+// e monta o quadro de acionamento. Com elementos de troca nomeados, as colunas
+// são os próprios elementos e cada marcha marca os que aciona. Sem eles (projetos
+// antigos), freios = membros com velocidade 0 e embreagens = acoplamentos que não
+// estão presentes em todas as marchas.
+
+export type GearTableRow = {
+  id: string;
+  label: { pt: string; en: string };
+  ratio: number | null;
+  step: number | null;          // relação da marcha anterior / relação desta (só à frente)
+  engaged: string[];            // chaves das colunas acionadas nesta marcha
+  error?: { pt: string; en: string };
+};
+
+export type GearTableColumn = {
+  key: string;
+  label: string;                // ex.: "C1", "B2"
+  kind: "clutch" | "brake";
+  a: string;
+  b?: string;
+};
+
+export type GearTable = {
+  rows: GearTableRow[];
+  columns: GearTableColumn[];
+  permanent: { key: string; a: string; b: string }[];
+  spread: number | null;        // maior relação à frente / menor relação à frente
+};
+
+export type GearTableDesign = {
+  couplings?: UICoupling[];         // ligações fixas do projeto
+  shiftElements?: UIShiftElement[];
+};
+
+export function couplingKey(c: UICoupling) {
+  return [c.a ?? "", c.b ?? ""].sort().join("=");
+}
+
+export function evaluateGearTable(
+  stages: UIStage[],
+  gears: PresetGear<string>[],
+  order?: string[],
+  design: GearTableDesign = {},
+): GearTable {
+  const ordered = order
+    ? order.map((id) => gears.find((g) => g.id === id)).filter((g): g is PresetGear<string> => !!g)
+    : gears;
+  const fixed = (design.couplings ?? []).filter((c) => c.a && c.b);
+  const shiftElements = (design.shiftElements ?? []).filter((el) => el.id && el.a && (el.kind === "brake" || el.b));
+
+  const validCouplings = (g: PresetGear<string>) => g.couplings.filter((c) => c.a && c.b);
+  let columns: GearTableColumn[];
+  let permanent: GearTable["permanent"];
+  let marksOf: (g: PresetGear<string>) => string[];
+
+  if (shiftElements.length > 0) {
+    columns = shiftElements.map((el) => ({ key: el.id, label: el.id, kind: el.kind, a: el.a!, b: el.b }));
+    permanent = fixed.map((c) => ({ key: couplingKey(c), a: c.a!, b: c.b! }));
+    marksOf = (g) => (g.engaged ?? []).filter((id) => columns.some((c) => c.key === id));
+  } else {
+    const counts = new Map<string, { a: string; b: string; n: number }>();
+    for (const g of ordered) {
+      for (const c of [...fixed, ...validCouplings(g)]) {
+        const key = couplingKey(c);
+        const cur = counts.get(key) ?? { a: c.a!, b: c.b!, n: 0 };
+        cur.n++;
+        counts.set(key, cur);
+      }
+    }
+    permanent = [...counts.entries()].filter(([, v]) => v.n >= ordered.length).map(([key, v]) => ({ key, a: v.a, b: v.b }));
+    const clutches = [...counts.entries()].filter(([, v]) => v.n < ordered.length);
+    const brakes: string[] = [];
+    for (const g of ordered) {
+      for (const s of g.speeds) if (s.var && s.value === 0 && !brakes.includes(s.var)) brakes.push(s.var);
+    }
+    columns = [
+      ...brakes.map((v, k) => ({ key: `lock:${v}`, label: `B${k + 1}`, kind: "brake" as const, a: v })),
+      ...clutches.map(([key, v], k) => ({ key, label: `C${k + 1}`, kind: "clutch" as const, a: v.a, b: v.b })),
+    ];
+    const permanentKeys = new Set(permanent.map((p) => p.key));
+    marksOf = (g) => [
+      ...g.speeds.filter((s) => s.var && s.value === 0).map((s) => `lock:${s.var}`),
+      ...validCouplings(g).map(couplingKey).filter((k) => !permanentKeys.has(k)),
+    ];
+  }
+
+  const rows: GearTableRow[] = ordered.map((g) => {
+    let ratio: number | null = null;
+    let error: GearTableRow["error"];
+    try {
+      const model = buildModelFromUI(stages, g.speeds, [...fixed, ...g.couplings], g.ratio, shiftElements);
+      const r = solveGearSystem(model, g.engaged ?? []);
+      if (r.isUnderdetermined) error = { pt: "subdeterminado", en: "underdetermined" };
+      else if (r.isOverdetermined) error = { pt: "superdeterminado", en: "overdetermined" };
+      else ratio = r.ratios[0]?.value ?? null;
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      error = { pt: msg, en: msg };
+    }
+    if (ratio != null && !Number.isFinite(ratio)) ratio = null;
+    return { id: g.id, label: g.label, ratio, step: null, engaged: marksOf(g), error };
+  });
+
+  // Degraus e abertura consideram apenas as marchas à frente, na ordem do projeto
+  const forward = rows.filter((r) => r.ratio != null && r.ratio > 0);
+  for (let k = 1; k < forward.length; k++) forward[k].step = forward[k - 1].ratio! / forward[k].ratio!;
+  const fwdRatios = forward.map((r) => r.ratio!);
+  const spread = fwdRatios.length >= 2 ? Math.max(...fwdRatios) / Math.min(...fwdRatios) : null;
+
+  return { rows, columns, permanent, spread };
+}